@@ -1,4 +1,4 @@
-import React, {useState, useCallback} from 'react';
+import React, {useState, useCallback, useEffect, useRef} from 'react';
 import {
   SafeAreaView,
   ScrollView,
@@ -9,23 +9,426 @@ import {
   TouchableOpacity,
   View,
   Image,
+  Platform,
+  Share,
 } from 'react-native';
 import LottieView, {type AnimationObject} from 'lottie-react-native';
 import {SvgXml} from 'react-native-svg';
 import {Buffer} from 'buffer';
+import {sha256} from 'js-sha256';
 import {DEFAULT_SERVER_URL} from './src/config';
 import {
-  fetchLottie,
-  fetchImage,
+  DEFAULT_ASSETS,
+  fetchAsset,
+  listAssets,
   flipVersion,
+  setVersion,
+  setRolloutSchedule,
   setMode,
+  setPolicy,
+  setValidators,
+  setCompression,
+  addFault,
+  clearFaults,
   setLastModified,
   getServerState,
   resetServer,
+  syncFromManifest,
 } from './src/api';
-import type {LottieFetchResult, ImageFetchResult, ServerState, ImageFormat} from './src/types';
+import {RequestCancelledError, RequestFailedError} from './src/request';
+import {
+  checkReachability,
+  deleteProfile,
+  getLastUsedProfile,
+  loadProfiles,
+  normalizeServerUrl,
+  saveProfile,
+  setLastUsedProfile,
+} from './src/serverProfiles';
+import {
+  joinSession,
+  SessionExpiredError,
+  sessionUrl,
+  startNewSession,
+} from './src/sessions';
+import {appendRunEntry, clearRunLog, loadRunLog, settledFetchEntry, toHar, toMarkdown} from './src/runLog';
+import {runScenario, parseScenario} from './src/scenarios';
+import {
+  getCachedAsset,
+  getAssetCacheStats,
+  clearAssetCache,
+} from './src/assetCache';
+import {
+  getNativeCacheInfo,
+  listNativeCachedResponses,
+  evictNativeCachedResponse,
+  configureNativeCache,
+} from './src/httpCache';
+import {getRequestJournal, subscribeToJournal} from './src/serverJournal';
+import {buildTimeline} from './src/timeline';
+import {describeFetchSource} from './src/fetchSource';
+import {
+  useStaleWhileRevalidate,
+  type RevalidationState,
+} from './src/useStaleWhileRevalidate';
+import {
+  computeFreshness,
+  freshnessInput,
+  observedBehaviour,
+  describePrediction,
+  formatDuration,
+} from './src/freshness';
+import {
+  parseLottie,
+  lottieMetadata,
+  diffLottie,
+  describeLottieIssue,
+  describeLottieChange,
+} from './src/lottie';
+import {hasExternalImages, resolveLottieImages} from './src/lottieImages';
+import {unpackDotLottie} from './src/dotLottie';
+import {compareDelivery} from './src/deliveryComparison';
+import {BUILTIN_SCENARIOS} from './src/builtinScenarios';
+import {FAULT_PRESETS, FAULT_ODDS, describeFault} from './src/faults';
+import {
+  describeScheduledVersion,
+  formatRolloutSchedule,
+  parseRolloutSchedule,
+  suggestRollout,
+} from './src/rollout';
+import {
+  BOOLEAN_DIRECTIVES,
+  SECONDS_DIRECTIVES,
+  POLICY_PRESETS,
+  describePolicy,
+  formatCacheControl,
+} from './src/policies';
+import {
+  addBenchmarkRuns,
+  compareBenchmarkRuns,
+  deleteBenchmarkRun,
+  describeBenchmarkRun,
+  describeTimings,
+  loadBenchmarkRuns,
+  parseBenchmarkRuns,
+  runBenchmark,
+} from './src/benchmark';
+import {describeSvgChange, diffPng, diffSvg} from './src/imageDiff';
+import {encodePng} from './src/png';
+import type {
+  LottieFetchResult,
+  ImageFetchResult,
+  DotLottieFetchResult,
+  DotLottieArchive,
+  DeliveryComparison,
+  DeliveryStats,
+  DeltaInfo,
+  PixelDiff,
+  SvgChange,
+  ServerState,
+  RolloutStep,
+  BenchmarkCell,
+  BenchmarkDevice,
+  BenchmarkRun,
+  Mode,
+  AssetKind,
+  AssetInfo,
+  AssetRef,
+  CachePolicy,
+  ValidationInfo,
+  ValidatorStrategy,
+  CompressionSettings,
+  ContentEncoding,
+  ETagVariantMode,
+  TransferInfo,
+  FaultSpec,
+  FreshnessCheck,
+  CacheStrategy,
+  CacheMode,
+  FetchSource,
+  LottieAnimation,
+  LottieChange,
+  LottieImageLoad,
+  LottieImageReport,
+  LottieMetadata,
+  ManifestSyncItem,
+  ManifestSyncResult,
+  AssetCacheStats,
+  NativeCacheInfo,
+  NativeCacheConfig,
+  NativeCachedResponse,
+  JournalEntry,
+  ClientFetchRecord,
+  TimelineRow,
+  Scenario,
+  ScenarioReport,
+  StepReport,
+  ServerProfile,
+  ReachabilityResult,
+  SessionInfo,
+  RunEntry,
+  RunFetchEntry,
+  RunFetchOrigin,
+  SettledFetch,
+  RunActionEntry,
+} from './src/types';
+
+type FetchResult = LottieFetchResult | ImageFetchResult | DotLottieFetchResult;
+
+type AssetPreview =
+  | {kind: 'json'; animation: AnimationObject}
+  | {kind: 'png'; base64: string}
+  | {kind: 'svg'; xml: string}
+  | {kind: 'lottie'; animations: {id: string; animation: AnimationObject}[]; activeId: string | null};
+
+interface LottieRevisionDiff {
+  from: number | null;
+  to: number | null;
+  changes: LottieChange[];
+}
+
+// The previous and current body of an image tab, base64, and how they differ.
+interface ImageRevisionDiff {
+  kind: 'png' | 'svg';
+  fromSha: string;
+  before: string;
+  after: string;
+  pixels: PixelDiff | null;
+  overlayBase64: string | null;
+  svgChanges: SvgChange[] | null;
+  error: string | null;
+}
+
+const VALIDATOR_OPTIONS: {value: ValidatorStrategy; title: string}[] = [
+  {value: 'both', title: 'ETag + LM'},
+  {value: 'etag', title: 'ETag only'},
+  {value: 'last-modified', title: 'LM only'},
+  {value: 'none', title: 'None'},
+];
+
+const COMPRESSION_OPTIONS: {encodings: ContentEncoding[]; title: string}[] = [
+  {encodings: [], title: 'Off'},
+  {encodings: ['gzip'], title: 'gzip'},
+  {encodings: ['br'], title: 'br'},
+  {encodings: ['br', 'gzip'], title: 'br + gzip'},
+];
+
+const ETAG_VARIANT_OPTIONS: {value: ETagVariantMode; title: string}[] = [
+  {value: 'per-encoding', title: 'ETag per encoding'},
+  {value: 'weak', title: 'Shared weak ETag'},
+];
+
+function describeCompression(compression: CompressionSettings): string {
+  return compression.encodings.length > 0
+    ? `${compression.encodings.join(', ')} (${compression.etags} ETags)`
+    : 'off';
+}
+
+function describeTransfer(transfer: TransferInfo): string {
+  const encoding = transfer.contentEncoding ?? '—';
+  return transfer.encodedBytes === null
+    ? `${encoding} | ${transfer.decodedBytes} B decoded`
+    : `${encoding} | ${transfer.encodedBytes} B sent → ${transfer.decodedBytes} B decoded`;
+}
 
-type TabType = 'json' | 'png' | 'svg';
+function describeSession(info: SessionInfo): string {
+  const name = info.label ? `${info.id} (${info.label})` : info.id;
+  return info.expiresAt ? `${name}, idle expiry ${formatISTTime(new Date(info.expiresAt))}` : name;
+}
+
+function describeReachability(check: ReachabilityResult): string {
+  if (!check.reachable) {
+    return `unreachable (${check.error})`;
+  }
+  return `${check.latencyMs} ms` + (check.version !== null ? `, v${check.version}` : '');
+}
+
+function describeSentValidators(validation: ValidationInfo): string {
+  const sent: string[] = [];
+  if (validation.sentIfNoneMatch) {
+    sent.push(`INM: ${validation.sentIfNoneMatch}`);
+  }
+  if (validation.sentIfModifiedSince) {
+    sent.push(`IMS: ${validation.sentIfModifiedSince}`);
+  }
+  return sent.length > 0 ? sent.join(' | ') : '(unconditional)';
+}
+
+function describeSyncItem(item: ManifestSyncItem): string {
+  const expected = `${item.expectedSha256.slice(0, 8)}…`;
+  switch (item.outcome) {
+    case 'unchanged':
+      return `unchanged (${expected})`;
+    case 'updated':
+      return `updated, ${expected} verified (${item.result?.source})`;
+    case 'mismatch':
+      return (
+        `REJECTED: got ${item.result?.bodySha256.slice(0, 8) || 'empty'}…, ` +
+        `manifest says ${expected} (${item.result?.source})`
+      );
+    case 'error':
+      return `error: ${item.error}`;
+  }
+}
+
+function describeImageReport(report: LottieImageReport): string {
+  return (
+    `${report.cacheHits} of ${report.images.length} from cache` +
+    (report.failed > 0 ? `, ${report.failed} failed` : '')
+  );
+}
+
+function describeImageLoad(image: LottieImageLoad): string {
+  const file = image.url.split('/').pop();
+  if (image.error !== null || image.source === null) {
+    return `${image.id} · ${file} · ${image.error}`;
+  }
+  return (
+    `${image.id} · ${file} · ${describeFetchSource(image.source)} · ${image.bytes} B` +
+    (image.appCache ? ` · app cache ${image.appCache}` : '')
+  );
+}
+
+function describeVerification(result: DotLottieFetchResult): string {
+  if (result.verified === null) {
+    return result.expectedSha256 ? 'no body to check' : 'manifest unavailable';
+  }
+  return result.verified
+    ? 'matches manifest'
+    : `MISMATCH: manifest says ${result.expectedSha256?.slice(0, 8)}…`;
+}
+
+function describeDelivery(stats: DeliveryStats): string {
+  return (
+    `${stats.requests} req · ${stats.bytes} B · ${stats.cacheHits} cached · ` +
+    `${stats.fetchMs} ms fetch · ${stats.parseMs} ms parse` +
+    (stats.failed > 0 ? ` · ${stats.failed} failed` : '')
+  );
+}
+
+function describeDelta(delta: DeltaInfo): string {
+  const full = delta.fullBytes === null ? '?' : `${delta.fullBytes}`;
+  return delta.outcome === 'applied'
+    ? `${delta.operations} ops, ${delta.patchBytes} B instead of ${full} B (saved ${delta.bytesSaved} B)`
+    : `patch discarded (${delta.error}), full body refetched`;
+}
+
+function describeRevalidation(state: RevalidationState): string {
+  if (state.revalidating) {
+    return `${state.freshness.toUpperCase()} · revalidating…`;
+  }
+  if (state.error !== null) {
+    return `STALE · ${state.error}`;
+  }
+  if (state.lastCheckedAt === null) {
+    return 'STALE · last known';
+  }
+  const source = state.lastSource ? `, ${describeFetchSource(state.lastSource)}` : '';
+  return `${state.freshness.toUpperCase()} · checked ${formatISTTime(new Date(state.lastCheckedAt))}${source}`;
+}
+
+const FRESHNESS_COLORS: Record<RevalidationState['freshness'], string> = {
+  fresh: '#4caf50',
+  stale: '#ff9800',
+};
+
+const REFRESH_INTERVALS: {ms: number | null; title: string}[] = [
+  {ms: null, title: 'No timer'},
+  {ms: 15000, title: 'Every 15 s'},
+  {ms: 30000, title: 'Every 30 s'},
+  {ms: 60000, title: 'Every 60 s'},
+];
+
+// The Fetch button is 'default'; Force Fetch stays for the app strategy,
+// which the modes don't apply to.
+const CACHE_MODE_BUTTONS: {mode: CacheMode; title: string; color: string}[] = [
+  {mode: 'no-cache', title: 'No-Cache', color: '#00BCD4'},
+  {mode: 'no-store', title: 'No-Store', color: '#607D8B'},
+  {mode: 'force-cache', title: 'Force-Cache', color: '#8BC34A'},
+  {mode: 'only-if-cached', title: 'Only-If-Cached', color: '#795548'},
+];
+
+const CACHE_SIZES: {bytes: number; title: string}[] = [
+  {bytes: 1024 * 1024, title: '1 MB'},
+  {bytes: 10 * 1024 * 1024, title: '10 MB'},
+  {bytes: 50 * 1024 * 1024, title: '50 MB'},
+];
+
+const BENCHMARK_ITERATIONS = [3, 5, 10, 20];
+const BENCHMARK_MODES: Mode[] = ['A', 'B'];
+
+function describeBenchmarkCell(cell: BenchmarkCell | null): string {
+  if (!cell) {
+    return '—';
+  }
+  const requests = cell.serverRequests === null ? '?' : `${cell.serverRequests}`;
+  return (
+    `${describeTimings(cell.timing)}\n${cell.bytes} B · ${requests} req` +
+    (cell.errors > 0 ? ` · ${cell.errors} failed` : '')
+  );
+}
+
+function benchmarkDevice(): BenchmarkDevice {
+  const {major, minor, patch, prerelease} = Platform.constants.reactNativeVersion;
+  return {
+    platform: Platform.OS,
+    osVersion: String(Platform.Version),
+    reactNative: `${major}.${minor}.${patch}${prerelease ? `-${prerelease}` : ''}`,
+  };
+}
+
+// Demo assets keep their short tab titles; uploaded ones show their name.
+function tabTitle(asset: AssetRef): string {
+  return DEFAULT_ASSETS.some(a => a.name === asset.name)
+    ? asset.kind.toUpperCase()
+    : asset.name;
+}
+
+function imagePreview(kind: AssetKind, base64: string): AssetPreview {
+  return kind === 'svg'
+    ? {kind: 'svg', xml: Buffer.from(base64, 'base64').toString('utf8')}
+    : {kind: 'png', base64};
+}
+
+function diffImageRevisions(
+  kind: 'png' | 'svg',
+  fromSha: string,
+  before: string,
+  after: string,
+): ImageRevisionDiff {
+  const diff = {kind, fromSha, before, after, pixels: null, overlayBase64: null, svgChanges: null, error: null};
+  try {
+    if (kind === 'png') {
+      const pixels = diffPng(Buffer.from(before, 'base64'), Buffer.from(after, 'base64'));
+      return {...diff, pixels, overlayBase64: Buffer.from(encodePng(pixels.overlay)).toString('base64')};
+    }
+    const xml = (body: string) => Buffer.from(body, 'base64').toString('utf8');
+    return {...diff, svgChanges: diffSvg(xml(before), xml(after))};
+  } catch (e: unknown) {
+    return {...diff, error: e instanceof Error ? e.message : String(e)};
+  }
+}
+
+function describePixelDiff(diff: PixelDiff): string {
+  const {before, after} = diff;
+  const resized =
+    before.width !== after.width || before.height !== after.height
+      ? ` · ${before.width}×${before.height} → ${after.width}×${after.height}`
+      : '';
+  return diff.changedPixels === 0
+    ? `none of ${diff.totalPixels} (same pixels, re-encoded)`
+    : `${diff.changedPixels} of ${diff.totalPixels} (${diff.changedPercent}%)${resized}`;
+}
+
+// The archive's playable animations, starting with the one its manifest marks
+// active.
+function dotLottiePreview(archive: DotLottieArchive): AssetPreview {
+  const animations = archive.animations.flatMap(({id, animation}) =>
+    animation ? [{id, animation: animation as unknown as AnimationObject}] : [],
+  );
+  const active = animations.find(a => a.id === archive.manifest.activeAnimationId) ?? animations[0];
+  return {kind: 'lottie', animations, activeId: active?.id ?? null};
+}
 
 function formatIST(date: Date | string): string {
   const d = typeof date === 'string' ? new Date(date) : date;
@@ -37,193 +440,908 @@ function formatISTTime(date: Date): string {
 }
 
 function App(): React.JSX.Element {
-  const [serverUrl, setServerUrl] = useState(DEFAULT_SERVER_URL);
-  const [activeTab, setActiveTab] = useState<TabType>('json');
-
-  // JSON (Lottie) state
-  const [animationJson, setAnimationJson] = useState<AnimationObject | null>(null);
-  const [jsonResult, setJsonResult] = useState<LottieFetchResult | null>(null);
-
-  // PNG state
-  const [pngBase64, setPngBase64] = useState<string | null>(null);
-  const [pngResult, setPngResult] = useState<ImageFetchResult | null>(null);
+  // The server picked in the Server section; only changes to one that
+  // answered a probe.
+  const [hostUrl, setHostUrl] = useState(DEFAULT_SERVER_URL);
+  // Our session on that server. Until it's joined, requests go to the
+  // server's default session.
+  const [session, setSession] = useState<{hostUrl: string; info: SessionInfo} | null>(null);
+  const serverUrl =
+    session && session.hostUrl === hostUrl ? sessionUrl(hostUrl, session.info.id) : hostUrl;
+  // Bumped to join again after the server let our session expire.
+  const [sessionRejoins, setSessionRejoins] = useState(0);
+  const rejoiningRef = useRef(false);
+  const [profiles, setProfiles] = useState<ServerProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [editingProfile, setEditingProfile] = useState<ServerProfile | null>(null);
+  const [reachability, setReachability] = useState<Record<string, ReachabilityResult>>({});
+  const [checkingUrl, setCheckingUrl] = useState<string | null>(null);
+  const [assetList, setAssetList] = useState<AssetInfo[] | null>(null);
+  const [activeTab, setActiveTab] = useState(DEFAULT_ASSETS[0].name);
 
-  // SVG state
-  const [svgXml, setSvgXml] = useState<string | null>(null);
-  const [svgResult, setSvgResult] = useState<ImageFetchResult | null>(null);
+  // Per-asset results and previews, by asset name
+  const [results, setResults] = useState<Record<string, FetchResult>>({});
+  const [previews, setPreviews] = useState<Record<string, AssetPreview>>({});
+  // SHA-256 of the body behind each preview, for background revalidation
+  const [shownShas, setShownShas] = useState<Record<string, string>>({});
+  const [lottieDiffs, setLottieDiffs] = useState<Record<string, LottieRevisionDiff>>({});
+  const [imageDiffs, setImageDiffs] = useState<Record<string, ImageRevisionDiff>>({});
+  const [freshnessChecks, setFreshnessChecks] = useState<Record<string, FreshnessCheck>>({});
+  const [imageReports, setImageReports] = useState<Record<string, LottieImageReport | null>>({});
+  const [deliveryComparisons, setDeliveryComparisons] = useState<Record<string, DeliveryComparison>>({});
+  const lastAnimationsRef = useRef<Record<string, {animation: LottieAnimation; sha: string}>>({});
+  const lastImagesRef = useRef<Record<string, {base64: string; sha: string}>>({});
 
   const [serverState, setServerState] = useState<ServerState | null>(null);
   const [log, setLog] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
+  // The asset fetch in flight; a new fetch or a tab change cancels it.
+  const fetchControllerRef = useRef<AbortController | null>(null);
+  const [staleOnError, setStaleOnError] = useState(false);
+  const [deltaUpdates, setDeltaUpdates] = useState(false);
+  const [backgroundRefresh, setBackgroundRefresh] = useState(false);
+  const [refreshIntervalMs, setRefreshIntervalMs] = useState<number | null>(30000);
+
+  // App-level cache state
+  const [cacheStrategy, setCacheStrategy] = useState<CacheStrategy>('native');
+  const [appCacheStats, setAppCacheStats] = useState<AssetCacheStats | null>(null);
+
+  const [manifestSync, setManifestSync] = useState<ManifestSyncResult | null>(null);
+
+  // Native cache inspector state
+  const [nativeCacheInfo, setNativeCacheInfo] = useState<NativeCacheInfo | null>(null);
+  const [nativeEntries, setNativeEntries] = useState<NativeCachedResponse[]>([]);
+  const [cacheSize, setCacheSize] = useState(CACHE_SIZES[1].bytes);
+  const [cacheDirectory, setCacheDirectory] = useState('');
+  const [nativeCacheConfig, setNativeCacheConfig] = useState<NativeCacheConfig | null>(null);
+
+  // Server journal / timeline state
+  const [journal, setJournal] = useState<JournalEntry[]>([]);
+  const [clientFetches, setClientFetches] = useState<ClientFetchRecord[]>([]);
+  const [journalLive, setJournalLive] = useState(false);
+  const [journalConnected, setJournalConnected] = useState(false);
+  const lastJournalIdRef = useRef(0);
+  const fetchIdRef = useRef(0);
+
+  // Scenario runner state
+  const [scenarioReport, setScenarioReport] = useState<ScenarioReport | null>(null);
+  const [scenarioSteps, setScenarioSteps] = useState<StepReport[]>([]);
+  const [scenarioRunning, setScenarioRunning] = useState<string | null>(null);
+  const [customScenario, setCustomScenario] = useState('');
+
+  // Structured record of fetches and control actions, for export
+  const [runLog, setRunLog] = useState<RunEntry[]>([]);
+  const runEntryIdRef = useRef(0);
 
   const addLog = useCallback((msg: string) => {
     const ts = formatISTTime(new Date());
     setLog(prev => [`[${ts}] ${msg}`, ...prev].slice(0, 50));
   }, []);
 
-  const refreshServerState = useCallback(async () => {
+  // Sessions expire after sitting idle; every request to one then fails.
+  const rejoinIfExpired = useCallback((e: unknown) => {
+    if (e instanceof SessionExpiredError && !rejoiningRef.current) {
+      rejoiningRef.current = true;
+      addLog('Session expired, rejoining');
+      setSessionRejoins(n => n + 1);
+    }
+  }, [addLog]);
+
+  const refreshServerState = useCallback(async (): Promise<ServerState | null> => {
     try {
       const state = await getServerState(serverUrl);
       setServerState(state);
+      return state;
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e);
       addLog(`State fetch error: ${msg}`);
+      rejoinIfExpired(e);
+      return null;
+    }
+  }, [serverUrl, addLog, rejoinIfExpired]);
+
+  useEffect(() => {
+    loadRunLog().then(entries => {
+      setRunLog(entries);
+      runEntryIdRef.current = entries.reduce((max, e) => Math.max(max, e.id), 0);
+    });
+  }, []);
+
+  // Storage can fail (full, say); the entry is then only missing from the log.
+  const recordRun = useCallback(
+    async (entry: Omit<RunFetchEntry, 'id'> | Omit<RunActionEntry, 'id'>) => {
+      try {
+        setRunLog(await appendRunEntry({...entry, id: ++runEntryIdRef.current} as RunEntry));
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        addLog(`Run log error: ${msg}`);
+      }
+    },
+    [addLog],
+  );
+
+  // Fetches made other than by the Fetch buttons, which record their own.
+  // Cancelled ones are left out, as they are there.
+  const logSettled = useCallback(
+    (origin: RunFetchOrigin) => (fetch: SettledFetch) => {
+      if (!(fetch.error instanceof RequestCancelledError)) {
+        recordRun(settledFetchEntry(fetch, origin));
+      }
+    },
+    [recordRun],
+  );
+
+  // Server control actions: `action` returns the log line; failures are
+  // logged as "<name> error". Both end up in the run log with the server
+  // state that followed.
+  const runControl = useCallback(async (name: string, action: () => Promise<string>) => {
+    const startedAt = Date.now();
+    let detail: string | null = null;
+    let error: string | null = null;
+    try {
+      detail = await action();
+      addLog(detail);
+    } catch (e: unknown) {
+      error = e instanceof Error ? e.message : String(e);
+      addLog(`${name} error: ${error}`);
+      rejoinIfExpired(e);
+    }
+    const durationMs = Date.now() - startedAt;
+    const state = error === null ? await refreshServerState() : null;
+    await recordRun({kind: 'action', startedAt, durationMs, name, detail, error, serverState: state});
+  }, [addLog, refreshServerState, recordRun, rejoinIfExpired]);
+
+  const refreshAppCacheStats = useCallback(async () => {
+    setAppCacheStats(await getAssetCacheStats());
+  }, []);
+
+  const assets: AssetRef[] = assetList ?? DEFAULT_ASSETS;
+  const activeAsset = assets.find(a => a.name === activeTab) ?? assets[0];
+
+  const refreshAssets = useCallback(async () => {
+    try {
+      setAssetList(await listAssets(serverUrl));
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      addLog(`Asset list error: ${msg}`);
     }
   }, [serverUrl, addLog]);
 
-  const handleFetchJson = useCallback(async (noCache = false) => {
-    setLoading(true);
+  useEffect(() => {
+    refreshAssets();
+  }, [refreshAssets]);
+
+  // Restore the profile used last; a fresh install stays on the default URL.
+  useEffect(() => {
+    (async () => {
+      setProfiles(await loadProfiles());
+      const last = await getLastUsedProfile();
+      if (last) {
+        setHostUrl(last.baseUrl);
+        setActiveProfileId(last.id);
+      }
+    })();
+  }, []);
+
+  // Join (or create) our session whenever the server changes, or again once
+  // it has expired.
+  useEffect(() => {
+    let cancelled = false;
+    setServerState(null);
+    (async () => {
+      try {
+        const {session: info, created} = await joinSession(hostUrl, Platform.OS);
+        if (cancelled) {
+          return;
+        }
+        setSession({hostUrl, info});
+        addLog(`${created ? 'Created' : 'Joined'} session ${info.id}`);
+        setServerState(await getServerState(sessionUrl(hostUrl, info.id)));
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        addLog(`Session error: ${msg} (using the default session)`);
+      } finally {
+        rejoiningRef.current = false;
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [hostUrl, addLog, sessionRejoins]);
+
+  const handleNewSession = useCallback(async () => {
     try {
-      const result = await fetchLottie(serverUrl, noCache);
-      setJsonResult(result);
-      if (result.json) {
-        setAnimationJson(result.json as unknown as AnimationObject);
+      const previous = session?.hostUrl === hostUrl ? session.info.id : null;
+      const info = await startNewSession(hostUrl, previous, Platform.OS);
+      setSession({hostUrl, info});
+      setResults({});
+      setPreviews({});
+      setLottieDiffs({});
+      setImageDiffs({});
+      setFreshnessChecks({});
+      setImageReports({});
+      setDeliveryComparisons({});
+      setShownShas({});
+      lastAnimationsRef.current = {};
+      lastImagesRef.current = {};
+      addLog(`Started session ${info.id}`);
+      setServerState(await getServerState(sessionUrl(hostUrl, info.id)));
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      addLog(`Session error: ${msg}`);
+    }
+  }, [hostUrl, session, addLog]);
+
+  const probeServer = useCallback(async (baseUrl: string) => {
+    setCheckingUrl(baseUrl);
+    const check = await checkReachability(baseUrl);
+    setReachability(prev => ({...prev, [baseUrl]: check}));
+    setCheckingUrl(null);
+    return check;
+  }, []);
+
+  const handleSelectProfile = useCallback(async (profile: ServerProfile) => {
+    const check = await probeServer(profile.baseUrl);
+    if (!check.reachable) {
+      addLog(`${profile.name} unreachable: ${check.error}`);
+      return;
+    }
+    setHostUrl(profile.baseUrl);
+    setActiveProfileId(profile.id);
+    setEditingProfile(null);
+    await setLastUsedProfile(profile.id);
+    addLog(`Server → ${profile.name} (${profile.baseUrl}, ${check.latencyMs} ms)`);
+  }, [probeServer, addLog]);
+
+  // Throws on validation errors so the editor can show them inline.
+  const handleSaveProfile = useCallback(async (draft: ProfileDraft) => {
+    const {profile, profiles: next} = await saveProfile(draft);
+    setProfiles(next);
+    setEditingProfile(profile);
+    addLog(`Profile saved: ${profile.name}`);
+    if (profile.id === activeProfileId) {
+      setHostUrl(profile.baseUrl);
+    }
+  }, [activeProfileId, addLog]);
+
+  const handleDeleteProfile = useCallback(async (profile: ServerProfile) => {
+    setProfiles(await deleteProfile(profile.id));
+    setEditingProfile(null);
+    if (profile.id === activeProfileId) {
+      setActiveProfileId(null);
+    }
+    addLog(`Profile deleted: ${profile.name}`);
+  }, [activeProfileId, addLog]);
+
+  // Bring back the last stored bodies so previews survive an app restart.
+  // Only fills empty previews; anything fetched this session wins.
+  const restoreFromAppCache = useCallback(async () => {
+    const stored = await Promise.all(
+      assets.map(asset => getCachedAsset(`${serverUrl}${asset.path}`)),
+    );
+    const restored: Record<string, AssetPreview> = {};
+    const restoredShas: Record<string, string> = {};
+    assets.forEach((asset, i) => {
+      const entry = stored[i];
+      if (!entry) {
+        return;
+      }
+      restoredShas[asset.name] = sha256(
+        entry.encoding === 'base64' ? Buffer.from(entry.body, 'base64') : entry.body,
+      );
+      if (asset.kind === 'lottie') {
+        try {
+          restored[asset.name] = dotLottiePreview(unpackDotLottie(Buffer.from(entry.body, 'base64')));
+        } catch {
+          // stored body wasn't an archive
+        }
+        return;
+      }
+      if (asset.kind !== 'json') {
+        restored[asset.name] = imagePreview(asset.kind, entry.body);
+        // A fetch that brings a new body is diffed against this one.
+        lastImagesRef.current[asset.name] ??= {base64: entry.body, sha: restoredShas[asset.name]};
+        return;
+      }
+      try {
+        const {animation} = parseLottie(JSON.parse(entry.body));
+        // Images referenced by URL are only embedded by a fetch.
+        if (animation && !hasExternalImages(animation)) {
+          restored[asset.name] = {kind: 'json', animation: animation as unknown as AnimationObject};
+        }
+      } catch {
+        // stored body wasn't valid JSON
+      }
+    });
+    setPreviews(prev => ({...restored, ...prev}));
+    setShownShas(prev => {
+      const shas = {...prev};
+      for (const name of Object.keys(restored)) {
+        shas[name] = shas[name] ?? restoredShas[name];
       }
+      return shas;
+    });
+    await refreshAppCacheStats();
+  }, [serverUrl, assets, refreshAppCacheStats]);
+
+  useEffect(() => {
+    restoreFromAppCache();
+  }, [restoreFromAppCache]);
+
+  const handleClearAppCache = useCallback(async () => {
+    await clearAssetCache();
+    addLog('App cache cleared');
+    await refreshAppCacheStats();
+  }, [addLog, refreshAppCacheStats]);
+
+  const handleInspectNativeCache = useCallback(async () => {
+    try {
+      const [info, entries] = await Promise.all([
+        getNativeCacheInfo(),
+        listNativeCachedResponses(assets.map(asset => `${serverUrl}${asset.path}`)),
+      ]);
+      setNativeCacheInfo(info);
+      setNativeEntries(entries);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      addLog(`Cache inspector error: ${msg}`);
+    }
+  }, [serverUrl, assets, addLog]);
+
+  const handleConfigureCache = useCallback(async () => {
+    try {
+      const config = await configureNativeCache(cacheSize, cacheDirectory);
+      setNativeCacheConfig(config);
       addLog(
-        `[JSON] ${result.status} | v${result.demoVersion} | ` +
-        `${result.bodySha256.slice(0, 8)}… | ${result.fetchTimeMs}ms`,
+        `Native cache: ${config.maxSize} bytes in ${config.directory}` +
+        (config.appliesOnRestart ? ' (fetch() uses it after a restart)' : ''),
       );
-      await refreshServerState();
+      await handleInspectNativeCache();
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e);
-      addLog(`[JSON] Error: ${msg}`);
-    } finally {
-      setLoading(false);
+      addLog(`Cache config error: ${msg}`);
     }
-  }, [serverUrl, addLog, refreshServerState]);
+  }, [cacheSize, cacheDirectory, addLog, handleInspectNativeCache]);
 
-  const handleFetchImage = useCallback(async (format: ImageFormat, noCache = false) => {
-    setLoading(true);
+  const handleEvictNative = useCallback(async (url: string) => {
     try {
-      const result = await fetchImage(serverUrl, format, noCache);
-      if (format === 'png') {
-        setPngResult(result);
-        if (result.base64) {
-          setPngBase64(result.base64);
+      const evicted = await evictNativeCachedResponse(url);
+      addLog(`Evict ${url.replace(serverUrl, '')} → ${evicted ? 'removed' : 'not cached'}`);
+      await handleInspectNativeCache();
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      addLog(`Evict error: ${msg}`);
+    }
+  }, [serverUrl, addLog, handleInspectNativeCache]);
+
+  const addJournalEntries = useCallback((entries: JournalEntry[]) => {
+    if (entries.length === 0) {
+      return;
+    }
+    lastJournalIdRef.current = Math.max(lastJournalIdRef.current, ...entries.map(e => e.id));
+    setJournal(prev => {
+      const known = new Set(prev.map(e => e.id));
+      return [...prev, ...entries.filter(e => !known.has(e.id))].slice(-200);
+    });
+  }, []);
+
+  const handleLoadJournal = useCallback(async () => {
+    try {
+      const {entries} = await getRequestJournal(serverUrl);
+      addJournalEntries(entries);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      addLog(`Journal error: ${msg}`);
+    }
+  }, [serverUrl, addJournalEntries, addLog]);
+
+  useEffect(() => {
+    if (!journalLive) {
+      return;
+    }
+    const subscription = subscribeToJournal(
+      serverUrl,
+      entry => addJournalEntries([entry]),
+      setJournalConnected,
+      lastJournalIdRef.current,
+    );
+    return () => subscription.close();
+  }, [journalLive, serverUrl, addJournalEntries]);
+
+  // Wraps a fetch so the timeline can line it up with the server journal.
+  const trackFetch = useCallback(async <T extends {status: number; serverRequestId: number | null}>(
+    asset: AssetKind,
+    run: () => Promise<T>,
+  ): Promise<T> => {
+    const base = {
+      id: ++fetchIdRef.current,
+      asset,
+      startedAt: Date.now(),
+      journalIdAtStart: lastJournalIdRef.current,
+    };
+    const record = (r: Omit<ClientFetchRecord, keyof typeof base>) =>
+      setClientFetches(prev => [...prev, {...base, ...r}].slice(-100));
+    try {
+      const result = await run();
+      record({finishedAt: Date.now(), status: result.status, error: null, serverRequestId: result.serverRequestId});
+      return result;
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      record({finishedAt: Date.now(), status: null, error: msg, serverRequestId: null});
+      throw e;
+    }
+  }, []);
+
+  const showResult = useCallback((asset: AssetRef, result: FetchResult) => {
+    setResults(prev => ({...prev, [asset.name]: result}));
+    const shown =
+      'archive' in result ? result.archive !== null : 'json' in result ? result.animation !== null : !!result.base64;
+    if (shown) {
+      setShownShas(prev => ({...prev, [asset.name]: result.bodySha256}));
+    }
+    if ('archive' in result) {
+      const {archive} = result;
+      if (archive) {
+        setPreviews(prev => ({...prev, [asset.name]: dotLottiePreview(archive)}));
+      }
+      return;
+    }
+    if (!('json' in result)) {
+      const {base64, bodySha256} = result;
+      if (!base64) {
+        return;
+      }
+      if (asset.kind === 'png' || asset.kind === 'svg') {
+        const previous = lastImagesRef.current[asset.name];
+        if (previous && previous.sha !== bodySha256) {
+          const diff = diffImageRevisions(asset.kind, previous.sha, previous.base64, base64);
+          setImageDiffs(prev => ({...prev, [asset.name]: diff}));
         }
-      } else {
-        setSvgResult(result);
-        if (result.base64) {
-          const svgContent = Buffer.from(result.base64, 'base64').toString('utf8');
-          setSvgXml(svgContent);
+        lastImagesRef.current[asset.name] = {base64, sha: bodySha256};
+      }
+      setPreviews(prev => ({...prev, [asset.name]: imagePreview(asset.kind, base64)}));
+      return;
+    }
+    // An invalid body is reported but never handed to LottieView.
+    const {animation, bodySha256} = result;
+    if (!animation) {
+      return;
+    }
+    const previous = lastAnimationsRef.current[asset.name];
+    if (previous && previous.sha !== bodySha256) {
+      const diff = {
+        from: previous.animation.demoVersion ?? null,
+        to: animation.demoVersion ?? null,
+        changes: diffLottie(previous.animation, animation),
+      };
+      setLottieDiffs(prev => ({...prev, [asset.name]: diff}));
+    }
+    lastAnimationsRef.current[asset.name] = {animation, sha: bodySha256};
+    // Shown by inlineImages() once the images it references are embedded.
+    if (hasExternalImages(animation)) {
+      return;
+    }
+    setPreviews(prev => ({
+      ...prev,
+      [asset.name]: {kind: 'json', animation: animation as unknown as AnimationObject},
+    }));
+  }, []);
+
+  // Fetches the images a Lottie references through the current cache
+  // strategy, then previews it with them embedded. Only cancellation throws.
+  const inlineImages = useCallback(async (
+    asset: AssetRef,
+    result: FetchResult,
+    signal?: AbortSignal,
+  ) => {
+    if (!('json' in result) || !result.animation) {
+      return;
+    }
+    if (!hasExternalImages(result.animation)) {
+      setImageReports(prev => ({...prev, [asset.name]: null}));
+      return;
+    }
+    const report = await resolveLottieImages(
+      result.animation,
+      `${serverUrl}${asset.path}`,
+      serverUrl,
+      {strategy: cacheStrategy, signal},
+    );
+    setImageReports(prev => ({...prev, [asset.name]: report}));
+    setPreviews(prev => ({
+      ...prev,
+      [asset.name]: {kind: 'json', animation: report.animation as unknown as AnimationObject},
+    }));
+    addLog(`[${asset.name}] Images: ${describeImageReport(report)}`);
+  }, [serverUrl, cacheStrategy, addLog]);
+
+  useEffect(() => {
+    fetchControllerRef.current?.abort();
+  }, [activeTab]);
+
+  // Keeps the active preview on screen and refreshes it in the background,
+  // swapping in a new body only when its hash differs.
+  const revalidation = useStaleWhileRevalidate<FetchResult>({
+    key: backgroundRefresh ? `${serverUrl}${activeAsset.path} ${cacheStrategy}` : null,
+    shownSha256: shownShas[activeAsset.name] ?? null,
+    load: signal =>
+      trackFetch(activeAsset.kind, () =>
+        fetchAsset(serverUrl, activeAsset, false, {
+          strategy: cacheStrategy,
+          signal,
+          delta: deltaUpdates,
+          onSettled: logSettled('background'),
+        }),
+      ),
+    onChange: result => {
+      showResult(activeAsset, result);
+      addLog(
+        `[${activeAsset.name}] Background refresh: new body ${result.bodySha256.slice(0, 8)}… (${result.source})`,
+      );
+      inlineImages(activeAsset, result).catch((e: unknown) =>
+        addLog(`[${activeAsset.name}] Images: ${e instanceof Error ? e.message : String(e)}`),
+      );
+    },
+    intervalMs: refreshIntervalMs,
+  });
+  const {confirm: confirmShown} = revalidation;
+
+  const handleFetch = useCallback(async (cacheMode: CacheMode = 'default', force = false) => {
+    const asset = activeAsset;
+    // What the platform cache should do with this request, judged from the
+    // response it has stored. Forced fetches, other cache modes and the app
+    // cache bypass it.
+    const previous = results[asset.name];
+    const predicted =
+      !force && cacheMode === 'default' && cacheStrategy === 'native' && previous && !previous.fallback
+        ? computeFreshness(freshnessInput(previous))
+        : null;
+    fetchControllerRef.current?.abort();
+    const controller = new AbortController();
+    fetchControllerRef.current = controller;
+    setLoading(true);
+    const run = {
+      kind: 'fetch' as const,
+      startedAt: Date.now(),
+      asset: asset.name,
+      url: `${serverUrl}${asset.path}`,
+      origin: 'button' as const,
+      forced: force,
+      strategy: cacheStrategy,
+      cacheMode,
+    };
+    try {
+      const result = await trackFetch(asset.kind, () =>
+        fetchAsset(serverUrl, asset, force, {
+          strategy: cacheStrategy,
+          cacheMode,
+          signal: controller.signal,
+          staleOnError,
+          delta: deltaUpdates,
+        }),
+      );
+      showResult(asset, result);
+      confirmShown(result);
+      if (predicted && !result.fallback) {
+        const check: FreshnessCheck = {
+          predicted: predicted.prediction,
+          observed: observedBehaviour(result),
+          remainingSeconds: predicted.remainingSeconds,
+        };
+        setFreshnessChecks(prev => ({...prev, [asset.name]: check}));
+        if (check.observed !== null && check.observed !== check.predicted) {
+          addLog(
+            `[${asset.name}] Prediction contradicted: expected ${describePrediction(check.predicted)}, ` +
+            `was ${describePrediction(check.observed)}`,
+          );
         }
       }
       addLog(
-        `[${format.toUpperCase()}] ${result.status} | ` +
-        `${result.bodySha256.slice(0, 8)}… | ${result.fetchTimeMs}ms`,
+        `[${asset.name}] ${result.status} | ${result.source} | ` +
+        ('demoVersion' in result ? `v${result.demoVersion} | ` : '') +
+        `${result.bodySha256.slice(0, 8)}… | ${result.fetchTimeMs}ms` +
+        (result.appCache ? ` | app cache ${result.appCache}` : '') +
+        (result.transfer.contentEncoding && result.transfer.contentEncoding !== 'identity'
+          ? ` | ${result.transfer.contentEncoding} ${result.transfer.encodedBytes ?? '?'} B`
+          : '') +
+        ('delta' in result && result.delta
+          ? result.delta.outcome === 'applied'
+            ? ` | delta saved ${result.delta.bytesSaved} B`
+            : ` | delta failed: ${result.delta.error}`
+          : '') +
+        (result.retries > 0 ? ` | ${result.retries} retries` : '') +
+        (result.fallback ? ` | STALE: ${result.fallback.reason}` : ''),
       );
-      await refreshServerState();
+      if ('lottieIssues' in result && result.lottieIssues.length > 0) {
+        addLog(
+          `[${asset.name}] Invalid Lottie: ${describeLottieIssue(result.lottieIssues[0])}` +
+          (result.lottieIssues.length > 1 ? ` (+${result.lottieIssues.length - 1} more)` : ''),
+        );
+      }
+      if ('archive' in result && (result.archiveError || result.verified === false)) {
+        addLog(`[${asset.name}] ${result.archiveError ?? describeVerification(result)}`);
+      }
+      await inlineImages(asset, result, controller.signal);
+      const state = await refreshServerState();
+      await recordRun({
+        ...run,
+        durationMs: result.fetchTimeMs,
+        exchange: result.exchange,
+        status: result.status,
+        source: result.source,
+        bodySha256: result.bodySha256,
+        bodyBytes: result.bodyLength,
+        transfer: result.transfer,
+        retries: result.retries,
+        fallback: result.fallback,
+        error: null,
+        serverState: state,
+      });
+      await refreshAppCacheStats();
     } catch (e: unknown) {
+      if (e instanceof RequestCancelledError) {
+        addLog(`[${asset.name}] Cancelled`);
+        return;
+      }
       const msg = e instanceof Error ? e.message : String(e);
-      addLog(`[${format.toUpperCase()}] Error: ${msg}`);
+      addLog(`[${asset.name}] Error: ${msg}`);
+      await recordRun({
+        ...run,
+        durationMs: Date.now() - run.startedAt,
+        exchange: null,
+        status: null,
+        source: null,
+        bodySha256: null,
+        bodyBytes: null,
+        transfer: null,
+        retries: e instanceof RequestFailedError ? e.attempts - 1 : 0,
+        fallback: null,
+        error: msg,
+        serverState: null,
+      });
     } finally {
-      setLoading(false);
+      // A newer fetch owns the loading flag now.
+      if (fetchControllerRef.current === controller) {
+        fetchControllerRef.current = null;
+        setLoading(false);
+      }
     }
-  }, [serverUrl, addLog, refreshServerState]);
+  }, [serverUrl, activeAsset, results, cacheStrategy, staleOnError, deltaUpdates, trackFetch, showResult, confirmShown, inlineImages, addLog, refreshServerState, refreshAppCacheStats, recordRun]);
 
-  const handleFlip = useCallback(async () => {
+  const handleManifestSync = useCallback(async () => {
+    setLoading(true);
     try {
-      const res = await flipVersion(serverUrl);
-      addLog(`Flipped → v${res.version}`);
+      const current = Object.fromEntries(
+        Object.entries(results).map(([name, r]) => [name, r.bodySha256]),
+      );
+      const sync = await syncFromManifest(serverUrl, current, {
+        strategy: cacheStrategy,
+        onSettled: logSettled('manifest'),
+      });
+      setManifestSync(sync);
+      for (const item of sync.items) {
+        addLog(`[MANIFEST] ${item.asset.name} ${describeSyncItem(item)}`);
+        // Only verified bodies reach the previews.
+        if (item.outcome === 'updated' && item.result) {
+          showResult(item.asset, item.result);
+          await inlineImages(item.asset, item.result);
+        }
+      }
+      await refreshAssets();
       await refreshServerState();
+      await refreshAppCacheStats();
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e);
-      addLog(`Flip error: ${msg}`);
+      addLog(`[MANIFEST] Error: ${msg}`);
+    } finally {
+      setLoading(false);
     }
-  }, [serverUrl, addLog, refreshServerState]);
+  }, [serverUrl, cacheStrategy, results, showResult, inlineImages, addLog, refreshAssets, refreshServerState, refreshAppCacheStats, logSettled]);
 
-  const handleSetMode = useCallback(async (mode: 'A' | 'B') => {
+  const handleCompareDelivery = useCallback(async () => {
+    const asset = activeAsset;
+    setLoading(true);
     try {
-      await setMode(serverUrl, mode);
-      addLog(`Mode → ${mode}`);
+      const comparison = await compareDelivery(serverUrl, asset, {strategy: cacheStrategy});
+      setDeliveryComparisons(prev => ({...prev, [asset.name]: comparison}));
+      addLog(`[${asset.name}] Archive: ${describeDelivery(comparison.archive)}`);
+      addLog(`[${asset.name}] Separate: ${describeDelivery(comparison.separate)}`);
       await refreshServerState();
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e);
-      addLog(`Mode error: ${msg}`);
+      addLog(`[${asset.name}] Compare failed: ${msg}`);
+    } finally {
+      setLoading(false);
     }
-  }, [serverUrl, addLog, refreshServerState]);
+  }, [serverUrl, activeAsset, cacheStrategy, addLog, refreshServerState]);
+
+  const selectArchiveAnimation = useCallback((name: string, id: string) => {
+    setPreviews(prev => {
+      const preview = prev[name];
+      return preview?.kind === 'lottie' ? {...prev, [name]: {...preview, activeId: id}} : prev;
+    });
+  }, []);
 
-  const handleSetLastModified = useCallback(async (iso: string) => {
+  const handleFlip = useCallback(() => runControl('Flip', async () => {
+    const res = await flipVersion(serverUrl);
+    await refreshAssets();
+    return `Flipped → v${res.version}`;
+  }), [serverUrl, runControl, refreshAssets]);
+
+  const handleSetVersion = useCallback((version: number) => runControl('Version', async () => {
+    const res = await setVersion(serverUrl, version);
+    await refreshAssets();
+    return `Version → v${res.version}`;
+  }), [serverUrl, runControl, refreshAssets]);
+
+  const handleSchedule = useCallback((steps: RolloutStep[]) => runControl('Rollout', async () => {
+    await setRolloutSchedule(serverUrl, steps);
+    await refreshAssets();
+    return steps.length > 0 ? `Rollout → ${formatRolloutSchedule(steps)}` : 'Rollout cancelled';
+  }), [serverUrl, runControl, refreshAssets]);
+
+  const handleSetMode = useCallback((mode: 'A' | 'B') => runControl('Mode', async () => {
+    await setMode(serverUrl, mode);
+    return `Mode → ${mode}`;
+  }), [serverUrl, runControl]);
+
+  const handleSetPolicy = useCallback((policy: CachePolicy, asset?: AssetKind) => runControl('Policy', async () => {
+    await setPolicy(serverUrl, policy, asset);
+    return `Policy${asset ? ` [${asset.toUpperCase()}]` : ''} → ${describePolicy(policy)}`;
+  }), [serverUrl, runControl]);
+
+  const handleSetValidators = useCallback((options: {validators?: ValidatorStrategy; weak?: boolean}) =>
+    runControl('Validators', async () => {
+      const res = await setValidators(serverUrl, options);
+      return `Validators → ${res.validators}${res.weakETags ? ' (weak ETags)' : ''}`;
+    }), [serverUrl, runControl]);
+
+  const handleSetCompression = useCallback((settings: Partial<CompressionSettings>) =>
+    runControl('Compression', async () => {
+      const res = await setCompression(serverUrl, settings);
+      return `Compression → ${describeCompression(res.compression)}`;
+    }), [serverUrl, runControl]);
+
+  const handleAddFault = useCallback((spec: FaultSpec) => runControl('Fault', async () => {
+    const fault = await addFault(serverUrl, spec);
+    return `Fault #${fault.id} → ${describeFault(fault)}`;
+  }), [serverUrl, runControl]);
+
+  const handleClearFaults = useCallback((id?: number) => runControl('Fault', async () => {
+    await clearFaults(serverUrl, id);
+    return id === undefined ? 'Faults cleared' : `Fault #${id} cleared`;
+  }), [serverUrl, runControl]);
+
+  const handleSetLastModified = useCallback((iso: string) => runControl('Last-Modified', async () => {
+    await setLastModified(serverUrl, iso);
+    return `Last-Modified → ${iso}`;
+  }), [serverUrl, runControl]);
+
+  const handleReset = useCallback(() => runControl('Reset', async () => {
+    await resetServer(serverUrl);
+    setResults({});
+    setPreviews({});
+    setLottieDiffs({});
+    setImageDiffs({});
+    setFreshnessChecks({});
+    setImageReports({});
+    setDeliveryComparisons({});
+    setShownShas({});
+    lastAnimationsRef.current = {};
+    lastImagesRef.current = {};
+    await refreshAssets();
+    return 'Server reset';
+  }), [serverUrl, runControl, refreshAssets]);
+
+  const handleExportRun = useCallback(async (format: 'har' | 'markdown') => {
+    const meta = {serverUrl, platform: Platform.OS, exportedAt: Date.now()};
+    const message =
+      format === 'har'
+        ? JSON.stringify(toHar(runLog, meta), null, 2)
+        : toMarkdown(runLog, meta);
     try {
-      await setLastModified(serverUrl, iso);
-      addLog(`Last-Modified → ${iso}`);
-      await refreshServerState();
+      await Share.share({
+        title: format === 'har' ? 'cache-demo-run.har' : 'cache-demo-run.md',
+        message,
+      });
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e);
-      addLog(`Last-Modified error: ${msg}`);
+      addLog(`Export error: ${msg}`);
     }
-  }, [serverUrl, addLog, refreshServerState]);
+  }, [serverUrl, runLog, addLog]);
 
-  const handleReset = useCallback(async () => {
+  const handleClearRunLog = useCallback(async () => {
+    await clearRunLog();
+    setRunLog([]);
+    addLog('Run log cleared');
+  }, [addLog]);
+
+  const handleRunScenario = useCallback(async (scenario: Scenario) => {
+    setScenarioRunning(scenario.name);
+    setScenarioReport(null);
+    setScenarioSteps([]);
+    addLog(`[SCENARIO] ${scenario.name} started`);
     try {
-      await resetServer(serverUrl);
-      setAnimationJson(null);
-      setJsonResult(null);
-      setPngBase64(null);
-      setPngResult(null);
-      setSvgXml(null);
-      setSvgResult(null);
-      addLog('Server reset');
+      const report = await runScenario(serverUrl, scenario, {
+        onStep: step => setScenarioSteps(prev => [...prev, step]),
+        onSettled: logSettled('scenario'),
+      });
+      setScenarioReport(report);
+      const passed = report.steps.filter(s => s.passed).length;
+      addLog(
+        `[SCENARIO] ${scenario.name}: ${report.passed ? 'PASS' : 'FAIL'} ` +
+        `(${passed}/${scenario.steps.length} steps)`,
+      );
       await refreshServerState();
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e);
-      addLog(`Reset error: ${msg}`);
+      addLog(`[SCENARIO] Error: ${msg}`);
+    } finally {
+      setScenarioRunning(null);
     }
-  }, [serverUrl, addLog, refreshServerState]);
+  }, [serverUrl, addLog, refreshServerState, logSettled]);
 
-  const handleFetch = useCallback((noCache = false) => {
-    if (activeTab === 'json') {
-      handleFetchJson(noCache);
-    } else {
-      handleFetchImage(activeTab, noCache);
+  const handleRunCustomScenario = useCallback(() => {
+    try {
+      handleRunScenario(parseScenario(customScenario));
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      addLog(`[SCENARIO] ${msg}`);
     }
-  }, [activeTab, handleFetchJson, handleFetchImage]);
-
-  const getCurrentResult = () => {
-    if (activeTab === 'json') return jsonResult;
-    if (activeTab === 'png') return pngResult;
-    return svgResult;
-  };
+  }, [customScenario, handleRunScenario, addLog]);
 
   const renderPreview = () => {
-    if (activeTab === 'json') {
-      if (animationJson) {
+    const preview = previews[activeAsset.name];
+    if (!preview) {
+      const what =
+        activeAsset.kind === 'json' ? 'animation' : activeAsset.kind === 'lottie' ? 'archive' : activeAsset.kind.toUpperCase();
+      return <Text style={styles.placeholderText}>No {what} loaded</Text>;
+    }
+    switch (preview.kind) {
+      case 'json':
         return (
           <LottieView
-            source={animationJson}
+            source={preview.animation}
             autoPlay
             loop
             style={styles.lottie}
           />
         );
-      }
-      return <Text style={styles.placeholderText}>No animation loaded</Text>;
-    }
-
-    if (activeTab === 'png') {
-      if (pngBase64) {
+      case 'png':
         return (
           <Image
-            source={{uri: `data:image/png;base64,${pngBase64}`}}
+            source={{uri: `data:image/png;base64,${preview.base64}`}}
             style={styles.image}
             resizeMode="contain"
           />
         );
+      case 'svg':
+        return <SvgXml xml={preview.xml} width={180} height={180} />;
+      case 'lottie': {
+        const active = preview.animations.find(a => a.id === preview.activeId);
+        if (!active) {
+          return <Text style={styles.placeholderText}>No playable animation in archive</Text>;
+        }
+        return (
+          <LottieView
+            key={active.id}
+            source={active.animation}
+            autoPlay
+            loop
+            style={styles.lottie}
+          />
+        );
       }
-      return <Text style={styles.placeholderText}>No PNG loaded</Text>;
-    }
-
-    if (activeTab === 'svg') {
-      if (svgXml) {
-        return <SvgXml xml={svgXml} width={180} height={180} />;
-      }
-      return <Text style={styles.placeholderText}>No SVG loaded</Text>;
     }
-
-    return null;
   };
 
-  const result = getCurrentResult();
+  const result = results[activeAsset.name];
+  const lottieDiff = lottieDiffs[activeAsset.name];
+  const imageDiff = imageDiffs[activeAsset.name];
+  const imageReport = imageReports[activeAsset.name];
+  const deliveryComparison = deliveryComparisons[activeAsset.name];
+  const activePreview = previews[activeAsset.name];
+  const runFetchCount = runLog.filter(e => e.kind === 'fetch').length;
 
   return (
     <SafeAreaView style={styles.container}>
@@ -231,37 +1349,136 @@ function App(): React.JSX.Element {
       <ScrollView contentContainerStyle={styles.scroll}>
         <Text style={styles.title}>Cache Demo</Text>
 
-        {/* Server URL Input */}
+        {/* Server */}
         <View style={styles.section}>
-          <Text style={styles.label}>Server URL</Text>
-          <TextInput
-            style={styles.input}
-            value={serverUrl}
-            onChangeText={setServerUrl}
-            autoCapitalize="none"
-            autoCorrect={false}
-            placeholder="http://192.168.50.7:3000"
-            placeholderTextColor="#666"
+          <Text style={styles.sectionTitle}>Server</Text>
+          <InfoRow label="Using" value={hostUrl} mono />
+          <View style={styles.chipRow}>
+            {profiles.map(profile => (
+              <Chip
+                key={profile.id}
+                title={profile.name}
+                active={profile.id === activeProfileId}
+                onPress={() => handleSelectProfile(profile)}
+              />
+            ))}
+          </View>
+          {profiles.map(profile => {
+            const check = reachability[profile.baseUrl];
+            return (
+              <View key={profile.id} style={styles.fieldRow}>
+                <Text style={[styles.stepDetail, styles.fieldInput]}>
+                  {profile.baseUrl}
+                  {checkingUrl === profile.baseUrl
+                    ? ' · checking…'
+                    : check
+                      ? ` · ${describeReachability(check)}`
+                      : ''}
+                  {profile.notes ? `\n${profile.notes}` : ''}
+                </Text>
+                <Chip
+                  title="Edit"
+                  active={editingProfile?.id === profile.id}
+                  onPress={() => setEditingProfile(profile)}
+                />
+              </View>
+            );
+          })}
+          <ProfileEditor
+            key={editingProfile?.id ?? 'new'}
+            profile={editingProfile}
+            checking={checkingUrl !== null}
+            onSave={handleSaveProfile}
+            onCheck={async baseUrl => {
+              const check = await probeServer(baseUrl);
+              return describeReachability(check);
+            }}
+            onDelete={handleDeleteProfile}
+            onNew={() => setEditingProfile(null)}
           />
         </View>
 
         {/* Tabs */}
         <View style={styles.tabContainer}>
-          <Tab title="JSON" active={activeTab === 'json'} onPress={() => setActiveTab('json')} />
-          <Tab title="PNG" active={activeTab === 'png'} onPress={() => setActiveTab('png')} />
-          <Tab title="SVG" active={activeTab === 'svg'} onPress={() => setActiveTab('svg')} />
+          {assets.map(asset => (
+            <Tab
+              key={asset.name}
+              title={tabTitle(asset)}
+              active={asset.name === activeAsset.name}
+              onPress={() => setActiveTab(asset.name)}
+            />
+          ))}
         </View>
 
         {/* Preview */}
         <View style={styles.previewContainer}>
           {renderPreview()}
+          {backgroundRefresh && previews[activeAsset.name] && (
+            <View
+              style={[
+                styles.badge,
+                styles.previewBadge,
+                {backgroundColor: FRESHNESS_COLORS[revalidation.freshness]},
+              ]}>
+              <Text style={styles.badgeText}>{describeRevalidation(revalidation)}</Text>
+            </View>
+          )}
         </View>
 
         {/* Fetch Buttons */}
         <View style={styles.section}>
+          <View style={styles.chipRow}>
+            <Chip title="Native HTTP cache" active={cacheStrategy === 'native'} onPress={() => setCacheStrategy('native')} />
+            <Chip title="App cache" active={cacheStrategy === 'app'} onPress={() => setCacheStrategy('app')} />
+            <Chip title="Stale on error" active={staleOnError} onPress={() => setStaleOnError(v => !v)} />
+            <Chip title="Delta updates" active={deltaUpdates} onPress={() => setDeltaUpdates(v => !v)} />
+          </View>
+          <View style={styles.chipRow}>
+            <Chip title="Background refresh" active={backgroundRefresh} onPress={() => setBackgroundRefresh(v => !v)} />
+            {backgroundRefresh &&
+              REFRESH_INTERVALS.map(({ms, title}) => (
+                <Chip key={title} title={title} active={refreshIntervalMs === ms} onPress={() => setRefreshIntervalMs(ms)} />
+              ))}
+          </View>
+          {backgroundRefresh && (
+            <Text style={styles.stepDetail}>
+              {revalidation.checks} checks · {revalidation.swaps} swapped in
+              {revalidation.lastTrigger ? ` · last on ${revalidation.lastTrigger}` : ''}
+            </Text>
+          )}
           <View style={styles.buttonRow}>
-            <Btn title="Fetch" color="#2196F3" loading={loading} onPress={() => handleFetch(false)} />
-            <Btn title="Force Fetch" color="#00BCD4" onPress={() => handleFetch(true)} />
+            <Btn title="Fetch" color="#2196F3" loading={loading} onPress={() => handleFetch()} />
+            {cacheStrategy === 'app' && (
+              <Btn title="Force Fetch" color="#00BCD4" onPress={() => handleFetch('default', true)} />
+            )}
+          </View>
+          {cacheStrategy === 'native' && (
+            <View style={styles.buttonRow}>
+              {CACHE_MODE_BUTTONS.map(({mode, title, color}) => (
+                <Btn key={mode} title={title} color={color} onPress={() => handleFetch(mode)} />
+              ))}
+            </View>
+          )}
+        </View>
+
+        {/* Manifest */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Manifest</Text>
+          {manifestSync && (
+            <>
+              <InfoRow label="Manifest Version" value={`v${manifestSync.manifest.version}`} />
+              {manifestSync.items.map(item => (
+                <InfoRow
+                  key={item.asset.name}
+                  label={item.asset.name}
+                  value={describeSyncItem(item)}
+                  highlight={item.outcome === 'mismatch' || item.outcome === 'error'}
+                />
+              ))}
+            </>
+          )}
+          <View style={styles.buttonRow}>
+            <Btn title="Sync via Manifest" color="#009688" loading={loading} onPress={handleManifestSync} />
           </View>
         </View>
 
@@ -278,39 +1495,524 @@ function App(): React.JSX.Element {
             <Btn title="LM: Now" color="#607D8B" onPress={() => handleSetLastModified(new Date().toISOString())} />
             <Btn title="Reset" color="#f44336" onPress={handleReset} />
           </View>
+          <Text style={styles.label}>Validators</Text>
+          <View style={styles.chipRow}>
+            {VALIDATOR_OPTIONS.map(({value, title}) => (
+              <Chip
+                key={value}
+                title={title}
+                active={serverState?.validators === value}
+                onPress={() => handleSetValidators({validators: value})}
+              />
+            ))}
+            <Chip
+              title="Weak ETag"
+              active={serverState?.weakETags === true}
+              onPress={() => handleSetValidators({weak: !serverState?.weakETags})}
+            />
+          </View>
+          <Text style={styles.label}>Compression</Text>
+          <View style={styles.chipRow}>
+            {COMPRESSION_OPTIONS.map(({encodings, title}) => (
+              <Chip
+                key={title}
+                title={title}
+                active={serverState?.compression?.encodings.join() === encodings.join()}
+                onPress={() => handleSetCompression({encodings})}
+              />
+            ))}
+          </View>
+          <View style={styles.chipRow}>
+            {ETAG_VARIANT_OPTIONS.map(({value, title}) => (
+              <Chip
+                key={value}
+                title={title}
+                active={serverState?.compression?.etags === value}
+                onPress={() => handleSetCompression({etags: value})}
+              />
+            ))}
+          </View>
+        </View>
+
+        {/* Versions */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Versions</Text>
+          <RolloutEditor
+            versions={serverState?.versions ?? [1, 2]}
+            active={serverState?.version ?? null}
+            onSetVersion={handleSetVersion}
+            onSchedule={handleSchedule}
+          />
+          {serverState?.schedule && serverState.schedule.length > 0 && (
+            <>
+              <Text style={styles.label}>Upcoming</Text>
+              {serverState.schedule.map(step => (
+                <InfoRow
+                  key={step.at}
+                  label={describeScheduledVersion(step)}
+                  value={formatISTTime(new Date(step.at))}
+                />
+              ))}
+              <View style={styles.buttonRow}>
+                <Btn title="Cancel Rollout" color="#f44336" onPress={() => handleSchedule([])} />
+              </View>
+            </>
+          )}
+        </View>
+
+        {/* Faults */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Faults</Text>
+          <FaultEditor assets={assets} onInject={handleAddFault} />
+          {serverState?.faults && serverState.faults.length > 0 && (
+            <>
+              <Text style={styles.label}>Active</Text>
+              {serverState.faults.map(fault => (
+                <View key={fault.id} style={styles.fieldRow}>
+                  <Text style={styles.infoLabel}>
+                    #{fault.id} {describeFault(fault)} — fired {fault.triggered}×
+                  </Text>
+                  <Chip title="Clear" onPress={() => handleClearFaults(fault.id)} />
+                </View>
+              ))}
+              <View style={styles.buttonRow}>
+                <Btn title="Clear All Faults" color="#f44336" onPress={() => handleClearFaults()} />
+              </View>
+            </>
+          )}
+        </View>
+
+        {/* Cache Policy */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Cache Policy</Text>
+          <PolicyEditor onApply={handleSetPolicy} />
+        </View>
+
+        {/* Lottie */}
+        {result && 'json' in result && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Lottie</Text>
+            {result.animation ? (
+              <LottieSummary metadata={lottieMetadata(result.animation)} />
+            ) : (
+              result.lottieIssues.map((issue, i) => (
+                <Text key={i} style={[styles.stepDetail, styles.stepFailed]}>
+                  {describeLottieIssue(issue)}
+                </Text>
+              ))
+            )}
+            {imageReport && (
+              <>
+                <Text style={styles.scenarioTitle}>
+                  Images: {describeImageReport(imageReport)}
+                </Text>
+                {imageReport.images.map(image => (
+                  <Text
+                    key={image.id}
+                    style={[styles.stepDetail, image.error !== null && styles.stepFailed]}>
+                    {describeImageLoad(image)}
+                  </Text>
+                ))}
+              </>
+            )}
+            {lottieDiff && (
+              <>
+                <Text style={styles.scenarioTitle}>
+                  Changes v{lottieDiff.from ?? '?'} → v{lottieDiff.to ?? '?'}
+                </Text>
+                {lottieDiff.changes.length === 0 && (
+                  <Text style={styles.stepDetail}>No structural changes</Text>
+                )}
+                {lottieDiff.changes.map((change, i) => (
+                  <Text key={i} style={styles.stepDetail}>
+                    {describeLottieChange(change)}
+                  </Text>
+                ))}
+              </>
+            )}
+          </View>
+        )}
+
+        {/* dotLottie */}
+        {result && 'archive' in result && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>dotLottie</Text>
+            <InfoRow label="Hash" value={describeVerification(result)} highlight={result.verified === false} />
+            {result.archiveError && (
+              <Text style={[styles.stepDetail, styles.stepFailed]}>{result.archiveError}</Text>
+            )}
+            {result.archive && (
+              <>
+                <InfoRow
+                  label="Manifest"
+                  value={`v${result.archive.manifest.version ?? '?'} · ${result.archive.manifest.generator ?? 'unknown generator'}`}
+                />
+                <InfoRow
+                  label="Unzip / Parse"
+                  value={`${result.archive.unzipMs} ms / ${result.archive.parseMs} ms`}
+                />
+                <View style={styles.chipRow}>
+                  {result.archive.animations.map(({id, animation}) => (
+                    <Chip
+                      key={id}
+                      title={animation ? id : `${id} (invalid)`}
+                      active={activePreview?.kind === 'lottie' && activePreview.activeId === id}
+                      onPress={() => animation && selectArchiveAnimation(activeAsset.name, id)}
+                    />
+                  ))}
+                </View>
+                {result.archive.animations.flatMap(({id, issues}) =>
+                  issues.map((issue, i) => (
+                    <Text key={`${id}-${i}`} style={[styles.stepDetail, styles.stepFailed]}>
+                      {id}: {describeLottieIssue(issue)}
+                    </Text>
+                  )),
+                )}
+                {result.archive.files.map(file => (
+                  <Text key={file.path} style={styles.stepDetail}>
+                    {file.path} · {file.bytes} B
+                  </Text>
+                ))}
+              </>
+            )}
+            {deliveryComparison && (
+              <>
+                <Text style={styles.scenarioTitle}>Archive vs separate files</Text>
+                <InfoRow label="Archive" value={describeDelivery(deliveryComparison.archive)} />
+                <InfoRow label="Separate" value={describeDelivery(deliveryComparison.separate)} />
+                {deliveryComparison.missing.length > 0 && (
+                  <Text style={styles.stepDetail}>
+                    No separate JSON for: {deliveryComparison.missing.join(', ')}
+                  </Text>
+                )}
+              </>
+            )}
+            <View style={styles.buttonRow}>
+              <Btn title="Compare with Separate Files" color="#673AB7" loading={loading} onPress={handleCompareDelivery} />
+            </View>
+          </View>
+        )}
+
+        {/* Response Info */}
+        {result && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Last {tabTitle(activeAsset)} Response</Text>
+            <InfoRow label="Status" value={String(result.status)} />
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Source</Text>
+              <SourceBadge source={result.source} />
+            </View>
+            {'demoVersion' in result && (
+              <InfoRow label="demoVersion" value={String(result.demoVersion ?? '—')} />
+            )}
+            <InfoRow label="ETag" value={result.etag ?? '—'} />
+            <InfoRow label="Last-Modified" value={result.lastModified ? formatIST(result.lastModified) : '—'} />
+            <InfoRow label="Cache-Control" value={result.cacheControl ?? '(none)'} />
+            {result.expires && <InfoRow label="Expires" value={formatIST(result.expires)} />}
+            {result.vary && <InfoRow label="Vary" value={result.vary} />}
+            {result.appCache && <InfoRow label="App Cache" value={result.appCache} highlight />}
+            {result.validation && (
+              <>
+                <InfoRow label="Client Sent" value={describeSentValidators(result.validation)} mono />
+                <InfoRow label="Server Matched" value={result.validation.matched} highlight />
+              </>
+            )}
+            <InfoRow label="Body SHA-256" value={result.bodySha256 || '—'} mono />
+            {imageDiff && <ImageDiffPanel diff={imageDiff} />}
+            <InfoRow label="Body Length" value={`${result.bodyLength} bytes`} />
+            <InfoRow label="Transfer" value={describeTransfer(result.transfer)} />
+            {'delta' in result && result.delta && (
+              <InfoRow label="Delta" value={describeDelta(result.delta)} highlight />
+            )}
+            <InfoRow label="Fetch Time" value={`${result.fetchTimeMs} ms`} />
+            <InfoRow label="Retries" value={String(result.retries)} highlight={result.retries > 0} />
+            <FreshnessPanel result={result} check={freshnessChecks[activeAsset.name] ?? null} />
+            {result.fallback && (
+              <InfoRow
+                label="Fallback"
+                value={`${result.fallback.reason} → body from ${formatISTTime(new Date(result.fallback.fetchedAt))}`}
+                highlight
+              />
+            )}
+          </View>
+        )}
+
+        {/* Assets */}
+        {assetList && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Assets</Text>
+            {assetList.map(asset => (
+              <InfoRow
+                key={asset.name}
+                label={asset.path}
+                value={
+                  `v${asset.version} of ${asset.versions.map(v => `v${v.version}`).join(', ')}` +
+                  ` | ${asset.versions.find(v => v.version === asset.version)?.bytes ?? '?'} B`
+                }
+                mono
+              />
+            ))}
+            <View style={styles.buttonRow}>
+              <Btn title="Reload Assets" color="#3F51B5" onPress={refreshAssets} />
+            </View>
+          </View>
+        )}
+
+        {/* Server State */}
+        {serverState && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Server State</Text>
+            {serverState.session && (
+              <InfoRow label="Session" value={describeSession(serverState.session)} mono />
+            )}
+            <InfoRow label="Mode" value={serverState.mode} />
+            <InfoRow label="Version" value={`v${serverState.version}`} />
+            {serverState.assetCounts ? (
+              assets.map(asset => (
+                <InfoRow
+                  key={asset.name}
+                  label={`${asset.name} Requests`}
+                  value={String(serverState.assetCounts[asset.name] ?? 0)}
+                  highlight
+                />
+              ))
+            ) : (
+              <>
+                <InfoRow label="JSON Requests" value={String(serverState.jsonCount ?? serverState.requestCount)} highlight />
+                <InfoRow label="PNG Requests" value={String(serverState.pngCount ?? 0)} highlight />
+                <InfoRow label="SVG Requests" value={String(serverState.svgCount ?? 0)} highlight />
+              </>
+            )}
+            {serverState.policies ? (
+              (['json', 'png', 'svg', 'lottie'] as AssetKind[]).filter(asset => serverState.policies[asset]).map(asset => (
+                <InfoRow
+                  key={asset}
+                  label={`${asset.toUpperCase()} Policy`}
+                  value={describePolicy(serverState.policies[asset])}
+                />
+              ))
+            ) : (
+              <InfoRow label="Cache-Control" value={serverState.cacheControl ?? '(none)'} />
+            )}
+            <InfoRow
+              label="Validators"
+              value={`${serverState.validators ?? 'both'}${serverState.weakETags ? ' (weak)' : ''}`}
+            />
+            {serverState.compression && (
+              <InfoRow label="Compression" value={describeCompression(serverState.compression)} />
+            )}
+            <InfoRow label="Server ETag" value={serverState.etag} mono />
+            <InfoRow label="Last-Modified" value={formatIST(serverState.lastModified)} />
+            <View style={styles.buttonRow}>
+              <Btn title="New Session" color="#607D8B" onPress={handleNewSession} />
+            </View>
+          </View>
+        )}
+
+        {/* Cache Inspector */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Cache Inspector</Text>
+          <View style={styles.buttonRow}>
+            <Btn title="Inspect Native Cache" color="#009688" onPress={handleInspectNativeCache} />
+          </View>
+          <Text style={styles.label}>Cache Size</Text>
+          <View style={styles.chipRow}>
+            {CACHE_SIZES.map(({bytes, title}) => (
+              <Chip key={bytes} title={title} active={cacheSize === bytes} onPress={() => setCacheSize(bytes)} />
+            ))}
+          </View>
+          <View style={styles.fieldRow}>
+            <Text style={styles.infoLabel}>Directory</Text>
+            <TextInput
+              style={[styles.input, styles.fieldInput]}
+              value={cacheDirectory}
+              onChangeText={setCacheDirectory}
+              autoCapitalize="none"
+              autoCorrect={false}
+              placeholder="default"
+              placeholderTextColor="#666"
+            />
+          </View>
+          <View style={styles.buttonRow}>
+            <Btn title="Apply Cache Config" color="#3F51B5" onPress={handleConfigureCache} />
+          </View>
+          {nativeCacheConfig?.appliesOnRestart && (
+            <Text style={styles.stepDetail}>
+              Saved; fetch() moves to the new cache after a restart. The cache-mode buttons use it now.
+            </Text>
+          )}
+          {nativeCacheInfo && (
+            <>
+              <InfoRow label="Directory" value={nativeCacheInfo.directory} mono />
+              <InfoRow
+                label="Size"
+                value={`${nativeCacheInfo.size} / ${nativeCacheInfo.maxSize ?? '?'} bytes`}
+              />
+              <InfoRow
+                label="Hits / Network / Requests"
+                value={[
+                  nativeCacheInfo.hitCount,
+                  nativeCacheInfo.networkCount,
+                  nativeCacheInfo.requestCount,
+                ].map(n => n ?? 'n/a').join(' / ')}
+                highlight
+              />
+              {nativeEntries.length === 0 && (
+                <Text style={styles.logText}>No cached responses</Text>
+              )}
+              {nativeEntries.map(entry => (
+                <View key={entry.url} style={styles.stepRow}>
+                  <View style={styles.fieldRow}>
+                    <Text style={[styles.infoLabel, styles.mono]} numberOfLines={1}>
+                      {entry.url.replace(serverUrl, '')} → {entry.status}
+                    </Text>
+                    <Chip title="Evict" onPress={() => handleEvictNative(entry.url)} />
+                  </View>
+                  <Text style={styles.stepDetail}>
+                    age {entry.ageSeconds !== null ? `${Math.round(entry.ageSeconds)}s` : '?'} |{' '}
+                    {entry.bodySize ?? '?'} B
+                  </Text>
+                  {['etag', 'last-modified', 'cache-control', 'expires'].map(name =>
+                    entry.headers[name] ? (
+                      <Text key={name} style={styles.stepDetail} numberOfLines={1}>
+                        {name}: {entry.headers[name]}
+                      </Text>
+                    ) : null,
+                  )}
+                </View>
+              ))}
+            </>
+          )}
+        </View>
+
+        {/* App Cache */}
+        {appCacheStats && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>App Cache</Text>
+            <InfoRow
+              label="Entries"
+              value={`${appCacheStats.entries.length} / ${appCacheStats.maxEntries}`}
+            />
+            <InfoRow
+              label="Size"
+              value={`${appCacheStats.totalBytes} / ${appCacheStats.maxBytes} bytes`}
+            />
+            {appCacheStats.entries.map(entry => (
+              <InfoRow
+                key={entry.url}
+                label={entry.url.replace(serverUrl, '')}
+                value={`${entry.size} B | ${entry.etag ? entry.etag.slice(0, 12) + '…' : 'no ETag'} | ${formatISTTime(new Date(entry.fetchedAt))}`}
+                mono
+              />
+            ))}
+            <View style={styles.buttonRow}>
+              <Btn title="Refresh" color="#3F51B5" onPress={refreshAppCacheStats} />
+              <Btn title="Clear App Cache" color="#f44336" onPress={handleClearAppCache} />
+            </View>
+          </View>
+        )}
+
+        {/* Timeline */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Timeline</Text>
+          <View style={styles.chipRow}>
+            <Chip
+              title={journalLive ? (journalConnected ? '● Live' : '○ Connecting…') : 'Live'}
+              active={journalLive}
+              onPress={() => setJournalLive(v => !v)}
+            />
+            <Chip title="Load Journal" onPress={handleLoadJournal} />
+            <Chip
+              title="Clear"
+              onPress={() => {
+                setJournal([]);
+                setClientFetches([]);
+              }}
+            />
+          </View>
+          {clientFetches.length === 0 && journal.length === 0 ? (
+            <Text style={styles.logText}>No fetches or server requests yet</Text>
+          ) : (
+            buildTimeline(clientFetches, journal).slice(0, 30).map(row => (
+              <TimelineItem
+                key={row.kind === 'fetch' ? `f${row.fetch.id}` : `s${row.entry.id}`}
+                row={row}
+              />
+            ))
+          )}
+        </View>
+
+        {/* Scenarios */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Scenarios</Text>
+          {BUILTIN_SCENARIOS.map(scenario => (
+            <View key={scenario.name} style={styles.buttonRow}>
+              <Btn
+                title={scenario.name}
+                color="#3F51B5"
+                loading={scenarioRunning !== null}
+                onPress={() => handleRunScenario(scenario)}
+              />
+            </View>
+          ))}
+          <TextInput
+            style={[styles.input, styles.scenarioInput]}
+            value={customScenario}
+            onChangeText={setCustomScenario}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+            placeholder='[{"action":"reset"},{"action":"fetch","asset":"json","expect":[{"type":"status","equals":200}]}]'
+            placeholderTextColor="#666"
+          />
+          <View style={styles.buttonRow}>
+            <Btn
+              title="Run Custom"
+              color="#3F51B5"
+              loading={scenarioRunning !== null}
+              onPress={handleRunCustomScenario}
+            />
+          </View>
+          {(scenarioRunning || scenarioReport) && (
+            <Text style={styles.scenarioTitle}>
+              {scenarioRunning
+                ? `Running: ${scenarioRunning}…`
+                : `${scenarioReport?.passed ? '✓ PASS' : '✗ FAIL'} — ${scenarioReport?.name} (${scenarioReport?.durationMs} ms)`}
+            </Text>
+          )}
+          {scenarioSteps.map(step => (
+            <StepRow key={step.index} step={step} />
+          ))}
+        </View>
+
+        {/* Benchmark */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Benchmark</Text>
+          <BenchmarkPanel
+            serverUrl={serverUrl}
+            assets={assets}
+            strategy={cacheStrategy}
+            onLog={addLog}
+            onFetch={logSettled('benchmark')}
+            onFinished={refreshServerState}
+          />
         </View>
 
-        {/* Response Info */}
-        {result && (
-          <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Last {activeTab.toUpperCase()} Response</Text>
-            <InfoRow label="Status" value={String(result.status)} />
-            {'demoVersion' in result && (
-              <InfoRow label="demoVersion" value={String(result.demoVersion ?? '—')} />
-            )}
-            <InfoRow label="ETag" value={result.etag ?? '—'} />
-            <InfoRow label="Last-Modified" value={result.lastModified ? formatIST(result.lastModified) : '—'} />
-            <InfoRow label="Cache-Control" value={result.cacheControl ?? '(none)'} />
-            <InfoRow label="Body SHA-256" value={result.bodySha256 || '—'} mono />
-            <InfoRow label="Body Length" value={`${result.bodyLength} bytes`} />
-            <InfoRow label="Fetch Time" value={`${result.fetchTimeMs} ms`} />
+        {/* Run Log */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Run Log</Text>
+          <InfoRow label="Recorded" value={`${runFetchCount} fetches, ${runLog.length - runFetchCount} actions`} />
+          {runLog.length > 0 && (
+            <InfoRow label="Since" value={formatIST(new Date(runLog[0].startedAt))} />
+          )}
+          <View style={styles.buttonRow}>
+            <Btn title="Share HAR" color="#3F51B5" onPress={() => handleExportRun('har')} />
+            <Btn title="Share Markdown" color="#3F51B5" onPress={() => handleExportRun('markdown')} />
           </View>
-        )}
-
-        {/* Server State */}
-        {serverState && (
-          <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Server State</Text>
-            <InfoRow label="Mode" value={serverState.mode} />
-            <InfoRow label="Version" value={`v${serverState.version}`} />
-            <InfoRow label="JSON Requests" value={String(serverState.jsonCount ?? serverState.requestCount)} highlight />
-            <InfoRow label="PNG Requests" value={String(serverState.pngCount ?? 0)} highlight />
-            <InfoRow label="SVG Requests" value={String(serverState.svgCount ?? 0)} highlight />
-            <InfoRow label="Cache-Control" value={serverState.cacheControl ?? '(none)'} />
-            <InfoRow label="Server ETag" value={serverState.etag} mono />
-            <InfoRow label="Last-Modified" value={formatIST(serverState.lastModified)} />
+          <View style={styles.buttonRow}>
+            <Btn title="Clear Run Log" color="#607D8B" onPress={handleClearRunLog} />
           </View>
-        )}
+        </View>
 
         {/* Log */}
         <View style={styles.section}>
@@ -369,6 +2071,727 @@ function Btn({
   );
 }
 
+type PolicyTarget = AssetKind | 'all';
+
+function PolicyEditor({
+  onApply,
+}: {
+  onApply: (policy: CachePolicy, asset?: AssetKind) => void;
+}) {
+  const [target, setTarget] = useState<PolicyTarget>('all');
+  const [policy, setPolicyDraft] = useState<CachePolicy>({});
+  // Numeric fields are edited as text so "-" and "" can be typed mid-edit.
+  const [numbers, setNumbers] = useState<Record<string, string>>({});
+
+  const loadPreset = (preset: CachePolicy) => {
+    setPolicyDraft(preset);
+    const text: Record<string, string> = {};
+    for (const {key} of SECONDS_DIRECTIVES) {
+      text[key] = preset[key] !== undefined ? String(preset[key]) : '';
+    }
+    text.expires = preset.expires !== undefined ? String(preset.expires) : '';
+    setNumbers(text);
+  };
+
+  const setNumber = (key: 'expires' | (typeof SECONDS_DIRECTIVES)[number]['key'], text: string) => {
+    setNumbers(prev => ({...prev, [key]: text}));
+    const value = parseInt(text, 10);
+    setPolicyDraft(prev => {
+      const next = {...prev};
+      if (isNaN(value) || (key !== 'expires' && value < 0)) {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+      return next;
+    });
+  };
+
+  const toggle = (key: (typeof BOOLEAN_DIRECTIVES)[number]['key']) => {
+    setPolicyDraft(prev => {
+      const next = {...prev};
+      if (next[key]) {
+        delete next[key];
+      } else {
+        next[key] = true;
+        // public and private are mutually exclusive
+        if (key === 'public') delete next.private;
+        if (key === 'private') delete next.public;
+      }
+      return next;
+    });
+  };
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {(['all', 'json', 'png', 'svg', 'lottie'] as PolicyTarget[]).map(t => (
+          <Chip key={t} title={t.toUpperCase()} active={target === t} onPress={() => setTarget(t)} />
+        ))}
+      </View>
+      <Text style={styles.label}>Presets</Text>
+      <View style={styles.chipRow}>
+        {POLICY_PRESETS.map(preset => (
+          <Chip key={preset.name} title={preset.name} onPress={() => loadPreset(preset.policy)} />
+        ))}
+      </View>
+      <Text style={styles.label}>Directives</Text>
+      <View style={styles.chipRow}>
+        {BOOLEAN_DIRECTIVES.map(({key, name}) => (
+          <Chip key={key} title={name} active={!!policy[key]} onPress={() => toggle(key)} />
+        ))}
+      </View>
+      {SECONDS_DIRECTIVES.map(({key, name}) => (
+        <View key={key} style={styles.fieldRow}>
+          <Text style={styles.infoLabel}>{name}</Text>
+          <TextInput
+            style={[styles.input, styles.fieldInput]}
+            value={numbers[key] ?? ''}
+            onChangeText={text => setNumber(key, text)}
+            keyboardType="number-pad"
+            placeholder="—"
+            placeholderTextColor="#666"
+          />
+        </View>
+      ))}
+      <View style={styles.fieldRow}>
+        <Text style={styles.infoLabel}>Expires (s from now)</Text>
+        <TextInput
+          style={[styles.input, styles.fieldInput]}
+          value={numbers.expires ?? ''}
+          onChangeText={text => setNumber('expires', text)}
+          keyboardType="numbers-and-punctuation"
+          placeholder="—"
+          placeholderTextColor="#666"
+        />
+      </View>
+      <View style={styles.fieldRow}>
+        <Text style={styles.infoLabel}>Vary</Text>
+        <TextInput
+          style={[styles.input, styles.fieldInput]}
+          value={policy.vary ?? ''}
+          onChangeText={text =>
+            setPolicyDraft(prev => {
+              const next = {...prev};
+              if (text) {
+                next.vary = text;
+              } else {
+                delete next.vary;
+              }
+              return next;
+            })
+          }
+          autoCapitalize="none"
+          autoCorrect={false}
+          placeholder="Accept-Encoding"
+          placeholderTextColor="#666"
+        />
+      </View>
+      <InfoRow label="Cache-Control" value={formatCacheControl(policy) ?? '(none)'} mono />
+      <View style={styles.buttonRow}>
+        <Btn
+          title={`Apply to ${target === 'all' ? 'all assets' : target.toUpperCase()}`}
+          color="#4CAF50"
+          onPress={() => onApply(policy, target === 'all' ? undefined : target)}
+        />
+      </View>
+    </View>
+  );
+}
+
+type ProfileDraft = Omit<ServerProfile, 'id'> & {id?: string};
+
+function ProfileEditor({
+  profile,
+  checking,
+  onSave,
+  onCheck,
+  onDelete,
+  onNew,
+}: {
+  profile: ServerProfile | null;
+  checking: boolean;
+  onSave: (draft: ProfileDraft) => Promise<void>;
+  onCheck: (baseUrl: string) => Promise<string>;
+  onDelete: (profile: ServerProfile) => void;
+  onNew: () => void;
+}) {
+  const [name, setName] = useState(profile?.name ?? '');
+  const [baseUrl, setBaseUrl] = useState(profile?.baseUrl ?? '');
+  const [notes, setNotes] = useState(profile?.notes ?? '');
+  const [message, setMessage] = useState<{text: string; error: boolean} | null>(null);
+
+  // Validate as the user types, but don't nag about an empty field.
+  let urlError: string | null = null;
+  if (baseUrl.trim()) {
+    try {
+      normalizeServerUrl(baseUrl);
+    } catch (e: unknown) {
+      urlError = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  const save = async () => {
+    try {
+      await onSave({id: profile?.id, name, baseUrl, notes});
+      setMessage({text: 'Saved', error: false});
+    } catch (e: unknown) {
+      setMessage({text: e instanceof Error ? e.message : String(e), error: true});
+    }
+  };
+
+  const check = async () => {
+    try {
+      setMessage({text: await onCheck(normalizeServerUrl(baseUrl)), error: false});
+    } catch (e: unknown) {
+      setMessage({text: e instanceof Error ? e.message : String(e), error: true});
+    }
+  };
+
+  return (
+    <View>
+      <Text style={styles.label}>{profile ? `Edit ${profile.name}` : 'New profile'}</Text>
+      <View style={styles.fieldRow}>
+        <Text style={styles.infoLabel}>Name</Text>
+        <TextInput
+          style={[styles.input, styles.fieldInput]}
+          value={name}
+          onChangeText={setName}
+          placeholder="Alex's laptop"
+          placeholderTextColor="#666"
+        />
+      </View>
+      <View style={styles.fieldRow}>
+        <Text style={styles.infoLabel}>URL</Text>
+        <TextInput
+          style={[styles.input, styles.fieldInput]}
+          value={baseUrl}
+          onChangeText={setBaseUrl}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          placeholder="http://192.168.1.20:3000"
+          placeholderTextColor="#666"
+        />
+      </View>
+      <View style={styles.fieldRow}>
+        <Text style={styles.infoLabel}>Notes</Text>
+        <TextInput
+          style={[styles.input, styles.fieldInput]}
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="—"
+          placeholderTextColor="#666"
+        />
+      </View>
+      {urlError && <Text style={[styles.stepDetail, styles.stepFailed]}>{urlError}</Text>}
+      {message && !urlError && (
+        <Text style={[styles.stepDetail, message.error && styles.stepFailed]}>{message.text}</Text>
+      )}
+      <View style={styles.buttonRow}>
+        <Btn title="Save" color="#4CAF50" onPress={save} />
+        <Btn title="Check" color="#2196F3" loading={checking} onPress={check} />
+      </View>
+      {profile && (
+        <View style={styles.buttonRow}>
+          <Btn title="New" color="#607D8B" onPress={onNew} />
+          <Btn title="Delete" color="#f44336" onPress={() => onDelete(profile)} />
+        </View>
+      )}
+    </View>
+  );
+}
+
+function FaultEditor({
+  assets,
+  onInject,
+}: {
+  assets: AssetRef[];
+  onInject: (spec: FaultSpec) => void;
+}) {
+  const [target, setTarget] = useState<string | null>(null);
+  const [odds, setOdds] = useState(0);
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        <Chip title="ALL" active={target === null} onPress={() => setTarget(null)} />
+        {assets.map(asset => (
+          <Chip
+            key={asset.name}
+            title={asset.name}
+            active={target === asset.name}
+            onPress={() => setTarget(asset.name)}
+          />
+        ))}
+      </View>
+      <View style={styles.chipRow}>
+        {FAULT_ODDS.map((option, i) => (
+          <Chip key={option.name} title={option.name} active={odds === i} onPress={() => setOdds(i)} />
+        ))}
+      </View>
+      <Text style={styles.label}>Inject</Text>
+      <View style={styles.chipRow}>
+        {FAULT_PRESETS.map(preset => (
+          <Chip
+            key={preset.name}
+            title={preset.name}
+            onPress={() =>
+              onInject({...preset.spec, ...FAULT_ODDS[odds].spec, asset: target ?? undefined})
+            }
+          />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+function RolloutEditor({
+  versions,
+  active,
+  onSetVersion,
+  onSchedule,
+}: {
+  versions: number[];
+  active: number | null;
+  onSetVersion: (version: number) => void;
+  onSchedule: (steps: RolloutStep[]) => void;
+}) {
+  const [text, setText] = useState(() => formatRolloutSchedule(suggestRollout(versions)));
+  const [error, setError] = useState<string | null>(null);
+  const next = Math.max(0, ...versions) + 1;
+
+  const schedule = () => {
+    try {
+      const steps = parseRolloutSchedule(text);
+      setError(null);
+      onSchedule(steps);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <View>
+      <Text style={styles.label}>Serve version</Text>
+      <View style={styles.chipRow}>
+        {versions.map(version => (
+          <Chip key={version} title={`v${version}`} active={active === version} onPress={() => onSetVersion(version)} />
+        ))}
+        <Chip title={`+ v${next}`} onPress={() => onSetVersion(next)} />
+      </View>
+      <Text style={styles.label}>Rollout schedule (version@seconds from now)</Text>
+      <View style={styles.fieldRow}>
+        <TextInput
+          style={[styles.input, styles.fieldInput]}
+          value={text}
+          onChangeText={setText}
+          autoCapitalize="none"
+          autoCorrect={false}
+          placeholder="v3@60, v4@120"
+          placeholderTextColor="#666"
+        />
+        <Chip title="Schedule" onPress={schedule} />
+      </View>
+      {error && <Text style={[styles.stepDetail, styles.stepFailed]}>{error}</Text>}
+    </View>
+  );
+}
+
+function BenchmarkPanel({
+  serverUrl,
+  assets,
+  strategy,
+  onLog,
+  onFetch,
+  onFinished,
+}: {
+  serverUrl: string;
+  assets: AssetRef[];
+  strategy: CacheStrategy;
+  onLog: (message: string) => void;
+  onFetch: (fetch: SettledFetch) => void;
+  onFinished: () => void;
+}) {
+  const [iterations, setIterations] = useState(5);
+  const [runs, setRuns] = useState<BenchmarkRun[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    loadBenchmarkRuns().then(stored => {
+      setRuns(stored);
+      setSelected(stored.slice(-2).map(r => r.id));
+    });
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  const selectedRuns = runs.filter(r => selected.includes(r.id));
+  const rows = compareBenchmarkRuns(selectedRuns);
+
+  const toggle = (id: string) =>
+    setSelected(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+
+  const start = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress('starting…');
+    onLog(`[BENCH] ${assets.length} assets × modes ${BENCHMARK_MODES.join('/')} × ${iterations}, ${strategy}`);
+    try {
+      const run = await runBenchmark(
+        serverUrl,
+        {iterations, modes: BENCHMARK_MODES, assets, phases: ['cold', 'warm'], strategy},
+        {
+          device: benchmarkDevice(),
+          signal: controller.signal,
+          onProgress: (done, total, label) => setProgress(`${done}/${total} · ${label}`),
+          onSettled: onFetch,
+        },
+      );
+      setRuns(await addBenchmarkRuns([run]));
+      setSelected(prev => [...prev, run.id]);
+      onLog(`[BENCH] Finished in ${run.durationMs} ms (${run.cells.length} cells)`);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      onLog(e instanceof RequestCancelledError ? '[BENCH] Cancelled' : `[BENCH] Error: ${msg}`);
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+      onFinished();
+    }
+  };
+
+  const share = async () => {
+    try {
+      await Share.share({
+        title: 'cache-demo-benchmarks.json',
+        message: JSON.stringify(selectedRuns, null, 2),
+      });
+    } catch (e: unknown) {
+      onLog(`Export error: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const importRuns = async () => {
+    try {
+      const imported = parseBenchmarkRuns(importText);
+      setRuns(await addBenchmarkRuns(imported));
+      setSelected(prev => [...prev.filter(id => !imported.some(r => r.id === id)), ...imported.map(r => r.id)]);
+      setImportText('');
+      setImportError(null);
+      onLog(`[BENCH] Imported ${imported.length} run(s)`);
+    } catch (e: unknown) {
+      setImportError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const removeSelected = async () => {
+    let remaining = runs;
+    for (const id of selected) {
+      remaining = await deleteBenchmarkRun(id);
+    }
+    setRuns(remaining);
+    setSelected([]);
+  };
+
+  return (
+    <View>
+      <Text style={styles.label}>Fetches per mode, asset and phase ({strategy} cache)</Text>
+      <View style={styles.chipRow}>
+        {BENCHMARK_ITERATIONS.map(n => (
+          <Chip key={n} title={`×${n}`} active={iterations === n} onPress={() => setIterations(n)} />
+        ))}
+      </View>
+      <View style={styles.buttonRow}>
+        {progress === null ? (
+          <Btn title="Run Benchmark" color="#3F51B5" onPress={start} />
+        ) : (
+          <Btn title="Cancel" color="#607D8B" onPress={() => controllerRef.current?.abort()} />
+        )}
+      </View>
+      {progress !== null && <Text style={styles.stepDetail}>Running {progress}</Text>}
+      {runs.length > 0 && (
+        <>
+          <Text style={styles.label}>Saved runs (tap to compare)</Text>
+          <View style={styles.chipRow}>
+            {runs.map(run => (
+              <Chip
+                key={run.id}
+                title={`${formatISTTime(new Date(run.startedAt))} ${run.device.platform}`}
+                active={selected.includes(run.id)}
+                onPress={() => toggle(run.id)}
+              />
+            ))}
+          </View>
+        </>
+      )}
+      {selectedRuns.length > 0 && (
+        <>
+          <View style={styles.benchRow}>
+            <Text style={[styles.benchCell, styles.benchKey]}>min/p50/p95/max</Text>
+            {selectedRuns.map(run => (
+              <Text key={run.id} style={[styles.benchCell, styles.benchHeader]}>
+                {describeBenchmarkRun(run)}
+              </Text>
+            ))}
+          </View>
+          {rows.map(row => (
+            <View key={row.key} style={styles.benchRow}>
+              <Text style={[styles.benchCell, styles.benchKey]}>{row.key}</Text>
+              {row.cells.map((cell, i) => (
+                <Text key={selectedRuns[i].id} style={styles.benchCell}>
+                  {describeBenchmarkCell(cell)}
+                </Text>
+              ))}
+            </View>
+          ))}
+          <View style={styles.buttonRow}>
+            <Btn title="Share JSON" color="#3F51B5" onPress={share} />
+            <Btn title="Delete Selected" color="#607D8B" onPress={removeSelected} />
+          </View>
+        </>
+      )}
+      <Text style={styles.label}>Import runs from another device</Text>
+      <View style={styles.fieldRow}>
+        <TextInput
+          style={[styles.input, styles.fieldInput]}
+          value={importText}
+          onChangeText={setImportText}
+          autoCapitalize="none"
+          autoCorrect={false}
+          placeholder="Paste shared benchmark JSON"
+          placeholderTextColor="#666"
+        />
+        <Chip title="Import" onPress={importRuns} />
+      </View>
+      {importError && <Text style={[styles.stepDetail, styles.stepFailed]}>{importError}</Text>}
+    </View>
+  );
+}
+
+function Chip({
+  title,
+  active,
+  onPress,
+}: {
+  title: string;
+  active?: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+      activeOpacity={0.7}>
+      <Text style={[styles.chipText, active && styles.tabTextActive]}>{title}</Text>
+    </TouchableOpacity>
+  );
+}
+
+function TimelineItem({row}: {row: TimelineRow}) {
+  if (row.kind === 'server') {
+    const {entry} = row;
+    return (
+      <View style={styles.stepRow}>
+        <Text style={styles.stepDetail}>
+          {'   '}server #{entry.id} {entry.method} {entry.path} → {entry.status || 'dropped'}
+          {entry.asset ? ` (${entry.bytesSent} B, v${entry.version}, mode ${entry.mode})` : ''}
+        </Text>
+      </View>
+    );
+  }
+
+  const {fetch, entry, cachedFrom} = row;
+  let outcome: string;
+  if (fetch.error) {
+    outcome = `error: ${fetch.error}`;
+  } else if (entry) {
+    outcome =
+      `server #${entry.id} → ${entry.status || 'dropped'}` +
+      (entry.faults?.length ? ` [fault: ${entry.faults.join(', ')}]` : '') +
+      (entry.matched && entry.matched !== 'none' ? ` (matched ${entry.matched})` : '') +
+      `, ${entry.bytesSent} B` +
+      (entry.encoding && entry.encoding !== 'identity' ? ` ${entry.encoding}` : '') +
+      `, v${entry.version}`;
+  } else if (cachedFrom !== null) {
+    outcome = `no server request — cached response from #${cachedFrom}`;
+  } else {
+    outcome = 'no server request seen';
+  }
+  return (
+    <View style={styles.stepRow}>
+      <Text style={[styles.stepLabel, !entry && styles.highlight]}>
+        {formatISTTime(new Date(fetch.startedAt))} fetch {fetch.asset.toUpperCase()} →{' '}
+        {fetch.status ?? '—'} ({fetch.finishedAt - fetch.startedAt}ms)
+      </Text>
+      <Text style={styles.stepDetail}>{'  '}{outcome}</Text>
+    </View>
+  );
+}
+
+function LottieSummary({metadata}: {metadata: LottieMetadata}) {
+  return (
+    <>
+      <InfoRow label="Lottie Version" value={metadata.version} />
+      <InfoRow
+        label="Duration"
+        value={`${metadata.durationSeconds.toFixed(2)} s (${metadata.frames} frames @ ${metadata.frameRate} fps)`}
+      />
+      <InfoRow label="Size" value={`${metadata.width} × ${metadata.height}`} />
+      <InfoRow
+        label="Layers / Shapes"
+        value={`${metadata.layerCount} / ${metadata.shapeCount}`}
+      />
+      <InfoRow label="Animated Properties" value={String(metadata.animatedProperties)} />
+      <InfoRow label="Colors" value={metadata.colors.join(', ') || '—'} mono />
+    </>
+  );
+}
+
+function StepRow({step}: {step: StepReport}) {
+  return (
+    <View style={styles.stepRow}>
+      <Text style={[styles.stepLabel, !step.passed && styles.stepFailed]}>
+        {step.passed ? '✓' : '✗'} {step.index}. {step.label}
+        {step.fetch
+          ? ` → ${step.fetch.status} ${step.fetch.source}, ${step.fetch.fetchTimeMs}ms`
+          : ''}
+      </Text>
+      {step.error && <Text style={styles.stepDetail}>  {step.error}</Text>}
+      {step.assertions.map((a, i) => (
+        <Text key={i} style={[styles.stepDetail, !a.passed && styles.stepFailed]}>
+          {'  '}{a.passed ? '✓' : '✗'} {a.description} ({a.actual})
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const SOURCE_COLORS: Record<FetchSource, string> = {
+  cache: '#4caf50',
+  revalidated: '#03a9f4',
+  network: '#ff9800',
+  unknown: '#777',
+};
+
+function ImageDiffPanel({diff}: {diff: ImageRevisionDiff}) {
+  const before = diffImageSource(diff.kind, diff.before);
+  const after = diffImageSource(diff.kind, diff.after);
+  return (
+    <View>
+      <InfoRow label="Previous SHA-256" value={diff.fromSha} mono />
+      {diff.pixels && (
+        <InfoRow
+          label="Pixels Changed"
+          value={describePixelDiff(diff.pixels)}
+          highlight={diff.pixels.changedPixels > 0}
+        />
+      )}
+      {diff.svgChanges && (
+        <InfoRow
+          label="SVG Changes"
+          value={diff.svgChanges.length === 0 ? 'none (same markup, reformatted)' : String(diff.svgChanges.length)}
+          highlight={diff.svgChanges.length > 0}
+        />
+      )}
+      <View style={styles.diffRow}>
+        <DiffThumb title="Before">{before}</DiffThumb>
+        <DiffThumb title="After">{after}</DiffThumb>
+        {diff.overlayBase64 && (
+          <DiffThumb title="Diff">
+            <Image
+              source={{uri: `data:image/png;base64,${diff.overlayBase64}`}}
+              style={styles.diffImage}
+              resizeMode="contain"
+            />
+          </DiffThumb>
+        )}
+      </View>
+      {diff.svgChanges?.map((change, i) => (
+        <Text key={i} style={styles.stepDetail}>
+          {describeSvgChange(change)}
+        </Text>
+      ))}
+      {diff.error && <Text style={[styles.stepDetail, styles.stepFailed]}>Diff failed: {diff.error}</Text>}
+    </View>
+  );
+}
+
+function diffImageSource(kind: 'png' | 'svg', base64: string): React.JSX.Element {
+  return kind === 'svg' ? (
+    <SvgXml xml={Buffer.from(base64, 'base64').toString('utf8')} width={88} height={88} />
+  ) : (
+    <Image source={{uri: `data:image/png;base64,${base64}`}} style={styles.diffImage} resizeMode="contain" />
+  );
+}
+
+function DiffThumb({title, children}: {title: string; children: React.ReactNode}) {
+  return (
+    <View style={styles.diffThumb}>
+      {children}
+      <Text style={styles.diffLabel}>{title}</Text>
+    </View>
+  );
+}
+
+function SourceBadge({source}: {source: FetchSource}) {
+  return (
+    <View style={[styles.badge, {backgroundColor: SOURCE_COLORS[source]}]}>
+      <Text style={styles.badgeText}>{describeFetchSource(source)}</Text>
+    </View>
+  );
+}
+
+// Recomputed every second, so the countdown runs while the panel is open.
+function FreshnessPanel({result, check}: {result: FetchResult; check: FreshnessCheck | null}) {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const freshness = computeFreshness(freshnessInput(result), now);
+  const lifetime = !freshness.storable
+    ? 'not storable'
+    : freshness.noCache
+    ? 'no-cache (always revalidate)'
+    : `${formatDuration(freshness.lifetimeSeconds)} (${
+        freshness.lifetimeSource === 'heuristic' ? '10% of time since Last-Modified' : freshness.lifetimeSource
+      })`;
+  const contradicted = check !== null && check.observed !== null && check.observed !== check.predicted;
+
+  return (
+    <>
+      <InfoRow label="Freshness" value={lifetime} />
+      <InfoRow label="Age" value={formatDuration(freshness.ageSeconds)} />
+      {freshness.storable && !freshness.noCache && (
+        <InfoRow
+          label={freshness.remainingSeconds > 0 ? 'Fresh For' : 'Stale For'}
+          value={formatDuration(freshness.remainingSeconds)}
+          highlight={freshness.remainingSeconds > 0}
+        />
+      )}
+      <InfoRow label="Next Fetch" value={describePrediction(freshness.prediction)} highlight />
+      {check && (
+        <InfoRow
+          label="Last Prediction"
+          value={
+            check.observed === null
+              ? `${check.predicted}, outcome unknown`
+              : contradicted
+              ? `CONTRADICTED: predicted ${check.predicted}, was ${check.observed}`
+              : `${check.predicted} ✓`
+          }
+          highlight={contradicted}
+        />
+      )}
+    </>
+  );
+}
+
 function InfoRow({
   label,
   value,
@@ -439,11 +2862,13 @@ const styles = StyleSheet.create({
   },
   tabContainer: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     marginBottom: 12,
     gap: 8,
   },
   tab: {
     flex: 1,
+    minWidth: 80,
     paddingVertical: 10,
     borderRadius: 8,
     backgroundColor: '#2a2a4a',
@@ -531,6 +2956,118 @@ const styles = StyleSheet.create({
     color: '#ff9800',
     fontWeight: 'bold',
   },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  previewBadge: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#2a2a4a',
+    borderWidth: 1,
+    borderColor: '#444',
+  },
+  chipActive: {
+    backgroundColor: '#bb86fc',
+    borderColor: '#bb86fc',
+  },
+  chipText: {
+    color: '#ccc',
+    fontSize: 12,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  fieldInput: {
+    flex: 1,
+    paddingVertical: 6,
+  },
+  scenarioInput: {
+    minHeight: 60,
+    fontFamily: 'Courier',
+    fontSize: 11,
+    marginBottom: 8,
+  },
+  scenarioTitle: {
+    color: '#e0e0e0',
+    fontSize: 13,
+    fontWeight: '600',
+    marginVertical: 4,
+  },
+  stepRow: {
+    paddingVertical: 3,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#333',
+  },
+  stepLabel: {
+    color: '#4CAF50',
+    fontSize: 12,
+  },
+  stepDetail: {
+    color: '#aaa',
+    fontSize: 11,
+    fontFamily: 'Courier',
+  },
+  stepFailed: {
+    color: '#f44336',
+  },
+  diffRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginVertical: 8,
+  },
+  diffThumb: {
+    alignItems: 'center',
+  },
+  diffImage: {
+    width: 88,
+    height: 88,
+  },
+  diffLabel: {
+    color: '#aaa',
+    fontSize: 11,
+    marginTop: 2,
+  },
+  benchRow: {
+    flexDirection: 'row',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#333',
+    paddingVertical: 4,
+  },
+  benchCell: {
+    flex: 1,
+    color: '#e0e0e0',
+    fontSize: 10,
+    fontFamily: 'Courier',
+    paddingHorizontal: 2,
+  },
+  benchKey: {
+    flex: 1.2,
+    color: '#aaa',
+  },
+  benchHeader: {
+    color: '#90caf9',
+  },
   logText: {
     color: '#888',
     fontSize: 11,
@@ -0,0 +1,65 @@
+import NativeHttpCache from '../src/NativeHttpCache';
+import {fetchAsset, getServerState, setMode} from '../src/api';
+import {SessionExpiredError} from '../src/sessions';
+import type {AssetRef} from '../src/types';
+
+const BASE = 'http://server:3000/s/abc';
+const IMAGE: AssetRef = {name: 'image.png', kind: 'png', path: '/image.png'};
+
+const mockedFetch = jest.fn();
+
+beforeEach(() => {
+  mockedFetch.mockReset();
+  globalThis.fetch = mockedFetch;
+});
+
+describe('fetchAsset', () => {
+  it('neither retries nor falls back on an only-if-cached miss', async () => {
+    mockedFetch.mockImplementation((url: string) =>
+      url.endsWith('/state')
+        ? Promise.reject(new TypeError('Network request failed'))
+        : Promise.resolve(
+            new Response(new Uint8Array([1, 2, 3]).buffer, {
+              status: 200,
+              headers: {ETag: '"v1"'},
+            }),
+          ),
+    );
+    const good = await fetchAsset(BASE, IMAGE, false, {staleOnError: true});
+    expect(good.status).toBe(200);
+
+    const fetchWithCacheMode = NativeHttpCache.fetchWithCacheMode as jest.Mock;
+    fetchWithCacheMode.mockResolvedValue({
+      status: 504,
+      headers: [],
+      bodyBase64: '',
+    });
+    const miss = await fetchAsset(BASE, IMAGE, false, {
+      staleOnError: true,
+      cacheMode: 'only-if-cached',
+    });
+    expect(miss.status).toBe(504);
+    expect(miss.fallback).toBeNull();
+    expect(miss.retries).toBe(0);
+    expect(fetchWithCacheMode).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('server controls', () => {
+  it('throw when the session has expired', async () => {
+    mockedFetch.mockImplementation(() =>
+      Promise.resolve(
+        new Response(
+          JSON.stringify({error: 'unknown or expired session "abc"'}),
+          {status: 404},
+        ),
+      ),
+    );
+    await expect(setMode(BASE, 'B')).rejects.toBeInstanceOf(
+      SessionExpiredError,
+    );
+    await expect(getServerState(BASE)).rejects.toThrow(
+      'unknown or expired session "abc"',
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  clearAssetCache,
+  conditionalHeaders,
+  configureAssetCache,
+  getAssetCacheStats,
+  getCachedAsset,
+  isStorable,
+  putCachedAsset,
+  updateCachedHeaders,
+} from '../src/assetCache';
+
+function entry(url: string, body: string) {
+  return {
+    url,
+    body,
+    encoding: 'utf8' as const,
+    etag: `"${url}"`,
+    lastModified: 'Mon, 01 Dec 2025 00:00:00 GMT',
+    cacheControl: null,
+    fetchedAt: 0,
+  };
+}
+
+describe('assetCache', () => {
+  let now = 1000;
+
+  beforeEach(async () => {
+    await clearAssetCache();
+    configureAssetCache({maxBytes: 10, maxEntries: 50});
+    jest.spyOn(Date, 'now').mockImplementation(() => now++);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('evicts the least recently used entry when over the size limit', async () => {
+    await putCachedAsset(entry('a', 'aaaa'));
+    await putCachedAsset(entry('b', 'bbbb'));
+    // Touch "a" so "b" becomes the oldest.
+    expect((await getCachedAsset('a'))?.body).toBe('aaaa');
+    await putCachedAsset(entry('c', 'cccc'));
+
+    expect(await getCachedAsset('b')).toBeNull();
+    expect(await getCachedAsset('a')).not.toBeNull();
+    expect((await getAssetCacheStats()).totalBytes).toBe(8);
+  });
+
+  it('refuses bodies larger than the whole cache', async () => {
+    expect(await putCachedAsset(entry('big', 'x'.repeat(11)))).toBe(false);
+    expect(await getCachedAsset('big')).toBeNull();
+  });
+
+  it('updates validators from a 304', async () => {
+    await putCachedAsset(entry('a', 'aaaa'));
+    await updateCachedHeaders('a', {etag: '"new"', lastModified: null});
+
+    const stored = await getCachedAsset('a');
+    expect(conditionalHeaders(stored)).toEqual({
+      'If-None-Match': '"new"',
+      'If-Modified-Since': 'Mon, 01 Dec 2025 00:00:00 GMT',
+    });
+  });
+
+  it('honours no-store', () => {
+    expect(isStorable('public, no-store')).toBe(false);
+    expect(isStorable('no-cache')).toBe(true);
+    expect(isStorable(null)).toBe(true);
+  });
+});
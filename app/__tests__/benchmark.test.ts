@@ -0,0 +1,182 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NativeHttpCache from '../src/NativeHttpCache';
+import {fetchAsset, getServerState, setMode, setPolicy} from '../src/api';
+import {
+  addBenchmarkRuns,
+  compareBenchmarkRuns,
+  loadBenchmarkRuns,
+  parseBenchmarkRuns,
+  runBenchmark,
+  summarizeTimings,
+} from '../src/benchmark';
+import {RequestCancelledError} from '../src/request';
+import type {AssetRef, BenchmarkRun} from '../src/types';
+
+jest.mock('../src/api');
+
+const BASE = 'http://bench.test';
+const ASSET: AssetRef = {name: 'lottie.json', kind: 'json', path: '/lottie.json'};
+const DEVICE = {platform: 'ios', osVersion: '18.0', reactNative: '0.84.0'};
+
+function run(id: string, mode: 'A' | 'B' = 'A'): BenchmarkRun {
+  return {
+    id,
+    startedAt: '2026-01-01T00:00:00.000Z',
+    durationMs: 10,
+    serverUrl: BASE,
+    device: DEVICE,
+    iterations: 1,
+    strategy: 'native',
+    cells: [
+      {
+        mode,
+        asset: ASSET.name,
+        kind: 'json',
+        phase: 'cold',
+        timing: summarizeTimings([5]),
+        bytes: 100,
+        serverRequests: 1,
+        sources: {cache: 0, revalidated: 0, network: 1, unknown: 0},
+        errors: 0,
+      },
+    ],
+  };
+}
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  await AsyncStorage.clear();
+});
+
+describe('summarizeTimings', () => {
+  it('takes nearest-rank percentiles', () => {
+    const values = [10, 1, 9, 2, 8, 3, 7, 4, 6, 5];
+    expect(summarizeTimings(values)).toEqual({
+      count: 10,
+      min: 1,
+      p50: 5,
+      p95: 10,
+      max: 10,
+      mean: 5.5,
+    });
+    expect(summarizeTimings([])).toBeNull();
+  });
+});
+
+describe('runBenchmark', () => {
+  it('measures cold and warm fetches and puts the policies back', async () => {
+    let count = 0;
+    const policies = {json: {maxAge: 60}};
+    const assetPolicies = {'sticker.json': {noStore: true}};
+    (getServerState as jest.Mock).mockImplementation(async () => ({
+      assetCounts: {[ASSET.name]: count},
+      policies,
+      assetPolicies,
+    }));
+    let coldPhase = true;
+    let primed = false;
+    (fetchAsset as jest.Mock).mockImplementation(async () => {
+      // Warm fetches after the priming one never reach the server.
+      const cached = !coldPhase && primed;
+      primed = !coldPhase;
+      if (!cached) {
+        count++;
+      }
+      return {
+        source: cached ? 'cache' : 'network',
+        fetchTimeMs: cached ? 2 : 20,
+        transfer: {encodedBytes: 40, decodedBytes: 100},
+      };
+    });
+    const result = await runBenchmark(
+      BASE,
+      {
+        iterations: 3,
+        modes: ['A'],
+        assets: [ASSET],
+        phases: ['cold', 'warm'],
+        strategy: 'native',
+      },
+      {
+        device: DEVICE,
+        onProgress: (_done, _total, label) => {
+          coldPhase = label.endsWith('cold');
+        },
+      },
+    );
+
+    expect(setMode).toHaveBeenCalledWith(BASE, 'A');
+    expect(fetchAsset).toHaveBeenCalledTimes(7);
+    // Before each cold fetch, and once before priming the warm phase.
+    expect(NativeHttpCache.clearCache).toHaveBeenCalledTimes(4);
+    expect(result.cells).toMatchObject([
+      {
+        phase: 'cold',
+        timing: {count: 3, p50: 20},
+        bytes: 120,
+        serverRequests: 3,
+        sources: {network: 3, cache: 0},
+      },
+      {
+        phase: 'warm',
+        timing: {count: 3, p50: 2},
+        bytes: 0,
+        serverRequests: 0,
+        sources: {network: 0, cache: 3},
+      },
+    ]);
+    expect(result.device).toEqual(DEVICE);
+    expect((setPolicy as jest.Mock).mock.calls).toEqual([
+      [BASE, {maxAge: 60}, 'json'],
+      [BASE, {noStore: true}, 'sticker.json'],
+    ]);
+  });
+
+  it('counts failed fetches and stops when cancelled', async () => {
+    (getServerState as jest.Mock).mockRejectedValue(new Error('offline'));
+    (fetchAsset as jest.Mock).mockRejectedValue(new Error('HTTP 500'));
+    const config = {
+      iterations: 2,
+      modes: ['A' as const],
+      assets: [ASSET],
+      phases: ['cold' as const],
+      strategy: 'native' as const,
+    };
+    const result = await runBenchmark(BASE, config, {device: DEVICE});
+    expect(result.cells[0]).toMatchObject({
+      timing: null,
+      errors: 2,
+      serverRequests: null,
+    });
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      runBenchmark(BASE, config, {device: DEVICE, signal: controller.signal}),
+    ).rejects.toBeInstanceOf(RequestCancelledError);
+  });
+});
+
+describe('saved runs', () => {
+  it('merges imported runs by id and lines them up for comparison', async () => {
+    await addBenchmarkRuns([run('a'), run('b')]);
+    const text = JSON.stringify([run('b', 'B')]);
+    const runs = await addBenchmarkRuns(parseBenchmarkRuns(text));
+    expect(runs.map(r => r.id)).toEqual(['a', 'b']);
+    expect(await loadBenchmarkRuns()).toEqual(runs);
+
+    const rows = compareBenchmarkRuns(runs);
+    expect(rows.map(r => r.key)).toEqual([
+      'A · lottie.json · cold',
+      'B · lottie.json · cold',
+    ]);
+    expect(rows[0].cells[1]).toBeNull();
+  });
+
+  it('rejects text that is not exported runs', () => {
+    expect(() => parseBenchmarkRuns('{')).toThrow('not valid JSON');
+    expect(() => parseBenchmarkRuns('[{"id":1}]')).toThrow(
+      'expected exported benchmark runs',
+    );
+  });
+});
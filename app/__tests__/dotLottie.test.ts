@@ -0,0 +1,87 @@
+import {strToU8, zipSync} from 'fflate';
+import {unpackDotLottie} from '../src/dotLottie';
+
+const animation = {
+  v: '5.7.4',
+  fr: 30,
+  ip: 0,
+  op: 60,
+  w: 200,
+  h: 200,
+  assets: [{id: 'image_0', w: 200, h: 200, u: '/images/', p: 'a.png', e: 0}],
+  layers: [
+    {
+      ty: 2,
+      refId: 'image_0',
+      ip: 0,
+      op: 60,
+      ks: {o: {a: 0, k: 100}},
+    },
+  ],
+};
+
+function archive(files: Record<string, Uint8Array>): Uint8Array {
+  return zipSync(files);
+}
+
+function manifest(ids: string[]): Uint8Array {
+  return strToU8(
+    JSON.stringify({
+      version: '1',
+      animations: ids.map(id => ({id})),
+      activeAnimationId: ids[0],
+    }),
+  );
+}
+
+describe('unpackDotLottie', () => {
+  it('validates each animation and embeds its images', () => {
+    const unpacked = unpackDotLottie(
+      archive({
+        'manifest.json': manifest(['main', 'broken']),
+        'animations/main.json': strToU8(JSON.stringify(animation)),
+        'animations/broken.json': strToU8('{"v":'),
+        'images/a.png': new Uint8Array([1, 2, 3]),
+      }),
+    );
+    expect(unpacked.manifest.activeAnimationId).toBe('main');
+    expect(unpacked.animations[0].issues).toEqual([]);
+    expect(unpacked.animations[0].animation?.assets?.[0]).toMatchObject({
+      u: '',
+      p: 'data:image/png;base64,AQID',
+      e: 1,
+    });
+    expect(unpacked.animations[1]).toEqual({
+      id: 'broken',
+      animation: null,
+      issues: [{path: '', message: 'body is not valid JSON'}],
+    });
+    expect(unpacked.files.map(f => f.path).sort()).toEqual([
+      'animations/broken.json',
+      'animations/main.json',
+      'images/a.png',
+      'manifest.json',
+    ]);
+  });
+
+  it('reports an animation the manifest lists but the archive lacks', () => {
+    const unpacked = unpackDotLottie(
+      archive({'manifest.json': manifest(['gone'])}),
+    );
+    expect(unpacked.animations[0].issues[0].message).toBe(
+      'animations/gone.json is missing',
+    );
+  });
+
+  it('rejects bodies that are not usable archives', () => {
+    expect(() => unpackDotLottie(strToU8('not a zip'))).toThrow(
+      'body is not a zip archive',
+    );
+    expect(() =>
+      unpackDotLottie(archive({'animations/x.json': strToU8('{}')})),
+    ).toThrow('archive has no manifest.json');
+    expect(() =>
+      unpackDotLottie(archive({'manifest.json': strToU8('{"animations":{}}')})),
+    ).toThrow('needs an "animations" list');
+  });
+});
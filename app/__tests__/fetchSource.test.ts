@@ -0,0 +1,41 @@
+import {classifyFetch} from '../src/fetchSource';
+import type {FetchObservation} from '../src/fetchSource';
+
+function observe(overrides: Partial<FetchObservation>): FetchObservation {
+  return {
+    countBefore: 3,
+    countAfter: 4,
+    status: 200,
+    validation: null,
+    bodySha256: 'aaaa',
+    previousSha256: null,
+    ...overrides,
+  };
+}
+
+describe('classifyFetch', () => {
+  it('treats an unchanged server counter as a cache hit', () => {
+    expect(classifyFetch(observe({countAfter: 3}))).toBe('cache');
+  });
+
+  it('uses the validator echo to tell revalidations from downloads', () => {
+    const validation = {sentIfNoneMatch: '"x"', sentIfModifiedSince: null};
+    expect(
+      classifyFetch(observe({validation: {...validation, matched: 'etag'}})),
+    ).toBe('revalidated');
+    expect(
+      classifyFetch(observe({validation: {...validation, matched: 'none'}})),
+    ).toBe('network');
+    expect(classifyFetch(observe({status: 304}))).toBe('revalidated');
+  });
+
+  it('falls back to the body hash without a validator echo', () => {
+    expect(classifyFetch(observe({previousSha256: 'bbbb'}))).toBe('network');
+    expect(classifyFetch(observe({previousSha256: 'aaaa'}))).toBe('unknown');
+  });
+
+  it('gives up when the counter is missing or other traffic moved it', () => {
+    expect(classifyFetch(observe({countBefore: null}))).toBe('unknown');
+    expect(classifyFetch(observe({countAfter: 6}))).toBe('unknown');
+  });
+});
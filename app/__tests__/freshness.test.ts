@@ -0,0 +1,126 @@
+import {
+  computeFreshness,
+  observedBehaviour,
+  parseCacheControl,
+  type FreshnessInput,
+} from '../src/freshness';
+
+const RESPONSE_TIME = Date.parse('2025-12-11T00:00:00Z');
+
+function input(overrides: Partial<FreshnessInput>): FreshnessInput {
+  return {
+    status: 200,
+    cacheControl: null,
+    expires: null,
+    lastModified: null,
+    etag: '"abc"',
+    date: new Date(RESPONSE_TIME).toUTCString(),
+    age: null,
+    requestTime: RESPONSE_TIME,
+    responseTime: RESPONSE_TIME,
+    ...overrides,
+  };
+}
+
+describe('parseCacheControl', () => {
+  it('lowercases names and unquotes values', () => {
+    expect(parseCacheControl('Public, MAX-AGE="30", no-cache')).toEqual({
+      public: true,
+      'max-age': '30',
+      'no-cache': true,
+    });
+  });
+});
+
+describe('computeFreshness', () => {
+  it('counts max-age down from the response date', () => {
+    const f = computeFreshness(
+      input({cacheControl: 'public, max-age=30'}),
+      RESPONSE_TIME + 10_000,
+    );
+    expect(f.lifetimeSource).toBe('max-age');
+    expect(f.ageSeconds).toBe(10);
+    expect(f.remainingSeconds).toBe(20);
+    expect(f.prediction).toBe('cache');
+  });
+
+  it('adds the Age header and the apparent age of a cached copy', () => {
+    const f = computeFreshness(
+      input({
+        cacheControl: 'max-age=30',
+        date: new Date(RESPONSE_TIME - 20_000).toUTCString(),
+        age: '5',
+      }),
+      RESPONSE_TIME,
+    );
+    expect(f.ageSeconds).toBe(20);
+    expect(f.remainingSeconds).toBe(10);
+  });
+
+  it('applies the Last-Modified heuristic without Cache-Control', () => {
+    // Ten days since Last-Modified: fresh for one day.
+    const old = computeFreshness(
+      input({lastModified: 'Mon, 01 Dec 2025 00:00:00 GMT'}),
+      RESPONSE_TIME + 3600_000,
+    );
+    expect(old.lifetimeSource).toBe('heuristic');
+    expect(old.lifetimeSeconds).toBe(86400);
+    expect(old.prediction).toBe('cache');
+
+    // Last-Modified of "now": no heuristic lifetime left.
+    const recent = computeFreshness(
+      input({lastModified: new Date(RESPONSE_TIME).toUTCString()}),
+      RESPONSE_TIME + 1000,
+    );
+    expect(recent.prediction).toBe('revalidate');
+  });
+
+  it('treats an invalid Expires as already expired', () => {
+    const f = computeFreshness(input({expires: '0'}), RESPONSE_TIME);
+    expect(f.lifetimeSource).toBe('expires');
+    expect(f.lifetimeSeconds).toBe(0);
+    expect(f.prediction).toBe('revalidate');
+  });
+
+  it('revalidates no-cache and refetches no-store', () => {
+    expect(
+      computeFreshness(input({cacheControl: 'no-cache, max-age=60'}))
+        .prediction,
+    ).toBe('revalidate');
+    expect(
+      computeFreshness(input({cacheControl: 'no-store, max-age=60'}))
+        .prediction,
+    ).toBe('refetch');
+  });
+
+  it('refetches a stale response without validators', () => {
+    const f = computeFreshness(
+      input({etag: null, cacheControl: 'max-age=0'}),
+      RESPONSE_TIME,
+    );
+    expect(f.prediction).toBe('refetch');
+  });
+});
+
+describe('observedBehaviour', () => {
+  it('reads conditional requests from the validator echo', () => {
+    const sent = {
+      sentIfNoneMatch: '"abc"',
+      sentIfModifiedSince: null,
+      matched: 'none' as const,
+    };
+    expect(observedBehaviour({source: 'network', validation: sent})).toBe(
+      'revalidate',
+    );
+    expect(
+      observedBehaviour({
+        source: 'network',
+        validation: {...sent, sentIfNoneMatch: null},
+      }),
+    ).toBe('refetch');
+    expect(observedBehaviour({source: 'cache', validation: sent})).toBe(
+      'cache',
+    );
+    expect(observedBehaviour({source: 'unknown', validation: null})).toBe(null);
+  });
+});
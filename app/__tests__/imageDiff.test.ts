@@ -0,0 +1,185 @@
+/* eslint-disable no-bitwise -- PNG is bytes, bit depths and CRCs. */
+import {zlibSync} from 'fflate';
+import {decodePng, encodePng} from '../src/png';
+import {
+  describeSvgChange,
+  diffPixels,
+  diffPng,
+  diffSvg,
+} from '../src/imageDiff';
+import type {DecodedImage} from '../src/types';
+
+function solid(width: number, height: number, rgba: number[]): DecodedImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set(rgba, i);
+  }
+  return {width, height, rgba: data};
+}
+
+function crc32(bytes: number[]): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const u32 = (n: number) => [
+  n >>> 24,
+  (n >>> 16) & 255,
+  (n >>> 8) & 255,
+  n & 255,
+];
+
+function chunk(type: string, data: number[]): number[] {
+  const body = [...type].map(c => c.charCodeAt(0)).concat(data);
+  return [...u32(data.length), ...body, ...u32(crc32(body))];
+}
+
+// A PNG built by hand: one row per entry of `rows`, each with filter byte 0.
+function handmadePng(
+  width: number,
+  depth: number,
+  colorType: number,
+  rows: number[][],
+  extra: number[] = [],
+): Uint8Array {
+  const raw = zlibSync(new Uint8Array(rows.flatMap(row => [0, ...row])));
+  return new Uint8Array([
+    137,
+    80,
+    78,
+    71,
+    13,
+    10,
+    26,
+    10,
+    ...chunk('IHDR', [
+      ...u32(width),
+      ...u32(rows.length),
+      depth,
+      colorType,
+      0,
+      0,
+      0,
+    ]),
+    ...extra,
+    ...chunk('IDAT', [...raw]),
+    ...chunk('IEND', []),
+  ]);
+}
+
+describe('decodePng', () => {
+  it('round-trips what encodePng writes', () => {
+    const image = solid(3, 2, [10, 20, 30, 40]);
+    image.rgba.set([255, 0, 0, 255], 4);
+    expect(decodePng(encodePng(image))).toEqual(image);
+  });
+
+  it('reads palettes, low bit depths and 16-bit samples', () => {
+    const palette = [
+      ...chunk('PLTE', [255, 0, 0, 0, 0, 255]),
+      ...chunk('tRNS', [128]),
+    ];
+    // Two bits per index: 0, 1, 1, 0.
+    const indexed = decodePng(handmadePng(4, 2, 3, [[0b00010100]], palette));
+    expect([...indexed.rgba]).toEqual([
+      255, 0, 0, 128, 0, 0, 255, 255, 0, 0, 255, 255, 255, 0, 0, 128,
+    ]);
+
+    const deep = decodePng(
+      handmadePng(1, 16, 2, [[0x12, 0x34, 0xab, 0xcd, 0xff, 0xff]]),
+    );
+    expect([...deep.rgba]).toEqual([0x12, 0xab, 0xff, 255]);
+
+    const gray = decodePng(handmadePng(2, 1, 0, [[0b10000000]]));
+    expect([...gray.rgba]).toEqual([255, 255, 255, 255, 0, 0, 0, 255]);
+  });
+
+  it('names what it cannot read', () => {
+    expect(() => decodePng(new Uint8Array([1, 2, 3]))).toThrow('not a PNG');
+    const png = encodePng(solid(1, 1, [0, 0, 0, 255]));
+    png[20] ^= 1;
+    expect(() => decodePng(png)).toThrow('IHDR chunk has a bad checksum');
+  });
+});
+
+describe('diffPixels', () => {
+  it('counts changed pixels and marks them on the overlay', () => {
+    const before = solid(2, 2, [255, 255, 255, 255]);
+    const after = solid(2, 2, [255, 255, 255, 255]);
+    after.rgba.set([0, 0, 0, 255], 0);
+    const diff = diffPixels(before, after);
+    expect(diff).toMatchObject({changedPixels: 1, changedPercent: 25});
+    expect([...diff.overlay.rgba.slice(0, 8)]).toEqual([
+      244, 67, 54, 255, 89, 89, 89, 255,
+    ]);
+  });
+
+  it('finds no change in a re-encoded body', () => {
+    const image = solid(4, 4, [1, 2, 3, 255]);
+    const reencoded = handmadePng(
+      4,
+      8,
+      2,
+      Array.from({length: 4}, () => [1, 2, 3, 1, 2, 3, 1, 2, 3, 1, 2, 3]),
+    );
+    expect(diffPng(encodePng(image), reencoded).changedPixels).toBe(0);
+  });
+
+  it('counts pixels only one of two sizes covers as changed', () => {
+    const diff = diffPixels(
+      solid(2, 2, [0, 0, 0, 255]),
+      solid(2, 1, [0, 0, 0, 255]),
+    );
+    expect(diff).toMatchObject({
+      width: 2,
+      height: 2,
+      changedPixels: 2,
+      changedPercent: 50,
+    });
+  });
+});
+
+describe('diffSvg', () => {
+  const v1 = `<?xml version="1.0"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="200">
+  <!-- background -->
+  <rect width="200" fill="white"/>
+  <circle id="dot" r="80" fill="#2196F3"/>
+  <text x="100">v1</text>
+</svg>`;
+
+  it('reports element, attribute and text changes', () => {
+    const v2 = `<svg xmlns="http://www.w3.org/2000/svg" width="240">
+  <rect width="200" fill="white" opacity="0.5"/>
+  <rect x="20" fill="#f44336"/>
+  <text>v2 &amp; more</text>
+</svg>`;
+    expect(diffSvg(v1, v2).map(describeSvgChange)).toEqual([
+      'svg @width: "200" → "240"',
+      'svg > rect[0] @opacity: added "0.5"',
+      'svg > circle#dot: removed <circle id="dot">',
+      'svg > text @x: removed "100"',
+      'svg > text: text "v1" → "v2 & more"',
+      'svg > rect[1]: added <rect>',
+    ]);
+  });
+
+  it('finds nothing when only formatting differs', () => {
+    const reformatted = v1
+      .replace(/\n\s*/g, ' ')
+      .replace('<!-- background -->', '');
+    expect(diffSvg(v1, reformatted)).toEqual([]);
+  });
+
+  it('throws on markup that does not nest', () => {
+    expect(() => diffSvg(v1, '<svg><g></svg>')).toThrow(
+      '</svg> does not close <g>',
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import {applyJsonPatch} from '../src/jsonPatch';
+
+describe('applyJsonPatch', () => {
+  it('applies each operation in order without touching the input', () => {
+    const doc = {a: {'b/c': 1, 'd~e': [1, 2]}, f: 'x'};
+    const result = applyJsonPatch(doc, [
+      {op: 'replace', path: '/a/b~1c', value: 2},
+      {op: 'add', path: '/a/d~0e/1', value: 9},
+      {op: 'add', path: '/a/d~0e/-', value: 3},
+      {op: 'remove', path: '/f'},
+      {op: 'copy', from: '/a/d~0e', path: '/g'},
+      {op: 'move', from: '/a/b~1c', path: '/h'},
+      {op: 'test', path: '/g', value: [1, 9, 2, 3]},
+    ]);
+    expect(result).toEqual({a: {'d~e': [1, 9, 2, 3]}, g: [1, 9, 2, 3], h: 2});
+    expect(doc).toEqual({a: {'b/c': 1, 'd~e': [1, 2]}, f: 'x'});
+  });
+
+  it('replaces the whole document at the empty pointer', () => {
+    expect(
+      applyJsonPatch({a: 1}, [{op: 'replace', path: '', value: [1]}]),
+    ).toEqual([1]);
+  });
+
+  it('rejects operations that do not apply, naming the index', () => {
+    expect(() =>
+      applyJsonPatch({a: 1}, [
+        {op: 'test', path: '/a', value: 1},
+        {op: 'remove', path: '/b'},
+      ]),
+    ).toThrow('operation 1: path "/b" does not exist');
+    expect(() =>
+      applyJsonPatch({a: [1]}, [{op: 'replace', path: '/a/1', value: 2}]),
+    ).toThrow('array index 1 is out of range');
+    expect(() =>
+      applyJsonPatch({a: 1}, [{op: 'test', path: '/a', value: 2}]),
+    ).toThrow('test failed at "/a"');
+    expect(() => applyJsonPatch({}, [{op: 'frobnicate', path: ''}])).toThrow(
+      'unknown op "frobnicate"',
+    );
+    expect(() => applyJsonPatch({}, {op: 'add'})).toThrow(
+      'patch must be an array',
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  describeLottieChange,
+  describeLottieIssue,
+  diffLottie,
+  lottieMetadata,
+  parseLottie,
+} from '../src/lottie';
+import type {LottieAnimation} from '../src/types';
+import v1 from '../../server/assets/v1.json';
+import v2 from '../../server/assets/v2.json';
+
+// v1 with its position split into x and y, the x one animated, as After
+// Effects exports it with "Separate Dimensions" on.
+function splitPosition() {
+  const split = JSON.parse(JSON.stringify(v1));
+  split.layers[0].ks.p = {
+    s: true,
+    x: {
+      a: 1,
+      k: [
+        {t: 0, s: [100]},
+        {t: 60, s: [400]},
+      ],
+    },
+    y: {a: 0, k: 256},
+  };
+  return split;
+}
+
+// v1 with its opacity and fill color static and "a" left out, as some
+// exporters write them.
+function implicitStatic(opacity: number) {
+  const bare = JSON.parse(JSON.stringify(v1));
+  bare.layers[0].ks.o = {k: opacity};
+  bare.layers[0].shapes[1].c = {k: [1, 0, 0, 1]};
+  return bare;
+}
+
+function valid(json: unknown): LottieAnimation {
+  const {animation, issues} = parseLottie(json);
+  expect(issues).toEqual([]);
+  return animation!;
+}
+
+describe('parseLottie', () => {
+  it('accepts both demo revisions', () => {
+    valid(v1);
+    valid(v2);
+  });
+
+  it('reports readable paths for malformed animations', () => {
+    const broken = JSON.parse(JSON.stringify(v1));
+    broken.op = 0;
+    broken.layers[0].shapes[1].c = {a: 0, k: 'blue'};
+    broken.layers[0].shapes[0].s.k[1] = {s: [1, 1]};
+
+    const {animation, issues} = parseLottie(broken);
+
+    expect(animation).toBeNull();
+    expect(issues.map(describeLottieIssue)).toEqual([
+      'op: "op" must be after "ip"',
+      'layers[0].shapes[0].s.k[1]: keyframe needs a numeric time "t"',
+      'layers[0].shapes[1].c: "k" must be a number or numbers',
+    ]);
+  });
+
+  it('accepts a position split into dimensions and checks each one', () => {
+    valid(splitPosition());
+
+    const broken = splitPosition();
+    delete broken.layers[0].ks.p.y.k;
+    expect(parseLottie(broken).issues.map(describeLottieIssue)).toEqual([
+      'layers[0].ks.p.y: "k" must be a number or numbers',
+    ]);
+  });
+
+  it('rejects a body that is not an animation', () => {
+    expect(parseLottie([1, 2]).issues).toEqual([
+      {path: '', message: 'expected a JSON object'},
+    ]);
+  });
+});
+
+describe('lottieMetadata', () => {
+  it('works out duration, counts and colors', () => {
+    expect(lottieMetadata(valid(v1))).toMatchObject({
+      durationSeconds: 2,
+      layerCount: 1,
+      shapeCount: 2,
+      animatedProperties: 1,
+      colors: ['#3366e6'],
+    });
+  });
+
+  it('reads static properties that leave out "a"', () => {
+    expect(lottieMetadata(valid(implicitStatic(100))).colors).toEqual([
+      '#ff0000',
+    ]);
+  });
+});
+
+describe('diffLottie', () => {
+  it('describes what changed between v1 and v2', () => {
+    const changes = diffLottie(valid(v1), valid(v2));
+
+    expect(changes.map(describeLottieChange)).toEqual([
+      'layers[0]: renamed "Blue Circle" → "Red Square"',
+      'layers[0].ks.r: 0 → 2 keyframes (t=0, 60): 0 → 360',
+      'layers[0].shapes[0]: removed el "Ellipse"',
+      'layers[0].shapes[0]: added rc "Rectangle"',
+      'layers[0].shapes[1].c: #3366e6 → #e63333',
+    ]);
+  });
+
+  it('compares split positions per dimension', () => {
+    const changes = diffLottie(valid(v1), valid(splitPosition()));
+
+    expect(lottieMetadata(valid(splitPosition())).animatedProperties).toBe(2);
+    expect(changes.map(describeLottieChange)).toEqual([
+      'layers[0].ks.p: [100, 100, 0] → (none)',
+      'layers[0].ks.p.x: (none) → 2 keyframes (t=0, 60): 100 → 400',
+      'layers[0].ks.p.y: (none) → 256',
+    ]);
+  });
+
+  it('compares static properties that leave out "a"', () => {
+    const changes = diffLottie(
+      valid(implicitStatic(100)),
+      valid(implicitStatic(50)),
+    );
+
+    expect(changes.map(describeLottieChange)).toEqual([
+      'layers[0].ks.o: 100 → 50',
+    ]);
+  });
+
+  it('finds nothing between identical revisions', () => {
+    expect(diffLottie(valid(v1), valid(v1))).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  hasExternalImages,
+  resolveImageUrl,
+  resolveLottieImages,
+} from '../src/lottieImages';
+import * as api from '../src/api';
+import type {
+  FetchSource,
+  ImageFetchResult,
+  LottieAnimation,
+} from '../src/types';
+
+jest.mock('../src/api');
+
+const mockedApi = api as jest.Mocked<typeof api>;
+
+const BASE = 'http://server:3000/s/abc';
+const LOTTIE_URL = `${BASE}/assets/sticker.json`;
+
+function imageResult(base64: string, source: FetchSource): ImageFetchResult {
+  return {
+    status: 200,
+    etag: null,
+    lastModified: null,
+    cacheControl: null,
+    expires: null,
+    vary: null,
+    date: null,
+    age: null,
+    validation: null,
+    appCache: null,
+    serverRequestId: null,
+    source,
+    bodySha256: 'sha',
+    bodyLength: 3,
+    transfer: {contentEncoding: 'identity', encodedBytes: 3, decodedBytes: 3},
+    fetchTimeMs: 5,
+    receivedAt: 0,
+    retries: 0,
+    fallback: null,
+    exchange: {
+      url: '',
+      method: 'GET',
+      requestHeaders: [],
+      responseHeaders: [{name: 'Content-Type', value: 'image/png'}],
+    },
+    base64,
+  };
+}
+
+function sticker(): LottieAnimation {
+  return {
+    v: '5.7.4',
+    fr: 30,
+    ip: 0,
+    op: 60,
+    w: 200,
+    h: 200,
+    layers: [],
+    assets: [
+      {id: 'image_0', u: '', p: 'sticker-a.png', e: 0},
+      {id: 'image_1', u: 'images/', p: 'sticker-b.png', e: 0},
+      {id: 'inline', p: 'data:image/png;base64,AAAA', e: 1},
+    ],
+  };
+}
+
+describe('resolveImageUrl', () => {
+  it('resolves references against the Lottie URL', () => {
+    expect(resolveImageUrl({id: 'a', u: '', p: 'a.png'}, LOTTIE_URL)).toBe(
+      `${BASE}/assets/a.png`,
+    );
+    expect(
+      resolveImageUrl({id: 'a', u: '../img/', p: 'a.png'}, LOTTIE_URL),
+    ).toBe(`${BASE}/img/a.png`);
+    expect(resolveImageUrl({id: 'a', u: '/img/', p: 'a.png'}, LOTTIE_URL)).toBe(
+      'http://server:3000/img/a.png',
+    );
+    expect(
+      resolveImageUrl({id: 'a', u: 'x/', p: 'https://cdn/a.png'}, LOTTIE_URL),
+    ).toBe('https://cdn/a.png');
+  });
+});
+
+describe('resolveLottieImages', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('embeds fetched images and counts cache hits', async () => {
+    mockedApi.fetchImage
+      .mockResolvedValueOnce(imageResult('QUFB', 'cache'))
+      .mockResolvedValueOnce(imageResult('QkJC', 'network'));
+    const animation = sticker();
+    expect(hasExternalImages(animation)).toBe(true);
+
+    const report = await resolveLottieImages(animation, LOTTIE_URL, BASE);
+    expect(mockedApi.fetchImage.mock.calls[0][0]).toBe(BASE);
+    expect(mockedApi.fetchImage.mock.calls[0][3]?.asset).toEqual({
+      name: 'sticker-a.png',
+      kind: 'png',
+      path: '/assets/sticker-a.png',
+    });
+    expect(report.animation.assets?.[0]).toEqual({
+      id: 'image_0',
+      u: '',
+      p: 'data:image/png;base64,QUFB',
+      e: 1,
+    });
+    expect(report.animation.assets?.[2]).toBe(animation.assets?.[2]);
+    expect(report.images.map(i => [i.id, i.source])).toEqual([
+      ['image_0', 'cache'],
+      ['image_1', 'network'],
+    ]);
+    expect(report.cacheHits).toBe(1);
+    expect(report.failed).toBe(0);
+    expect(hasExternalImages(report.animation)).toBe(false);
+  });
+
+  it('keeps the reference of an image that failed to load', async () => {
+    mockedApi.fetchImage
+      .mockResolvedValueOnce(imageResult('QUFB', 'revalidated'))
+      .mockRejectedValueOnce(new Error('HTTP 503'));
+    const report = await resolveLottieImages(sticker(), LOTTIE_URL, BASE);
+    expect(report.animation.assets?.[1].p).toBe('sticker-b.png');
+    expect(report.images[1]).toMatchObject({source: null, error: 'HTTP 503'});
+    expect(report.failed).toBe(1);
+    expect(report.cacheHits).toBe(0);
+  });
+});
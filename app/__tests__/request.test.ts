@@ -0,0 +1,120 @@
+import {Buffer} from 'buffer';
+import NativeHttpCache from '../src/NativeHttpCache';
+import {
+  request,
+  RequestCancelledError,
+  RequestFailedError,
+} from '../src/request';
+
+const noSleep = () => Promise.resolve();
+const readText = (res: Response) => res.text();
+
+function response(status: number, body = ''): Response {
+  return {status, text: () => Promise.resolve(body)} as unknown as Response;
+}
+
+const mockedFetch = jest.fn();
+
+beforeEach(() => {
+  mockedFetch.mockReset();
+  globalThis.fetch = mockedFetch;
+});
+
+describe('request', () => {
+  it('retries 5xx and network errors on GET', async () => {
+    mockedFetch
+      .mockResolvedValueOnce(response(503))
+      .mockRejectedValueOnce(new TypeError('Network request failed'))
+      .mockResolvedValueOnce(response(200, 'ok'));
+
+    const result = await request('http://server/a', readText, {
+      retries: 2,
+      sleep: noSleep,
+    });
+    expect(result.body).toBe('ok');
+    expect(result.attempts).toBe(3);
+  });
+
+  it('returns the last 5xx once retries run out', async () => {
+    mockedFetch.mockResolvedValue(response(500, 'boom'));
+    const result = await request('http://server/a', readText, {
+      retries: 1,
+      sleep: noSleep,
+    });
+    expect(result.res.status).toBe(500);
+    expect(result.attempts).toBe(2);
+  });
+
+  it('never retries a POST', async () => {
+    mockedFetch.mockRejectedValue(new TypeError('Network request failed'));
+    await expect(
+      request('http://server/flip', readText, {
+        method: 'POST',
+        retries: 3,
+        sleep: noSleep,
+      }),
+    ).rejects.toThrow(new RequestFailedError('Network request failed', 1));
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out a request that never answers', async () => {
+    mockedFetch.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) =>
+          init.signal?.addEventListener('abort', () =>
+            reject(new Error('Aborted')),
+          ),
+        ),
+    );
+    const error = await request('http://server/a', readText, {
+      timeoutMs: 10,
+      retries: 1,
+      sleep: noSleep,
+    }).catch(e => e);
+    expect(error).toBeInstanceOf(RequestFailedError);
+    expect(error.reason).toBe('Timed out after 10 ms');
+    expect(error.attempts).toBe(2);
+  });
+
+  it('stops at cancellation without retrying', async () => {
+    const controller = new AbortController();
+    mockedFetch.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) =>
+          init.signal?.addEventListener('abort', () =>
+            reject(new Error('Aborted')),
+          ),
+        ),
+    );
+    const pending = request('http://server/a', readText, {
+      signal: controller.signal,
+      retries: 2,
+      sleep: noSleep,
+    });
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends other cache modes through the native module', async () => {
+    (NativeHttpCache.fetchWithCacheMode as jest.Mock).mockResolvedValueOnce({
+      status: 200,
+      headers: [{name: 'ETag', value: '"v1"'}],
+      bodyBase64: Buffer.from('héllo', 'utf8').toString('base64'),
+    });
+    const result = await request('http://server/a', readText, {
+      cacheMode: 'force-cache',
+      headers: {'A-IM': 'json-patch'},
+      timeoutMs: 500,
+    });
+    expect(result.body).toBe('héllo');
+    expect(result.res.headers.get('etag')).toBe('"v1"');
+    expect(NativeHttpCache.fetchWithCacheMode).toHaveBeenCalledWith(
+      'http://server/a',
+      {'A-IM': 'json-patch'},
+      'force-cache',
+      500,
+    );
+    expect(mockedFetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,29 @@
+import {
+  formatRolloutSchedule,
+  parseRolloutSchedule,
+  suggestRollout,
+} from '../src/rollout';
+
+describe('parseRolloutSchedule', () => {
+  it('reads steps in the forms the editor accepts', () => {
+    expect(parseRolloutSchedule('v3@60, 4 @ +120s;\nV5@0')).toEqual([
+      {version: 3, afterSeconds: 60},
+      {version: 4, afterSeconds: 120},
+      {version: 5, afterSeconds: 0},
+    ]);
+    expect(parseRolloutSchedule('  ')).toEqual([]);
+  });
+
+  it('names the first step it cannot read', () => {
+    expect(() => parseRolloutSchedule('v3@60, v4 at 120')).toThrow(
+      '"v4 at 120" is not a step like v3@60',
+    );
+    expect(() => parseRolloutSchedule('v0@10')).toThrow('"v0@10"');
+  });
+
+  it('round-trips the suggested schedule', () => {
+    const steps = suggestRollout([1, 2]);
+    expect(formatRolloutSchedule(steps)).toBe('v3@60, v4@120');
+    expect(parseRolloutSchedule(formatRolloutSchedule(steps))).toEqual(steps);
+  });
+});
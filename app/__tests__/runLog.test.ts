@@ -0,0 +1,154 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {RequestFailedError} from '../src/request';
+import {
+  appendRunEntry,
+  loadRunLog,
+  settledFetchEntry,
+  toHar,
+  toMarkdown,
+} from '../src/runLog';
+import type {RunActionEntry, RunFetchEntry} from '../src/types';
+
+const META = {
+  serverUrl: 'http://server:3000',
+  platform: 'ios',
+  exportedAt: Date.parse('2025-12-11T00:00:00Z'),
+};
+
+const flip: RunActionEntry = {
+  kind: 'action',
+  id: 1,
+  startedAt: Date.parse('2025-12-11T00:00:01Z'),
+  durationMs: 12,
+  name: 'Flip',
+  detail: 'Flipped → v2',
+  error: null,
+  serverState: null,
+};
+
+const fetched: RunFetchEntry = {
+  kind: 'fetch',
+  id: 2,
+  startedAt: Date.parse('2025-12-11T00:00:02Z'),
+  durationMs: 40,
+  asset: 'lottie.json',
+  url: 'http://server:3000/lottie.json',
+  forced: false,
+  strategy: 'native',
+  exchange: {
+    url: 'http://server:3000/lottie.json',
+    method: 'GET',
+    requestHeaders: [
+      {name: 'If-None-Match', value: '"abc"', comment: 'echoed by the server'},
+    ],
+    responseHeaders: [
+      {name: 'content-type', value: 'application/json'},
+      {name: 'etag', value: '"abc"'},
+    ],
+  },
+  status: 304,
+  source: 'revalidated',
+  bodySha256: 'abcdef0123456789',
+  bodyBytes: 1041,
+  transfer: {
+    contentEncoding: 'identity',
+    encodedBytes: null,
+    decodedBytes: 1041,
+  },
+  retries: 0,
+  fallback: null,
+  error: null,
+  serverState: null,
+};
+
+const failed: RunFetchEntry = {
+  ...fetched,
+  id: 3,
+  exchange: null,
+  status: null,
+  source: null,
+  bodySha256: null,
+  bodyBytes: null,
+  transfer: null,
+  error: 'Network request failed | twice',
+};
+
+describe('toHar', () => {
+  it('groups fetches under the action before them', () => {
+    const {log} = toHar([fetched, flip, fetched, failed], META);
+    expect(log.version).toBe('1.2');
+    expect(log.pages.map(p => [p.id, p.title])).toEqual([
+      ['action-1', 'Flipped → v2'],
+    ]);
+    expect(log.entries.map(e => e.pageref)).toEqual([
+      undefined,
+      'action-1',
+      'action-1',
+    ]);
+
+    const [entry] = log.entries;
+    expect(entry.startedDateTime).toBe('2025-12-11T00:00:02.000Z');
+    expect(entry.request.headers).toEqual(fetched.exchange!.requestHeaders);
+    expect(entry.response.status).toBe(304);
+    expect(entry.response.statusText).toBe('Not Modified');
+    expect(entry.response.content.mimeType).toBe('application/json');
+    expect(entry._source).toBe('revalidated');
+
+    expect(log.entries[2].response.status).toBe(0);
+    expect(log.entries[2]._error).toBe('Network request failed | twice');
+  });
+});
+
+describe('toMarkdown', () => {
+  it('tabulates every step and escapes table cells', () => {
+    const md = toMarkdown([flip, fetched, failed], META);
+    expect(md).toContain('| 1 | 00:00:01.000 | Flip | Flipped → v2 |');
+    expect(md).toContain('| Fetch lottie.json | 304 | revalidated |');
+    expect(md).toContain('error: Network request failed \\| twice');
+    expect(md).toContain('If-None-Match: "abc"  (echoed by the server)');
+  });
+});
+
+describe('appendRunEntry', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('keeps every entry when appends overlap', async () => {
+    await Promise.all([
+      appendRunEntry(flip),
+      appendRunEntry(fetched),
+      appendRunEntry(failed),
+    ]);
+    expect((await loadRunLog()).map(e => e.id)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('settledFetchEntry', () => {
+  it('records a failed scenario fetch with its retries', () => {
+    const entry = settledFetchEntry(
+      {
+        asset: {name: 'lottie.json', kind: 'json', path: '/lottie.json'},
+        url: 'http://server:3000/lottie.json',
+        forced: true,
+        strategy: 'app',
+        cacheMode: 'default',
+        startedAt: 1000,
+        durationMs: 25,
+        result: null,
+        error: new RequestFailedError('HTTP 503', 3),
+      },
+      'scenario',
+    );
+
+    expect(entry).toMatchObject({
+      origin: 'scenario',
+      durationMs: 25,
+      status: null,
+      retries: 2,
+      error: expect.stringContaining('HTTP 503'),
+      serverState: null,
+    });
+    expect(toMarkdown([{...entry, id: 4}], META)).toContain(
+      '| Scenario force fetch lottie.json | error:',
+    );
+  });
+});
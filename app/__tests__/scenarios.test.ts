@@ -0,0 +1,157 @@
+import {parseScenario, runScenario} from '../src/scenarios';
+import * as api from '../src/api';
+import {clearAssetCache} from '../src/assetCache';
+import NativeHttpCache from '../src/NativeHttpCache';
+import type {FetchSource, LottieFetchResult} from '../src/types';
+
+jest.mock('../src/api');
+jest.mock('../src/assetCache');
+
+const mockedApi = api as jest.Mocked<typeof api>;
+
+function lottieResult(
+  sha: string,
+  demoVersion: number,
+  source: FetchSource,
+): LottieFetchResult {
+  return {
+    status: 200,
+    etag: `"${sha}"`,
+    lastModified: null,
+    cacheControl: null,
+    expires: null,
+    vary: null,
+    date: null,
+    age: null,
+    validation: null,
+    appCache: null,
+    serverRequestId: null,
+    source,
+    demoVersion,
+    bodySha256: sha,
+    bodyLength: 10,
+    transfer: {contentEncoding: 'identity', encodedBytes: 10, decodedBytes: 10},
+    fetchTimeMs: 5,
+    receivedAt: 0,
+    retries: 0,
+    fallback: null,
+    exchange: {
+      url: 'http://server/lottie.json',
+      method: 'GET',
+      requestHeaders: [],
+      responseHeaders: [],
+    },
+    parseMs: 1,
+    delta: null,
+    json: {demoVersion},
+    animation: null,
+    lottieIssues: [],
+  };
+}
+
+describe('parseScenario', () => {
+  it('accepts a bare list of steps', () => {
+    const scenario = parseScenario(
+      '[{"action":"reset"},{"action":"fetch","asset":"png"}]',
+    );
+    expect(scenario.name).toBe('Custom scenario');
+    expect(scenario.steps).toHaveLength(2);
+  });
+
+  it('reports the offending step', () => {
+    expect(() =>
+      parseScenario('{"steps":[{"action":"reset"},{"action":"jump"}]}'),
+    ).toThrow('Step 2: unknown action "jump"');
+    expect(() =>
+      parseScenario(
+        '[{"action":"fetch","asset":"json","expect":[{"type":"status"}]}]',
+      ),
+    ).toThrow('Step 1: "status" expectation needs a numeric "equals"');
+  });
+
+  it('only accepts known content encodings', () => {
+    const scenario = parseScenario(
+      '[{"action":"setCompression","encodings":["gzip"],"etags":"weak"}]',
+    );
+    expect(scenario.steps[0]).toEqual({
+      action: 'setCompression',
+      encodings: ['gzip'],
+      etags: 'weak',
+    });
+    expect(() =>
+      parseScenario('[{"action":"setCompression","encodings":["deflate"]}]'),
+    ).toThrow('Step 1: encodings must be a list of br, gzip');
+  });
+});
+
+describe('runScenario', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('checks expectations against earlier fetches', async () => {
+    mockedApi.fetchLottie
+      .mockResolvedValueOnce(lottieResult('aaaa', 1, 'network'))
+      .mockResolvedValueOnce(lottieResult('aaaa', 1, 'cache'));
+    mockedApi.flipVersion.mockResolvedValue({version: 2});
+
+    const report = await runScenario('http://server', {
+      name: 'cached flip',
+      steps: [
+        {action: 'fetch', asset: 'json', id: 'first'},
+        {action: 'flip'},
+        {
+          action: 'fetch',
+          asset: 'json',
+          expect: [
+            {type: 'serverHit', equals: false},
+            {type: 'shaUnchanged', since: 'first'},
+            {type: 'demoVersion', equals: 2},
+          ],
+        },
+      ],
+    });
+
+    expect(report.passed).toBe(false);
+    expect(report.steps[0].fetch?.serverHit).toBe(true);
+    expect(report.steps[2].assertions.map(a => a.passed)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it('clears the caches along with the server on reset', async () => {
+    const report = await runScenario('http://server', {
+      name: 'reset',
+      steps: [{action: 'reset'}],
+    });
+
+    expect(report.passed).toBe(true);
+    expect(report.steps[0].label).toBe('Reset server and caches');
+    expect(mockedApi.resetServer).toHaveBeenCalledWith('http://server');
+    expect(NativeHttpCache.clearCache).toHaveBeenCalled();
+    expect(clearAssetCache).toHaveBeenCalled();
+  });
+
+  it('stops at the first step that throws', async () => {
+    mockedApi.resetServer.mockRejectedValue(
+      new Error('Network request failed'),
+    );
+    const sleep = jest.fn(() => Promise.resolve());
+
+    const report = await runScenario(
+      'http://server',
+      {
+        name: 'down',
+        steps: [{action: 'reset'}, {action: 'wait', seconds: 31}],
+      },
+      {sleep},
+    );
+
+    expect(report.passed).toBe(false);
+    expect(report.steps).toHaveLength(1);
+    expect(report.steps[0].error).toBe('Network request failed');
+    expect(sleep).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,72 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  deleteProfile,
+  getLastUsedProfile,
+  loadProfiles,
+  normalizeServerUrl,
+  saveProfile,
+  setLastUsedProfile,
+} from '../src/serverProfiles';
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('normalizeServerUrl', () => {
+  it('adds a missing scheme and strips trailing slashes', () => {
+    expect(normalizeServerUrl(' 192.168.1.20:3000/ ')).toBe(
+      'http://192.168.1.20:3000',
+    );
+    expect(normalizeServerUrl('HTTPS://Demo.Local/api//')).toBe(
+      'https://demo.local/api',
+    );
+  });
+
+  it('rejects malformed URLs with a readable reason', () => {
+    expect(() => normalizeServerUrl('')).toThrow('Enter a server URL');
+    expect(() => normalizeServerUrl('ftp://host')).toThrow(
+      'Only http:// and https://',
+    );
+    expect(() => normalizeServerUrl('http://host:99999')).toThrow(
+      'Port 99999 is out of range',
+    );
+    expect(() => normalizeServerUrl('http://host:3000?x=1')).toThrow(
+      'without query or fragment',
+    );
+    expect(() => normalizeServerUrl('http://my host')).toThrow();
+  });
+});
+
+describe('profiles', () => {
+  it('starts with the default profile and persists saves', async () => {
+    expect((await loadProfiles()).map(p => p.id)).toEqual(['default']);
+
+    const {profile} = await saveProfile({
+      name: 'Laptop',
+      baseUrl: '10.0.0.5:3000',
+      notes: '',
+    });
+    expect(profile.baseUrl).toBe('http://10.0.0.5:3000');
+    expect((await loadProfiles()).map(p => p.name)).toEqual([
+      'Simulator host',
+      'Laptop',
+    ]);
+
+    await expect(
+      saveProfile({name: 'Laptop', baseUrl: 'http://other', notes: ''}),
+    ).rejects.toThrow('already exists');
+  });
+
+  it('restores the last-used profile until it is deleted', async () => {
+    const {profile} = await saveProfile({
+      name: 'Desk',
+      baseUrl: 'http://desk:3000',
+      notes: '',
+    });
+    await setLastUsedProfile(profile.id);
+    expect(await getLastUsedProfile()).toEqual(profile);
+
+    await deleteProfile(profile.id);
+    expect(await getLastUsedProfile()).toBeNull();
+  });
+});
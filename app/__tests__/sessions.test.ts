@@ -0,0 +1,51 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {joinSession, sessionUrl} from '../src/sessions';
+
+const HOST = 'http://server:3000';
+
+function response(status: number, body: object): Response {
+  return {
+    status,
+    ok: status < 400,
+    json: () => Promise.resolve(body),
+  } as unknown as Response;
+}
+
+const mockedFetch = jest.fn();
+
+beforeEach(async () => {
+  mockedFetch.mockReset();
+  globalThis.fetch = mockedFetch;
+  await AsyncStorage.clear();
+});
+
+describe('joinSession', () => {
+  it('creates a session and rejoins it while it is alive', async () => {
+    mockedFetch.mockResolvedValueOnce(response(201, {id: 'abc'}));
+    const first = await joinSession(HOST);
+    expect(first).toEqual({session: {id: 'abc'}, created: true});
+    expect(mockedFetch.mock.calls[0][0]).toBe(`${HOST}/sessions`);
+
+    mockedFetch.mockResolvedValueOnce(response(200, {id: 'abc'}));
+    const second = await joinSession(HOST);
+    expect(second.created).toBe(false);
+    expect(mockedFetch.mock.calls[1][0]).toBe(`${HOST}/sessions/abc`);
+  });
+
+  it('starts over when the stored session has expired', async () => {
+    await AsyncStorage.setItem(`sessions:${HOST}`, 'gone');
+    mockedFetch
+      .mockResolvedValueOnce(response(404, {error: 'unknown session'}))
+      .mockResolvedValueOnce(response(201, {id: 'fresh'}));
+    const {session, created} = await joinSession(HOST);
+    expect(session.id).toBe('fresh');
+    expect(created).toBe(true);
+    expect(await AsyncStorage.getItem(`sessions:${HOST}`)).toBe('fresh');
+  });
+});
+
+describe('sessionUrl', () => {
+  it('scopes paths under the session prefix', () => {
+    expect(sessionUrl(HOST, 'abc')).toBe(`${HOST}/s/abc`);
+  });
+});
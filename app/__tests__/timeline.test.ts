@@ -0,0 +1,80 @@
+import {buildTimeline} from '../src/timeline';
+import type {ClientFetchRecord, JournalEntry} from '../src/types';
+
+function entry(id: number, path = '/lottie.json'): JournalEntry {
+  return {
+    id,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    method: 'GET',
+    path,
+    asset: path === '/lottie.json' ? 'json' : null,
+    name: path === '/lottie.json' ? 'lottie.json' : null,
+    ifNoneMatch: null,
+    ifModifiedSince: null,
+    etag: '"x"',
+    matched: 'none',
+    encoding: 'identity',
+    faults: [],
+    status: 200,
+    bytesSent: 100,
+    durationMs: 1,
+    mode: 'A',
+    version: 1,
+  };
+}
+
+function fetchRecord(
+  id: number,
+  journalIdAtStart: number,
+  serverRequestId: number | null,
+): ClientFetchRecord {
+  return {
+    id,
+    asset: 'json',
+    startedAt: 0,
+    finishedAt: 10,
+    status: 200,
+    error: null,
+    serverRequestId,
+    journalIdAtStart,
+  };
+}
+
+describe('buildTimeline', () => {
+  it('links fetches to the entries they produced and flags cached replays', () => {
+    const rows = buildTimeline(
+      [fetchRecord(1, 0, 1), fetchRecord(2, 2, 1)],
+      [entry(1), entry(2, '/state')],
+    );
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({kind: 'fetch', entry: null, cachedFrom: 1});
+    expect(rows[1]).toMatchObject({kind: 'fetch', entry: {id: 1}});
+  });
+
+  it('keeps unclaimed asset requests as server-only rows', () => {
+    const rows = buildTimeline([fetchRecord(1, 0, 1)], [entry(1), entry(3)]);
+
+    expect(rows.map(r => r.kind)).toEqual(['server', 'fetch']);
+  });
+
+  it('flags a stale id as a replay before the journal was loaded', () => {
+    const stale = {...fetchRecord(2, 0, 1), startedAt: 20, finishedAt: 30};
+    const otherAsset = {
+      ...fetchRecord(3, 0, 2),
+      asset: 'png' as const,
+      startedAt: 20,
+      finishedAt: 30,
+    };
+    const rows = buildTimeline(
+      [fetchRecord(1, 0, 1), stale, otherAsset],
+      [entry(1), entry(2)],
+    );
+
+    expect(rows.filter(r => r.kind === 'fetch')).toEqual([
+      expect.objectContaining({fetch: otherAsset, entry: null, cachedFrom: 2}),
+      expect.objectContaining({fetch: stale, entry: null, cachedFrom: 1}),
+      expect.objectContaining({entry: expect.objectContaining({id: 1})}),
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+import React from 'react';
+import {AppState} from 'react-native';
+import ReactTestRenderer from 'react-test-renderer';
+import {
+  useStaleWhileRevalidate,
+  type RevalidatedBody,
+  type StaleWhileRevalidateOptions,
+} from '../src/useStaleWhileRevalidate';
+
+type Hook = ReturnType<typeof useStaleWhileRevalidate<RevalidatedBody>>;
+
+function body(sha: string, status = 200): RevalidatedBody {
+  return {
+    status,
+    source: 'revalidated',
+    bodySha256: sha,
+    bodyLength: 3,
+    fallback: null,
+  };
+}
+
+const mounted: ReactTestRenderer.ReactTestRenderer[] = [];
+
+function render(options: StaleWhileRevalidateOptions<RevalidatedBody>) {
+  const hook: {current: Hook | null} = {current: null};
+  // One prop: React would take a "key" prop for itself.
+  function Probe(props: {
+    options: StaleWhileRevalidateOptions<RevalidatedBody>;
+  }) {
+    hook.current = useStaleWhileRevalidate(props.options);
+    return null;
+  }
+  let renderer: ReactTestRenderer.ReactTestRenderer;
+  ReactTestRenderer.act(() => {
+    renderer = ReactTestRenderer.create(<Probe options={options} />);
+  });
+  mounted.push(renderer!);
+  return {
+    hook,
+    update: (next: StaleWhileRevalidateOptions<RevalidatedBody>) =>
+      ReactTestRenderer.act(() => renderer.update(<Probe options={next} />)),
+  };
+}
+
+// Lets the revalidation promise chain settle inside act().
+const settle = () => ReactTestRenderer.act(() => Promise.resolve());
+
+describe('useStaleWhileRevalidate', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    ReactTestRenderer.act(() => mounted.splice(0).forEach(r => r.unmount()));
+  });
+
+  it('keeps an unchanged body and marks it fresh', async () => {
+    const load = jest.fn().mockResolvedValue(body('aaa'));
+    const onChange = jest.fn();
+    const {hook} = render({
+      key: 'k',
+      shownSha256: 'aaa',
+      load,
+      onChange,
+      intervalMs: null,
+    });
+    expect(hook.current?.freshness).toBe('stale');
+    await settle();
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(onChange).not.toHaveBeenCalled();
+    expect(hook.current).toMatchObject({
+      freshness: 'fresh',
+      checks: 1,
+      swaps: 0,
+      lastTrigger: 'shown',
+    });
+  });
+
+  it('swaps in a changed body and revalidates on foreground', async () => {
+    const load = jest.fn().mockResolvedValue(body('bbb'));
+    const onChange = jest.fn();
+    const options = {
+      key: 'k',
+      shownSha256: 'aaa',
+      load,
+      onChange,
+      intervalMs: null,
+    };
+    const {hook, update} = render(options);
+    await settle();
+    expect(onChange).toHaveBeenCalledWith(body('bbb'));
+    update({...options, shownSha256: 'bbb'});
+    expect(hook.current).toMatchObject({freshness: 'fresh', swaps: 1});
+
+    const listener = (AppState.addEventListener as jest.Mock).mock.calls[0][1];
+    ReactTestRenderer.act(() => listener('active'));
+    await settle();
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(hook.current).toMatchObject({
+      checks: 2,
+      swaps: 1,
+      lastTrigger: 'foreground',
+    });
+  });
+
+  it('keeps what is shown, as stale, when a revalidation fails', async () => {
+    const load = jest
+      .fn()
+      .mockResolvedValueOnce(body('aaa'))
+      .mockResolvedValueOnce(body('', 503))
+      .mockRejectedValueOnce(new Error('Network request failed'));
+    const onChange = jest.fn();
+    const {hook} = render({
+      key: 'k',
+      shownSha256: 'aaa',
+      load,
+      onChange,
+      intervalMs: null,
+    });
+    await settle();
+    ReactTestRenderer.act(() => hook.current?.revalidate());
+    await settle();
+    expect(hook.current).toMatchObject({
+      freshness: 'stale',
+      error: 'HTTP 503 without a usable body',
+    });
+    ReactTestRenderer.act(() => hook.current?.revalidate());
+    await settle();
+    expect(hook.current).toMatchObject({
+      freshness: 'stale',
+      error: 'Network request failed',
+    });
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('stops its timer when turned off', async () => {
+    jest.useFakeTimers();
+    try {
+      const load = jest.fn().mockResolvedValue(body('aaa'));
+      const options = {
+        key: 'k',
+        shownSha256: 'aaa',
+        load,
+        onChange: jest.fn(),
+        intervalMs: 1000,
+      };
+      const {update} = render(options);
+      await settle();
+      ReactTestRenderer.act(() => jest.advanceTimersByTime(1000));
+      await settle();
+      expect(load).toHaveBeenCalledTimes(2);
+
+      update({...options, key: null});
+      ReactTestRenderer.act(() => jest.advanceTimersByTime(5000));
+      expect(load).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('does nothing without a key', async () => {
+    const load = jest.fn();
+    const {hook} = render({
+      key: null,
+      shownSha256: null,
+      load,
+      onChange: jest.fn(),
+      intervalMs: 1000,
+    });
+    await settle();
+    expect(load).not.toHaveBeenCalled();
+    expect(hook.current?.freshness).toBe('stale');
+  });
+});
@@ -1,11 +1,27 @@
 package com.lottiecachedemo
 
+import android.content.Context
+import android.util.Base64
 import android.util.Log
+import com.facebook.react.bridge.Arguments
 import com.facebook.react.bridge.Promise
 import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReadableMap
+import com.facebook.react.bridge.WritableMap
 import com.facebook.react.module.annotations.ReactModule
+import com.facebook.react.modules.network.NetworkingModule
 import com.facebook.react.modules.network.OkHttpClientProvider
+import okhttp3.Cache
+import okhttp3.CacheControl
+import okhttp3.Call
+import okhttp3.Callback
+import okhttp3.HttpUrl.Companion.toHttpUrlOrNull
+import okhttp3.OkHttpClient
+import okhttp3.Request
+import okhttp3.Response
 import java.io.File
+import java.io.IOException
+import java.util.concurrent.TimeUnit
 
 @ReactModule(name = HttpCacheModule.NAME)
 class HttpCacheModule(reactContext: ReactApplicationContext) : NativeHttpCacheSpec(reactContext) {
@@ -21,6 +37,7 @@ class HttpCacheModule(reactContext: ReactApplicationContext) : NativeHttpCacheSp
                 cache.evictAll()
                 Log.i(NAME, "Cleared OkHttp cache via evictAll()")
             }
+            configuredCache?.evictAll()
 
             // Method 2: Also delete the cache directory as fallback
             val context = reactApplicationContext
@@ -37,7 +54,289 @@ class HttpCacheModule(reactContext: ReactApplicationContext) : NativeHttpCacheSp
         }
     }
 
+    override fun getCacheInfo(promise: Promise) {
+        try {
+            val cache = findCache()
+            val dir = cacheDirectory(cache)
+            val info = Arguments.createMap()
+            info.putString("directory", dir.absolutePath)
+            info.putDouble("size", (cache?.size() ?: directorySize(dir)).toDouble())
+            info.putDouble("maxSize", (cache?.maxSize() ?: -1L).toDouble())
+            info.putDouble("hitCount", (cache?.hitCount() ?: -1).toDouble())
+            info.putDouble("networkCount", (cache?.networkCount() ?: -1).toDouble())
+            info.putDouble("requestCount", (cache?.requestCount() ?: -1).toDouble())
+            info.putBoolean("canEnumerate", true)
+            promise.resolve(info)
+        } catch (e: Exception) {
+            Log.e(NAME, "Error reading cache info: ${e.message}", e)
+            promise.reject("CACHE_INFO_ERROR", e.message, e)
+        }
+    }
+
+    override fun listCachedResponses(promise: Promise) {
+        try {
+            val dir = cacheDirectory(findCache())
+            val entries = Arguments.createArray()
+            dir.listFiles { file -> file.name.endsWith(".0") }
+                ?.sortedByDescending { it.lastModified() }
+                ?.forEach { file -> readEntry(file)?.let { entries.pushMap(it) } }
+            promise.resolve(entries)
+        } catch (e: Exception) {
+            Log.e(NAME, "Error listing cache: ${e.message}", e)
+            promise.reject("CACHE_LIST_ERROR", e.message, e)
+        }
+    }
+
+    override fun getCachedResponse(url: String, promise: Promise) {
+        try {
+            val file = metadataFile(url)
+            promise.resolve(if (file != null && file.exists()) readEntry(file) else null)
+        } catch (e: Exception) {
+            Log.e(NAME, "Error reading cached response: ${e.message}", e)
+            promise.reject("CACHE_READ_ERROR", e.message, e)
+        }
+    }
+
+    override fun evict(url: String, promise: Promise) {
+        try {
+            val cache = findCache()
+            if (cache != null) {
+                // Cache.urls() supports remove(), which evicts through OkHttp's journal.
+                val urls = cache.urls()
+                while (urls.hasNext()) {
+                    if (urls.next() == url) {
+                        urls.remove()
+                        Log.i(NAME, "Evicted $url")
+                        promise.resolve(true)
+                        return
+                    }
+                }
+                promise.resolve(false)
+                return
+            }
+
+            // No Cache instance reachable: delete the entry files directly.
+            val metadata = metadataFile(url)
+            val body = metadata?.let { File(it.parentFile, it.name.removeSuffix(".0") + ".1") }
+            val deleted = metadata?.delete() == true
+            body?.delete()
+            promise.resolve(deleted)
+        } catch (e: Exception) {
+            Log.e(NAME, "Error evicting $url: ${e.message}", e)
+            promise.reject("CACHE_EVICT_ERROR", e.message, e)
+        }
+    }
+
+    override fun configureCache(maxSize: Double, directory: String, promise: Promise) {
+        try {
+            val cache = installCache(reactApplicationContext, maxSize.toLong(), directory, findCache())
+            reactApplicationContext.getSharedPreferences(PREFS, Context.MODE_PRIVATE).edit()
+                .putLong(KEY_MAX_SIZE, maxSize.toLong())
+                .putString(KEY_DIRECTORY, directory)
+                .apply()
+            promise.resolve(Arguments.createMap().apply {
+                putString("directory", cache.directory.absolutePath)
+                putDouble("maxSize", cache.maxSize().toDouble())
+                // NetworkingModule builds a client per request from the custom
+                // builder, so fetch() switches caches straight away.
+                putBoolean("appliesOnRestart", false)
+            })
+        } catch (e: Exception) {
+            Log.e(NAME, "Error configuring cache: ${e.message}", e)
+            promise.reject("CACHE_CONFIG_ERROR", e.message, e)
+        }
+    }
+
+    override fun fetchWithCacheMode(
+        url: String,
+        headers: ReadableMap,
+        cacheMode: String,
+        timeoutMs: Double,
+        promise: Promise,
+    ) {
+        val control = when (cacheMode) {
+            "default" -> null
+            // max-age=0 rather than FORCE_NETWORK, which would skip the
+            // conditional request and replace the entry with a full body.
+            "no-cache" -> CacheControl.Builder().maxAge(0, TimeUnit.SECONDS).build()
+            "no-store" -> CacheControl.Builder().noStore().build()
+            "force-cache" -> CacheControl.Builder().maxStale(Int.MAX_VALUE, TimeUnit.SECONDS).build()
+            // OkHttp answers a miss with a 504 itself.
+            "only-if-cached" -> CacheControl.FORCE_CACHE
+            else -> {
+                promise.reject("CACHE_FETCH_ERROR", "Unknown cache mode $cacheMode")
+                return
+            }
+        }
+        try {
+            val request = Request.Builder().url(url).apply {
+                for ((name, value) in headers.toHashMap()) {
+                    header(name, value.toString())
+                }
+                control?.let { cacheControl(it) }
+            }.build()
+            val client = OkHttpClientProvider.getOkHttpClient().newBuilder()
+                .cache(findCache())
+                .callTimeout(timeoutMs.toLong(), TimeUnit.MILLISECONDS)
+                .build()
+            client.newCall(request).enqueue(object : Callback {
+                override fun onFailure(call: Call, e: IOException) {
+                    promise.reject("CACHE_FETCH_ERROR", e.message, e)
+                }
+
+                override fun onResponse(call: Call, response: Response) {
+                    try {
+                        response.use { promise.resolve(modeResponse(it)) }
+                    } catch (e: IOException) {
+                        promise.reject("CACHE_FETCH_ERROR", e.message, e)
+                    }
+                }
+            })
+        } catch (e: Exception) {
+            Log.e(NAME, "Error fetching $url: ${e.message}", e)
+            promise.reject("CACHE_FETCH_ERROR", e.message, e)
+        }
+    }
+
+    private fun modeResponse(response: Response): WritableMap {
+        val headers = Arguments.createArray()
+        for ((name, value) in response.headers) {
+            headers.pushMap(Arguments.createMap().apply {
+                putString("name", name)
+                putString("value", value)
+            })
+        }
+        val body = response.body?.bytes() ?: ByteArray(0)
+        return Arguments.createMap().apply {
+            putInt("status", response.code)
+            putArray("headers", headers)
+            putString("bodyBase64", Base64.encodeToString(body, Base64.NO_WRAP))
+        }
+    }
+
+    // The Cache that fetch() actually uses lives on NetworkingModule's client,
+    // which RN doesn't expose; OkHttpClientProvider's shared client usually has
+    // no cache at all. Counters are only available from the former. A cache
+    // set up through configureCache() takes precedence over both.
+    private fun findCache(): Cache? {
+        configuredCache?.let { return it }
+        val networking = reactApplicationContext.getNativeModule(NetworkingModule::class.java)
+        if (networking != null) {
+            for (fieldName in listOf("client", "mClient")) {
+                try {
+                    val field = NetworkingModule::class.java.getDeclaredField(fieldName)
+                    field.isAccessible = true
+                    val cache = (field.get(networking) as? OkHttpClient)?.cache
+                    if (cache != null) {
+                        return cache
+                    }
+                } catch (e: NoSuchFieldException) {
+                    // Field was renamed in this RN version; try the next name.
+                }
+            }
+        }
+        return OkHttpClientProvider.getOkHttpClient().cache
+    }
+
+    private fun cacheDirectory(cache: Cache?): File =
+        cache?.directory ?: File(reactApplicationContext.cacheDir, "http-cache")
+
+    private fun directorySize(dir: File): Long =
+        dir.listFiles()?.sumOf { it.length() } ?: 0L
+
+    private fun metadataFile(url: String): File? {
+        val httpUrl = url.toHttpUrlOrNull() ?: return null
+        return File(cacheDirectory(findCache()), "${Cache.key(httpUrl)}.0")
+    }
+
+    // Parses OkHttp's entry metadata file (Cache.Entry.writeTo): URL, request
+    // method, Vary headers, status line, then the response headers including
+    // OkHttp-Sent-Millis / OkHttp-Received-Millis.
+    private fun readEntry(metadata: File): WritableMap? {
+        val lines = metadata.readLines()
+        var i = 0
+        val url = lines.getOrNull(i++) ?: return null
+        i++ // request method
+        val varyCount = lines.getOrNull(i++)?.toIntOrNull() ?: return null
+        i += varyCount
+        val statusLine = lines.getOrNull(i++) ?: return null
+        val headerCount = lines.getOrNull(i++)?.toIntOrNull() ?: return null
+
+        val headers = Arguments.createArray()
+        var receivedMillis = 0L
+        repeat(headerCount) {
+            val line = lines.getOrNull(i++) ?: return@repeat
+            val separator = line.indexOf(':')
+            if (separator <= 0) return@repeat
+            val name = line.substring(0, separator).trim()
+            val value = line.substring(separator + 1).trim()
+            if (name.equals("OkHttp-Received-Millis", ignoreCase = true)) {
+                receivedMillis = value.toLongOrNull() ?: 0L
+            }
+            headers.pushMap(Arguments.createMap().apply {
+                putString("name", name)
+                putString("value", value)
+            })
+        }
+
+        val body = File(metadata.parentFile, metadata.name.removeSuffix(".0") + ".1")
+        return Arguments.createMap().apply {
+            putString("url", url)
+            putInt("status", statusLine.split(" ").getOrNull(1)?.toIntOrNull() ?: 0)
+            putArray("headers", headers)
+            putDouble("storedAt", receivedMillis.toDouble())
+            putDouble(
+                "ageSeconds",
+                if (receivedMillis > 0) (System.currentTimeMillis() - receivedMillis) / 1000.0 else -1.0
+            )
+            putDouble("bodySize", if (body.exists()) body.length().toDouble() else -1.0)
+        }
+    }
+
     companion object {
         const val NAME = "HttpCache"
+
+        private const val PREFS = "http-cache-config"
+        private const val KEY_MAX_SIZE = "maxSize"
+        private const val KEY_DIRECTORY = "directory"
+        // Where RN's default client keeps its cache.
+        private const val DEFAULT_DIRECTORY = "http-cache"
+
+        @Volatile
+        private var configuredCache: Cache? = null
+
+        /** Installs the cache saved by configureCache(); call before the first request. */
+        @JvmStatic
+        fun applySavedConfig(context: Context) {
+            val prefs = context.getSharedPreferences(PREFS, Context.MODE_PRIVATE)
+            if (!prefs.contains(KEY_MAX_SIZE)) {
+                return
+            }
+            try {
+                installCache(context, prefs.getLong(KEY_MAX_SIZE, 0L), prefs.getString(KEY_DIRECTORY, "") ?: "")
+            } catch (e: IllegalArgumentException) {
+                Log.w(NAME, "Ignoring saved cache configuration: ${e.message}")
+            }
+        }
+
+        private fun cacheFile(context: Context, directory: String): File {
+            require(!directory.startsWith("/") && directory.split('/').none { it == ".." }) {
+                "directory must be relative, without .."
+            }
+            return File(context.cacheDir, directory.ifEmpty { DEFAULT_DIRECTORY })
+        }
+
+        // Two Cache instances must never share a directory, so `replaced` is
+        // closed first when it lives in the same one. A request still writing
+        // to it loses its cache entry.
+        private fun installCache(context: Context, maxSize: Long, directory: String, replaced: Cache? = null): Cache {
+            require(maxSize > 0) { "maxSize must be positive" }
+            val file = cacheFile(context, directory)
+            replaced?.takeIf { it.directory == file }?.close()
+            val cache = Cache(file, maxSize)
+            configuredCache = cache
+            NetworkingModule.setCustomClientBuilder { builder -> builder.cache(cache) }
+            return cache
+        }
     }
 }
@@ -1,7 +1,73 @@
 #import "RCTHttpCache.h"
 
+static NSString *const kMaxSizeKey = @"HttpCacheMaxSize";
+static NSString *const kDirectoryKey = @"HttpCacheDirectory";
+
+// Where NSURLCache keeps `directory`: below Caches, or its own default for ''.
+static NSURL *CacheDirectoryURL(NSString *directory) {
+  NSString *caches = NSSearchPathForDirectoriesInDomains(NSCachesDirectory, NSUserDomainMask, YES).firstObject;
+  NSString *path = directory.length > 0
+      ? [caches stringByAppendingPathComponent:directory]
+      : [caches stringByAppendingPathComponent:[[NSBundle mainBundle] bundleIdentifier]];
+  return [NSURL fileURLWithPath:path isDirectory:YES];
+}
+
+static NSURLCache *MakeCache(NSUInteger maxSize, NSString *directory) {
+  NSUInteger memory = [NSURLCache sharedURLCache].memoryCapacity;
+  return [[NSURLCache alloc] initWithMemoryCapacity:memory
+                                       diskCapacity:maxSize
+                                       directoryURL:directory.length > 0 ? CacheDirectoryURL(directory) : nil];
+}
+
+static NSArray<NSDictionary *> *HeaderList(NSDictionary *fields) {
+  NSMutableArray *headers = [NSMutableArray array];
+  [fields enumerateKeysAndObjectsUsingBlock:^(id name, id value, BOOL *stop) {
+    [headers addObject:@{@"name" : [name description], @"value" : [value description]}];
+  }];
+  return headers;
+}
+
+static NSDictionary *ModeResponse(NSInteger status, NSDictionary *fields, NSData *data) {
+  return @{
+    @"status" : @(status),
+    @"headers" : HeaderList(fields ?: @{}),
+    @"bodyBase64" : [data ?: [NSData data] base64EncodedStringWithOptions:0],
+  };
+}
+
+// The stored headers updated with those of a 304 (RFC 9111 §3.2), which
+// describe the same body; its framing headers don't.
+static NSDictionary *RevalidatedHeaders(NSDictionary *stored, NSDictionary *fresh) {
+  NSMutableDictionary *merged = [stored mutableCopy];
+  NSArray *framing = @[ @"content-length", @"content-encoding", @"transfer-encoding" ];
+  [fresh enumerateKeysAndObjectsUsingBlock:^(id name, id value, BOOL *stop) {
+    NSString *lower = [[name description] lowercaseString];
+    if ([framing containsObject:lower]) {
+      return;
+    }
+    for (id key in [merged allKeys]) {
+      if ([[[key description] lowercaseString] isEqualToString:lower]) {
+        [merged removeObjectForKey:key];
+      }
+    }
+    merged[name] = value;
+  }];
+  return merged;
+}
+
 @implementation RCTHttpCache
 
+// RN's networking creates its NSURLSession, and with it takes the shared
+// cache, on the first request, so a saved configuration has to be in place
+// before then.
++ (void)load {
+  NSUserDefaults *defaults = [NSUserDefaults standardUserDefaults];
+  NSInteger maxSize = [defaults integerForKey:kMaxSizeKey];
+  if (maxSize > 0) {
+    [NSURLCache setSharedURLCache:MakeCache(maxSize, [defaults stringForKey:kDirectoryKey] ?: @"")];
+  }
+}
+
 - (std::shared_ptr<facebook::react::TurboModule>)getTurboModule:(const facebook::react::ObjCTurboModule::InitParams &)params {
   return std::make_shared<facebook::react::NativeHttpCacheSpecJSI>(params);
 }
@@ -11,6 +77,188 @@
   resolve(nil);
 }
 
+// NSURLCache exposes sizes but no hit/miss counters and no way to enumerate
+// its entries, so those are reported as -1 / canEnumerate = NO.
+- (void)getCacheInfo:(RCTPromiseResolveBlock)resolve reject:(RCTPromiseRejectBlock)reject {
+  NSURLCache *cache = [NSURLCache sharedURLCache];
+  NSString *directory = CacheDirectoryURL([[NSUserDefaults standardUserDefaults] stringForKey:kDirectoryKey] ?: @"").path;
+  resolve(@{
+    @"directory" : directory ?: @"",
+    @"size" : @(cache.currentDiskUsage),
+    @"maxSize" : @(cache.diskCapacity),
+    @"hitCount" : @(-1),
+    @"networkCount" : @(-1),
+    @"requestCount" : @(-1),
+    @"canEnumerate" : @NO,
+  });
+}
+
+- (void)listCachedResponses:(RCTPromiseResolveBlock)resolve reject:(RCTPromiseRejectBlock)reject {
+  resolve(@[]);
+}
+
+- (void)getCachedResponse:(NSString *)url resolve:(RCTPromiseResolveBlock)resolve reject:(RCTPromiseRejectBlock)reject {
+  NSURL *nsurl = [NSURL URLWithString:url];
+  if (nsurl == nil) {
+    resolve([NSNull null]);
+    return;
+  }
+  NSCachedURLResponse *cached = [[NSURLCache sharedURLCache] cachedResponseForRequest:[NSURLRequest requestWithURL:nsurl]];
+  if (cached == nil || ![cached.response isKindOfClass:[NSHTTPURLResponse class]]) {
+    resolve([NSNull null]);
+    return;
+  }
+
+  NSHTTPURLResponse *response = (NSHTTPURLResponse *)cached.response;
+  NSArray *headers = HeaderList(response.allHeaderFields);
+
+  // NSCachedURLResponse has no storage timestamp; the Date header is the
+  // closest we get to when the response was received.
+  double storedAt = -1;
+  double ageSeconds = -1;
+  NSString *dateHeader = [response valueForHTTPHeaderField:@"Date"];
+  if (dateHeader != nil) {
+    NSDateFormatter *formatter = [NSDateFormatter new];
+    formatter.locale = [NSLocale localeWithLocaleIdentifier:@"en_US_POSIX"];
+    formatter.timeZone = [NSTimeZone timeZoneWithAbbreviation:@"GMT"];
+    formatter.dateFormat = @"EEE, dd MMM yyyy HH:mm:ss zzz";
+    NSDate *date = [formatter dateFromString:dateHeader];
+    if (date != nil) {
+      storedAt = date.timeIntervalSince1970 * 1000;
+      ageSeconds = -date.timeIntervalSinceNow;
+    }
+  }
+
+  resolve(@{
+    @"url" : url,
+    @"status" : @(response.statusCode),
+    @"headers" : headers,
+    @"storedAt" : @(storedAt),
+    @"ageSeconds" : @(ageSeconds),
+    @"bodySize" : @(cached.data.length),
+  });
+}
+
+- (void)evict:(NSString *)url resolve:(RCTPromiseResolveBlock)resolve reject:(RCTPromiseRejectBlock)reject {
+  NSURL *nsurl = [NSURL URLWithString:url];
+  if (nsurl == nil) {
+    resolve(@NO);
+    return;
+  }
+  NSURLRequest *request = [NSURLRequest requestWithURL:nsurl];
+  NSURLCache *cache = [NSURLCache sharedURLCache];
+  BOOL existed = [cache cachedResponseForRequest:request] != nil;
+  [cache removeCachedResponseForRequest:request];
+  resolve(@(existed));
+}
+
+// The running NSURLSession keeps the cache it was created with, so fetch()
+// moves to the new one on the next launch; fetchWithCacheMode uses it now.
+- (void)configureCache:(double)maxSize
+             directory:(NSString *)directory
+               resolve:(RCTPromiseResolveBlock)resolve
+                reject:(RCTPromiseRejectBlock)reject {
+  if (maxSize <= 0 || [directory hasPrefix:@"/"] || [directory.pathComponents containsObject:@".."]) {
+    reject(@"CACHE_CONFIG_ERROR", @"maxSize must be positive and directory relative, without ..", nil);
+    return;
+  }
+  [NSURLCache setSharedURLCache:MakeCache((NSUInteger)maxSize, directory)];
+  NSUserDefaults *defaults = [NSUserDefaults standardUserDefaults];
+  [defaults setInteger:(NSInteger)maxSize forKey:kMaxSizeKey];
+  [defaults setObject:directory forKey:kDirectoryKey];
+  resolve(@{
+    @"directory" : CacheDirectoryURL(directory).path,
+    @"maxSize" : @(maxSize),
+    @"appliesOnRestart" : @YES,
+  });
+}
+
+// NSURLRequest's cache policies only cover part of fetch()'s modes:
+// 'force-cache' and 'only-if-cached' read the cache directly, and 'no-cache'
+// revalidates by hand, since ReloadRevalidatingCacheData is not implemented.
+- (void)fetchWithCacheMode:(NSString *)url
+                   headers:(NSDictionary *)headers
+                 cacheMode:(NSString *)cacheMode
+                 timeoutMs:(double)timeoutMs
+                   resolve:(RCTPromiseResolveBlock)resolve
+                    reject:(RCTPromiseRejectBlock)reject {
+  NSURL *nsurl = [NSURL URLWithString:url];
+  NSArray *modes = @[ @"default", @"no-cache", @"no-store", @"force-cache", @"only-if-cached" ];
+  if (nsurl == nil || ![modes containsObject:cacheMode]) {
+    reject(@"CACHE_FETCH_ERROR", [NSString stringWithFormat:@"Bad URL or cache mode %@", cacheMode], nil);
+    return;
+  }
+  NSMutableURLRequest *request = [NSMutableURLRequest requestWithURL:nsurl];
+  request.timeoutInterval = timeoutMs / 1000.0;
+  [headers enumerateKeysAndObjectsUsingBlock:^(id name, id value, BOOL *stop) {
+    [request setValue:[value description] forHTTPHeaderField:[name description]];
+  }];
+
+  NSURLCache *cache = [NSURLCache sharedURLCache];
+  NSCachedURLResponse *cached = [cache cachedResponseForRequest:request];
+  NSHTTPURLResponse *cachedResponse =
+      [cached.response isKindOfClass:[NSHTTPURLResponse class]] ? (NSHTTPURLResponse *)cached.response : nil;
+
+  if ([cacheMode isEqualToString:@"only-if-cached"] ||
+      ([cacheMode isEqualToString:@"force-cache"] && cachedResponse != nil)) {
+    if (cachedResponse == nil) {
+      resolve(ModeResponse(504, nil, nil));
+    } else {
+      resolve(ModeResponse(cachedResponse.statusCode, cachedResponse.allHeaderFields, cached.data));
+    }
+    return;
+  }
+
+  // Validators we add ourselves: a 304 to them means the cached copy stands.
+  BOOL revalidating = NO;
+  if ([cacheMode isEqualToString:@"no-cache"] && cachedResponse != nil && headers.count == 0) {
+    NSString *etag = [cachedResponse valueForHTTPHeaderField:@"ETag"];
+    NSString *lastModified = [cachedResponse valueForHTTPHeaderField:@"Last-Modified"];
+    if (etag != nil) {
+      [request setValue:etag forHTTPHeaderField:@"If-None-Match"];
+    }
+    if (lastModified != nil) {
+      [request setValue:lastModified forHTTPHeaderField:@"If-Modified-Since"];
+    }
+    revalidating = etag != nil || lastModified != nil;
+  }
+
+  NSURLSessionConfiguration *configuration = [NSURLSessionConfiguration defaultSessionConfiguration];
+  if ([cacheMode isEqualToString:@"default"]) {
+    configuration.URLCache = cache;
+  } else {
+    request.cachePolicy = NSURLRequestReloadIgnoringLocalCacheData;
+    configuration.URLCache = [cacheMode isEqualToString:@"no-store"] ? nil : cache;
+  }
+  NSURLSession *session = [NSURLSession sessionWithConfiguration:configuration];
+  NSURLSessionDataTask *task =
+      [session dataTaskWithRequest:request
+                 completionHandler:^(NSData *data, NSURLResponse *response, NSError *error) {
+                   if (error != nil || ![response isKindOfClass:[NSHTTPURLResponse class]]) {
+                     reject(@"CACHE_FETCH_ERROR", error.localizedDescription ?: @"Not an HTTP response", error);
+                     return;
+                   }
+                   NSHTTPURLResponse *http = (NSHTTPURLResponse *)response;
+                   if (revalidating && http.statusCode == 304) {
+                     NSDictionary *fields = RevalidatedHeaders(cachedResponse.allHeaderFields, http.allHeaderFields);
+                     NSHTTPURLResponse *updated = [[NSHTTPURLResponse alloc] initWithURL:cachedResponse.URL
+                                                                              statusCode:cachedResponse.statusCode
+                                                                             HTTPVersion:@"HTTP/1.1"
+                                                                            headerFields:fields];
+                     [cache storeCachedResponse:[[NSCachedURLResponse alloc] initWithResponse:updated
+                                                                                          data:cached.data
+                                                                                      userInfo:cached.userInfo
+                                                                                 storagePolicy:cached.storagePolicy]
+                                     forRequest:request];
+                     resolve(ModeResponse(updated.statusCode, fields, cached.data));
+                   } else {
+                     resolve(ModeResponse(http.statusCode, http.allHeaderFields, data));
+                   }
+                 }];
+  [task resume];
+  [session finishTasksAndInvalidate];
+}
+
 + (NSString *)moduleName {
   return @"HttpCache";
 }
@@ -0,0 +1,34 @@
+/* eslint-env jest */
+// The HttpCache TurboModule only exists in the native binary.
+jest.mock('./src/NativeHttpCache', () => ({
+  __esModule: true,
+  default: {
+    clearCache: jest.fn(() => Promise.resolve()),
+    getCacheInfo: jest.fn(() =>
+      Promise.resolve({
+        directory: '',
+        size: 0,
+        maxSize: -1,
+        hitCount: -1,
+        networkCount: -1,
+        requestCount: -1,
+        canEnumerate: true,
+      }),
+    ),
+    listCachedResponses: jest.fn(() => Promise.resolve([])),
+    getCachedResponse: jest.fn(() => Promise.resolve(null)),
+    evict: jest.fn(() => Promise.resolve(false)),
+    configureCache: jest.fn((maxSize, directory) =>
+      Promise.resolve({directory, maxSize, appliesOnRestart: false}),
+    ),
+    fetchWithCacheMode: jest.fn(() => new Promise(() => {})),
+  },
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+// There is no demo server under test; requests the app makes on mount (the
+// asset listing) stay pending instead of failing after the test finishes.
+global.fetch = jest.fn(() => new Promise(() => {}));
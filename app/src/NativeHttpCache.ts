@@ -1,8 +1,67 @@
 import type {TurboModule} from 'react-native';
 import {TurboModuleRegistry} from 'react-native';
 
+// Counters a platform doesn't track are reported as -1.
+export type CacheInfo = {
+  directory: string;
+  size: number;
+  maxSize: number;
+  hitCount: number;
+  networkCount: number;
+  requestCount: number;
+  canEnumerate: boolean;
+};
+
+export type CachedHeader = {
+  name: string;
+  value: string;
+};
+
+export type CachedResponse = {
+  url: string;
+  status: number;
+  headers: CachedHeader[];
+  storedAt: number;
+  ageSeconds: number;
+  bodySize: number;
+};
+
+export type CacheConfig = {
+  directory: string;
+  maxSize: number;
+  /** True when fetch() only picks the configuration up after a restart. */
+  appliesOnRestart: boolean;
+};
+
+export type ModeResponse = {
+  status: number;
+  headers: CachedHeader[];
+  bodyBase64: string;
+};
+
 export interface Spec extends TurboModule {
   clearCache(): Promise<void>;
+  getCacheInfo(): Promise<CacheInfo>;
+  listCachedResponses(): Promise<CachedResponse[]>;
+  getCachedResponse(url: string): Promise<CachedResponse | null>;
+  evict(url: string): Promise<boolean>;
+  /**
+   * Replaces the cache fetch() uses with one of `maxSize` bytes in
+   * `directory` (relative to the app's cache directory; '' for the
+   * platform default). Kept across launches.
+   */
+  configureCache(maxSize: number, directory: string): Promise<CacheConfig>;
+  /**
+   * GETs `url` through the same cache as fetch(), with a fetch() cache mode:
+   * 'default', 'no-cache', 'no-store', 'force-cache' or 'only-if-cached'.
+   * An only-if-cached miss resolves with a 504.
+   */
+  fetchWithCacheMode(
+    url: string,
+    headers: {[name: string]: string},
+    cacheMode: string,
+    timeoutMs: number,
+  ): Promise<ModeResponse>;
 }
 
 export default TurboModuleRegistry.getEnforcing<Spec>('HttpCache');
@@ -1,129 +1,896 @@
 import {sha256} from 'js-sha256';
 import {Buffer} from 'buffer';
 import NativeHttpCache from './NativeHttpCache';
-import type {LottieFetchResult, ImageFetchResult, ImageFormat, Mode, ServerState} from './types';
+import {
+  conditionalHeaders,
+  getCachedAsset,
+  isStorable,
+  putCachedAsset,
+  updateCachedHeaders,
+} from './assetCache';
+import {classifyFetch, serverCount} from './fetchSource';
+import {parseLottie} from './lottie';
+import {unpackDotLottie} from './dotLottie';
+import {applyJsonPatch} from './jsonPatch';
+import {responseError} from './sessions';
+import {
+  request,
+  RequestCancelledError,
+  RequestFailedError,
+  type RequestOptions,
+} from './request';
+import type {
+  LottieFetchResult,
+  ImageFetchResult,
+  DotLottieFetchResult,
+  ImageFormat,
+  Mode,
+  ServerState,
+  AssetKind,
+  AssetInfo,
+  AssetRef,
+  CachePolicy,
+  CachePolicies,
+  ValidationInfo,
+  ValidatorMatch,
+  TransferInfo,
+  HeaderPair,
+  HttpExchange,
+  CompressionSettings,
+  DeltaInfo,
+  RolloutStep,
+  ScheduledVersion,
+  Fault,
+  FaultSpec,
+  ValidatorStrategy,
+  AppCacheOutcome,
+  FetchOptions,
+  FetchSource,
+  AssetManifest,
+  ManifestSyncItem,
+  ManifestSyncResult,
+} from './types';
 
-export async function fetchLottie(
+/** The demo assets, used until the server's `/assets` listing is loaded. */
+export const DEFAULT_ASSETS: AssetRef[] = [
+  {name: 'lottie.json', kind: 'json', path: '/lottie.json'},
+  {name: 'image.png', kind: 'png', path: '/image.png'},
+  {name: 'image.svg', kind: 'svg', path: '/image.svg'},
+  {name: 'demo.lottie', kind: 'lottie', path: '/demo.lottie'},
+];
+
+// Retries for asset fetches after network errors, timeouts and 5xx.
+const ASSET_FETCH_RETRIES = 2;
+// Request counter polls are instrumentation: they fail fast and never retry.
+const STATE_TIMEOUT_MS = 3000;
+
+// Last body hash seen per URL, for classifyFetch's fallback.
+const lastBodySha = new Map<string, string>();
+
+type AssetFetchResult = LottieFetchResult | ImageFetchResult;
+
+// Last good result per URL, for staleOnError.
+const lastGood = new Map<string, {result: AssetFetchResult; fetchedAt: number}>();
+
+function readValidation(headers: Headers): ValidationInfo | null {
+  const matched = headers.get('x-validator-match');
+  if (!matched) {
+    return null;
+  }
+  return {
+    sentIfNoneMatch: headers.get('x-request-if-none-match') || null,
+    sentIfModifiedSince: headers.get('x-request-if-modified-since') || null,
+    matched: matched as ValidatorMatch,
+  };
+}
+
+function readTransfer(headers: Headers, decodedBytes: number): TransferInfo {
+  const encodedLength = headers.get('x-encoded-length');
+  return {
+    contentEncoding:
+      headers.get('x-content-encoding') ?? headers.get('content-encoding'),
+    encodedBytes: encodedLength === null ? null : Number(encodedLength),
+    decodedBytes,
+  };
+}
+
+// Validators the platform cache adds on its own never show up in the request
+// we build, only in the server's echo of it.
+const ECHOED_VALIDATORS = [
+  {name: 'If-None-Match', key: 'sentIfNoneMatch'},
+  {name: 'If-Modified-Since', key: 'sentIfModifiedSince'},
+] as const;
+
+function readExchange(
+  url: string,
+  sent: Record<string, string>,
+  res: Response,
+): HttpExchange {
+  const requestHeaders: HeaderPair[] = Object.entries(sent).map(
+    ([name, value]) => ({name, value}),
+  );
+  const validation = readValidation(res.headers);
+  for (const {name, key} of ECHOED_VALIDATORS) {
+    const value = validation?.[key];
+    if (value && !(name in sent)) {
+      requestHeaders.push({name, value, comment: 'echoed by the server'});
+    }
+  }
+  const responseHeaders: HeaderPair[] = [];
+  res.headers.forEach((value, name) => responseHeaders.push({name, value}));
+  return {url, method: 'GET', requestHeaders, responseHeaders};
+}
+
+function assetRequestCount(
   baseUrl: string,
-  forceRefresh = false,
-): Promise<LottieFetchResult> {
-  const url = `${baseUrl}/lottie.json`;
+  asset: AssetRef,
+): Promise<number | null> {
+  return getServerState(baseUrl).then(
+    state => serverCount(state, asset.name),
+    () => null,
+  );
+}
 
-  if (forceRefresh) {
-    await NativeHttpCache.clearCache();
+function classifySource(
+  url: string,
+  res: Response,
+  counts: {before: number | null; after: number | null},
+  bodySha256: string,
+  attempts: number,
+): FetchSource {
+  const source = classifyFetch({
+    countBefore: counts.before,
+    countAfter: counts.after,
+    attempts,
+    status: res.status,
+    validation: readValidation(res.headers),
+    bodySha256,
+    previousSha256: lastBodySha.get(url) ?? null,
+  });
+  if (bodySha256) {
+    lastBodySha.set(url, bodySha256);
   }
+  return source;
+}
+
+const readJson = (res: Response) => res.json();
+
+// An only-if-cached miss is the cache's own 504, not a server error:
+// retrying can't change it and a stale copy would hide it.
+function cacheOnly(options: FetchOptions): boolean {
+  return options.strategy !== 'app' && options.cacheMode === 'only-if-cached';
+}
+
+function transportOptions(options: FetchOptions): RequestOptions {
+  return {
+    signal: options.signal,
+    timeoutMs: options.timeoutMs,
+    retries: cacheOnly(options) ? 0 : options.retries ?? ASSET_FETCH_RETRIES,
+    // The app strategy keeps its own cache; a mode would only confuse it.
+    cacheMode: options.strategy === 'app' ? undefined : options.cacheMode,
+  };
+}
+
+// A body worth falling back to: a 2xx, or a 304 the app cache filled in.
+function isGoodResult(result: AssetFetchResult): boolean {
+  const ok =
+    (result.status >= 200 && result.status < 300) ||
+    result.appCache === 'revalidated';
+  return ok && ('json' in result ? result.json !== null : !!result.base64);
+}
+
+function staleResult<R extends AssetFetchResult>(
+  stale: {result: R; fetchedAt: number},
+  reason: string,
+  retries: number,
+  fetchTimeMs: number,
+): R {
+  return {
+    ...stale.result,
+    source: 'unknown',
+    validation: null,
+    appCache: null,
+    fetchTimeMs,
+    retries,
+    fallback: {reason, fetchedAt: stale.fetchedAt},
+  };
+}
 
+/**
+ * Runs an asset fetch and remembers good results. With `staleOnError`, a
+ * fetch that fails outright or ends in a 5xx returns the last good result
+ * for the URL instead, marked as a fallback. Cancellation always throws,
+ * and an only-if-cached fetch never falls back.
+ */
+async function withStaleFallback<R extends AssetFetchResult>(
+  url: string,
+  options: FetchOptions,
+  run: () => Promise<R>,
+): Promise<R> {
+  // The URL fixes the kind of asset, so a stored result has the same type.
+  const stale = lastGood.get(url) as {result: R; fetchedAt: number} | undefined;
+  const fallback = options.staleOnError && !cacheOnly(options);
   const start = Date.now();
-  const res = await fetch(url);
-  const bodyText = await res.text();
-  const fetchTimeMs = Date.now() - start;
+  let result: R;
+  try {
+    result = await run();
+  } catch (e: unknown) {
+    if (!fallback || !stale || e instanceof RequestCancelledError) {
+      throw e;
+    }
+    const failed = e instanceof RequestFailedError;
+    return staleResult(
+      stale,
+      failed ? e.reason : e instanceof Error ? e.message : String(e),
+      failed ? e.attempts - 1 : 0,
+      Date.now() - start,
+    );
+  }
+  if (isGoodResult(result)) {
+    lastGood.set(url, {result, fetchedAt: Date.now()});
+  } else if (fallback && stale && result.status >= 500) {
+    return staleResult(
+      stale,
+      `HTTP ${result.status}`,
+      result.retries,
+      result.fetchTimeMs,
+    );
+  }
+  return result;
+}
 
-  const bodySha256 = sha256(bodyText);
-  let json: Record<string, unknown> | null = null;
-  let demoVersion: number | null = null;
+// Tells options.onSettled how a fetch that just started ends, then passes
+// the outcome on.
+async function reported<R extends AssetFetchResult>(
+  asset: AssetRef,
+  url: string,
+  forced: boolean,
+  options: FetchOptions,
+  fetching: Promise<R>,
+): Promise<R> {
+  const startedAt = Date.now();
+  const settle = (result: R | null, error: unknown) =>
+    options.onSettled?.({
+      asset,
+      url,
+      forced,
+      strategy: options.strategy ?? 'native',
+      cacheMode: transportOptions(options).cacheMode ?? 'default',
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      result,
+      error,
+    });
   try {
-    json = JSON.parse(bodyText);
-    demoVersion =
-      typeof json?.demoVersion === 'number' ? json.demoVersion : null;
-  } catch {
-    // body wasn't valid JSON
+    const result = await fetching;
+    settle(result, null);
+    return result;
+  } catch (e: unknown) {
+    settle(null, e);
+    throw e;
   }
+}
 
-  return {
-    status: res.status,
+function readRequestId(headers: Headers): number | null {
+  const id = Number(headers.get('x-request-id'));
+  return id > 0 ? id : null;
+}
+
+async function storeInAppCache(
+  url: string,
+  res: Response,
+  body: string,
+  encoding: 'utf8' | 'base64',
+): Promise<AppCacheOutcome> {
+  const cacheControl = res.headers.get('cache-control');
+  if (!res.ok || !isStorable(cacheControl)) {
+    return 'not-stored';
+  }
+  const stored = await putCachedAsset({
+    url,
+    body,
+    encoding,
+    etag: res.headers.get('etag'),
+    lastModified: res.headers.get('last-modified'),
+    cacheControl,
+    fetchedAt: Date.now(),
+  });
+  return stored ? 'stored' : 'not-stored';
+}
+
+function refreshAppCacheHeaders(url: string, res: Response): Promise<void> {
+  return updateCachedHeaders(url, {
     etag: res.headers.get('etag'),
     lastModified: res.headers.get('last-modified'),
     cacheControl: res.headers.get('cache-control'),
-    demoVersion,
-    bodySha256,
-    bodyLength: bodyText.length,
-    fetchTimeMs,
-    json,
-  };
+  });
+}
+
+// Delta encoding (RFC 3229) with JSON Patch; see "Delta updates" in the
+// server.
+const DELTA_IM = 'json-patch';
+
+// The last full Lottie body per URL, for patches under the native strategy;
+// the app strategy patches its own cached copy instead.
+const deltaBases = new Map<string, {etag: string; body: string}>();
+
+/**
+ * Rebuilds the target body from a 226 response. The server serves Lottie
+ * JSON pretty-printed with two spaces, so re-serializing the patched result
+ * the same way gives back the exact bytes X-Delta-Target-SHA256 hashes.
+ */
+function applyDelta(
+  baseBody: string,
+  patchText: string,
+  headers: Headers,
+): {body: string | null; operations: number; error: string | null} {
+  let operations = 0;
+  try {
+    const patch: unknown = JSON.parse(patchText);
+    operations = Array.isArray(patch) ? patch.length : 0;
+    const body = JSON.stringify(
+      applyJsonPatch(JSON.parse(baseBody), patch),
+      null,
+      2,
+    );
+    if (sha256(body) !== headers.get('x-delta-target-sha256')) {
+      return {body: null, operations, error: 'SHA-256 mismatch after patching'};
+    }
+    return {body, operations, error: null};
+  } catch (e: unknown) {
+    return {
+      body: null,
+      operations,
+      error: e instanceof Error ? e.message : String(e),
+    };
+  }
 }
 
-export async function fetchImage(
+export async function fetchLottie(
+  baseUrl: string,
+  forceRefresh = false,
+  options: FetchOptions = {},
+): Promise<LottieFetchResult> {
+  const asset = options.asset ?? DEFAULT_ASSETS[0];
+  const url = `${baseUrl}${asset.path}`;
+  const useAppCache = options.strategy === 'app';
+
+  const fetching = withStaleFallback(url, options, async () => {
+    if (forceRefresh) {
+      await NativeHttpCache.clearCache();
+    }
+
+    // Under the app strategy we revalidate our own copy explicitly; a forced
+    // fetch skips it so the server sends a full body.
+    const entry =
+      useAppCache && !forceRefresh ? await getCachedAsset(url) : null;
+
+    const headers = conditionalHeaders(entry);
+    // A patch needs the body it applies to: our cached copy under the app
+    // strategy, otherwise the last full body fetched for the URL.
+    let deltaBase: {etag: string; body: string} | null = null;
+    if (options.delta && useAppCache) {
+      deltaBase = entry?.etag ? {etag: entry.etag, body: entry.body} : null;
+    } else if (options.delta && !forceRefresh) {
+      deltaBase = deltaBases.get(url) ?? null;
+    }
+    if (deltaBase) {
+      headers['If-None-Match'] = deltaBase.etag;
+      headers['A-IM'] = DELTA_IM;
+    }
+    const before = await assetRequestCount(baseUrl, asset);
+    const start = Date.now();
+    let {res, body: bodyText, attempts} = await request(url, r => r.text(), {
+      headers,
+      ...transportOptions(options),
+    });
+    let sent = headers;
+
+    let delta: DeltaInfo | null = null;
+    if (res.status === 226 && deltaBase) {
+      const patchBytes = Buffer.byteLength(bodyText, 'utf8');
+      const fullLength = res.headers.get('x-full-length');
+      const fullBytes = fullLength === null ? null : Number(fullLength);
+      const applied = applyDelta(deltaBase.body, bodyText, res.headers);
+      delta = {
+        outcome: applied.body === null ? 'fallback' : 'applied',
+        baseEtag: res.headers.get('delta-base'),
+        operations: applied.operations,
+        patchBytes,
+        fullBytes,
+        bytesSaved:
+          applied.body === null ? -patchBytes : (fullBytes ?? 0) - patchBytes,
+        error: applied.error,
+      };
+      if (applied.body !== null) {
+        bodyText = applied.body;
+      } else {
+        // The patch is useless without its base; ask for the whole body.
+        const full = await request(url, r => r.text(), transportOptions(options));
+        res = full.res;
+        bodyText = full.body;
+        attempts += full.attempts;
+        sent = {};
+      }
+    } else if (res.status === 304 && deltaBase && !entry) {
+      // Our own If-None-Match matched, so the native cache passes the 304 on.
+      bodyText = deltaBase.body;
+    }
+    const fetchTimeMs = Date.now() - start;
+    const after = await assetRequestCount(baseUrl, asset);
+
+    const etag = res.headers.get('etag');
+    if (res.ok && etag) {
+      deltaBases.set(url, {etag, body: bodyText});
+    }
+
+    let appCache: AppCacheOutcome | null = null;
+    if (useAppCache) {
+      if (res.status === 304 && entry) {
+        bodyText = entry.body;
+        await refreshAppCacheHeaders(url, res);
+        appCache = 'revalidated';
+      } else {
+        appCache = await storeInAppCache(url, res, bodyText, 'utf8');
+      }
+    }
+
+    const bodySha256 = sha256(bodyText);
+    const parseStart = Date.now();
+    let json: Record<string, unknown> | null = null;
+    let demoVersion: number | null = null;
+    try {
+      json = JSON.parse(bodyText);
+      demoVersion =
+        typeof json?.demoVersion === 'number' ? json.demoVersion : null;
+    } catch {
+      // body wasn't valid JSON
+    }
+    const {animation, issues: lottieIssues} =
+      json === null
+        ? {
+            animation: null,
+            issues: [{path: '', message: 'body is not valid JSON'}],
+          }
+        : parseLottie(json);
+    const parseMs = Date.now() - parseStart;
+
+    return {
+      status: res.status,
+      etag: res.headers.get('etag'),
+      lastModified: res.headers.get('last-modified'),
+      cacheControl: res.headers.get('cache-control'),
+      expires: res.headers.get('expires'),
+      vary: res.headers.get('vary'),
+      date: res.headers.get('date'),
+      age: res.headers.get('age'),
+      validation: readValidation(res.headers),
+      appCache,
+      serverRequestId: readRequestId(res.headers),
+      source: classifySource(url, res, {before, after}, bodySha256, attempts),
+      demoVersion,
+      bodySha256,
+      bodyLength: bodyText.length,
+      transfer: readTransfer(res.headers, Buffer.byteLength(bodyText, 'utf8')),
+      fetchTimeMs,
+      receivedAt: start + fetchTimeMs,
+      retries: attempts - 1,
+      fallback: null,
+      exchange: readExchange(url, sent, res),
+      parseMs,
+      delta,
+      json,
+      animation,
+      lottieIssues,
+    };
+  });
+  return reported(asset, url, forceRefresh, options, fetching);
+}
+
+export function fetchImage(
   baseUrl: string,
   format: ImageFormat,
   forceRefresh = false,
+  options: FetchOptions = {},
 ): Promise<ImageFetchResult> {
-  const url = `${baseUrl}/image.${format}`;
+  const asset = options.asset ?? {
+    name: `image.${format}`,
+    kind: format,
+    path: `/image.${format}`,
+  };
+  return fetchBinary(baseUrl, asset, forceRefresh, options);
+}
 
-  if (forceRefresh) {
-    await NativeHttpCache.clearCache();
-  }
+// Images and archives: the body is kept as base64, in the app cache too.
+async function fetchBinary(
+  baseUrl: string,
+  asset: AssetRef,
+  forceRefresh: boolean,
+  options: FetchOptions,
+): Promise<ImageFetchResult> {
+  const url = `${baseUrl}${asset.path}`;
+  const useAppCache = options.strategy === 'app';
 
-  const start = Date.now();
-  const res = await fetch(url);
-  const fetchTimeMs = Date.now() - start;
+  const fetching = withStaleFallback(url, options, async () => {
+    if (forceRefresh) {
+      await NativeHttpCache.clearCache();
+    }
 
-  // Handle 304 Not Modified
-  if (res.status === 304) {
-    return {
-      status: 304,
+    const entry =
+      useAppCache && !forceRefresh ? await getCachedAsset(url) : null;
+
+    const headers = conditionalHeaders(entry);
+    const before = await assetRequestCount(baseUrl, asset);
+    const start = Date.now();
+    const {res, body, attempts} = await request(
+      url,
+      r => (r.status === 304 ? Promise.resolve(null) : r.arrayBuffer()),
+      {headers, ...transportOptions(options)},
+    );
+    const fetchTimeMs = Date.now() - start;
+    const after = await assetRequestCount(baseUrl, asset);
+
+    const common = {
       etag: res.headers.get('etag'),
       lastModified: res.headers.get('last-modified'),
       cacheControl: res.headers.get('cache-control'),
-      bodySha256: '',
-      bodyLength: 0,
+      expires: res.headers.get('expires'),
+      vary: res.headers.get('vary'),
+      date: res.headers.get('date'),
+      age: res.headers.get('age'),
+      validation: readValidation(res.headers),
+      serverRequestId: readRequestId(res.headers),
       fetchTimeMs,
-      base64: null,
+      receivedAt: start + fetchTimeMs,
+      retries: attempts - 1,
+      fallback: null,
+      exchange: readExchange(url, headers, res),
     };
-  }
 
-  const arrayBuffer = await res.arrayBuffer();
-  const bytes = new Uint8Array(arrayBuffer);
-  const base64 = Buffer.from(bytes).toString('base64');
-  const bodySha256 = sha256(bytes);
+    // Handle 304 Not Modified
+    if (body === null) {
+      if (entry) {
+        await refreshAppCacheHeaders(url, res);
+        const cachedBytes = Buffer.from(entry.body, 'base64');
+        const cachedSha = sha256(cachedBytes);
+        return {
+          ...common,
+          status: 304,
+          appCache: 'revalidated',
+          source: classifySource(url, res, {before, after}, cachedSha, attempts),
+          bodySha256: cachedSha,
+          bodyLength: cachedBytes.length,
+          transfer: readTransfer(res.headers, cachedBytes.length),
+          base64: entry.body,
+        };
+      }
+      return {
+        ...common,
+        status: 304,
+        appCache: useAppCache ? 'not-stored' : null,
+        source: classifySource(url, res, {before, after}, '', attempts),
+        bodySha256: '',
+        bodyLength: 0,
+        transfer: readTransfer(res.headers, 0),
+        base64: null,
+      };
+    }
+
+    const bytes = new Uint8Array(body);
+    const base64 = Buffer.from(bytes).toString('base64');
+    const bodySha256 = sha256(bytes);
+    const appCache = useAppCache
+      ? await storeInAppCache(url, res, base64, 'base64')
+      : null;
+
+    return {
+      ...common,
+      status: res.status,
+      appCache,
+      source: classifySource(url, res, {before, after}, bodySha256, attempts),
+      bodySha256,
+      bodyLength: body.byteLength,
+      transfer: readTransfer(res.headers, body.byteLength),
+      base64,
+    };
+  });
+  return reported(asset, url, forceRefresh, options, fetching);
+}
+
+/**
+ * Fetches a .lottie archive, checks its SHA-256 against the server's
+ * manifest and unpacks it. A body that can't be unpacked is reported in
+ * `archiveError` rather than thrown, like an invalid Lottie.
+ */
+export async function fetchDotLottie(
+  baseUrl: string,
+  forceRefresh = false,
+  options: FetchOptions = {},
+): Promise<DotLottieFetchResult> {
+  const asset =
+    options.asset ?? DEFAULT_ASSETS.find(a => a.kind === 'lottie')!;
+  const result = await fetchBinary(baseUrl, asset, forceRefresh, options);
+  const expectedSha256 = await fetchManifest(baseUrl, {
+    signal: options.signal,
+    retries: 0,
+  }).then(
+    manifest => manifest.assets.find(a => a.name === asset.name)?.sha256 ?? null,
+    () => null,
+  );
 
+  let archive = null;
+  let archiveError = null;
+  if (result.base64) {
+    try {
+      archive = unpackDotLottie(Buffer.from(result.base64, 'base64'));
+    } catch (e: unknown) {
+      archiveError = e instanceof Error ? e.message : String(e);
+    }
+  }
   return {
-    status: res.status,
-    etag: res.headers.get('etag'),
-    lastModified: res.headers.get('last-modified'),
-    cacheControl: res.headers.get('cache-control'),
-    bodySha256,
-    bodyLength: arrayBuffer.byteLength,
-    fetchTimeMs,
-    base64,
+    ...result,
+    expectedSha256,
+    verified:
+      expectedSha256 && result.bodySha256
+        ? result.bodySha256 === expectedSha256
+        : null,
+    archive,
+    archiveError,
   };
 }
 
+/** Fetches a registered asset as Lottie, image or archive by its kind. */
+export function fetchAsset(
+  baseUrl: string,
+  asset: AssetRef,
+  forceRefresh = false,
+  options: FetchOptions = {},
+): Promise<LottieFetchResult | ImageFetchResult | DotLottieFetchResult> {
+  switch (asset.kind) {
+    case 'json':
+      return fetchLottie(baseUrl, forceRefresh, {...options, asset});
+    case 'lottie':
+      return fetchDotLottie(baseUrl, forceRefresh, {...options, asset});
+    default:
+      return fetchBinary(baseUrl, asset, forceRefresh, options);
+  }
+}
+
+export async function listAssets(baseUrl: string): Promise<AssetInfo[]> {
+  const {res, body} = await request(`${baseUrl}/assets`, readJson, {
+    retries: 1,
+  });
+  if (!res.ok) {
+    throw responseError(res, body);
+  }
+  return body.assets;
+}
+
+export async function fetchManifest(
+  baseUrl: string,
+  options: FetchOptions = {},
+): Promise<AssetManifest> {
+  const {res, body} = await request(
+    `${baseUrl}/manifest.json`,
+    r => (r.ok ? r.json() : Promise.resolve(null)),
+    transportOptions(options),
+  );
+  if (!res.ok) {
+    throw new Error(`Manifest: HTTP ${res.status}`);
+  }
+  return body;
+}
+
+/**
+ * Updates assets through the manifest: downloads only those whose hash
+ * differs from `current`, and accepts a body only if its SHA-256 matches the
+ * manifest's. A mismatch usually means a cache served an outdated body.
+ */
+export async function syncFromManifest(
+  baseUrl: string,
+  current: Record<string, string | undefined>,
+  options: FetchOptions = {},
+): Promise<ManifestSyncResult> {
+  const manifest = await fetchManifest(baseUrl, options);
+  const items: ManifestSyncItem[] = [];
+
+  // One at a time, so each download's source classification stays exact.
+  for (const entry of manifest.assets) {
+    const asset = {name: entry.name, kind: entry.asset, path: entry.path};
+    const base = {asset, expectedSha256: entry.sha256};
+    if (current[entry.name] === entry.sha256) {
+      items.push({...base, outcome: 'unchanged', result: null, error: null});
+      continue;
+    }
+    try {
+      const result = await fetchAsset(baseUrl, asset, false, options);
+      items.push({
+        ...base,
+        outcome: result.bodySha256 === entry.sha256 ? 'updated' : 'mismatch',
+        result,
+        error: null,
+      });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      items.push({...base, outcome: 'error', result: null, error: msg});
+    }
+  }
+
+  return {manifest, items};
+}
+
 export async function flipVersion(baseUrl: string): Promise<{version: number}> {
-  const res = await fetch(`${baseUrl}/flip`, {method: 'POST'});
-  return res.json();
+  const {res, body} = await request(`${baseUrl}/flip`, readJson, {
+    method: 'POST',
+  });
+  if (!res.ok) {
+    throw responseError(res, body);
+  }
+  return body;
+}
+
+/** Serves `version` of every asset; the server derives versions past v2. */
+export async function setVersion(
+  baseUrl: string,
+  version: number,
+): Promise<{version: number; versions: number[]}> {
+  const {res, body} = await request(`${baseUrl}/version`, readJson, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({version}),
+  });
+  if (!res.ok) {
+    throw responseError(res, body);
+  }
+  return body;
+}
+
+/** Replaces the server's rollout schedule; an empty list cancels it. */
+export async function setRolloutSchedule(
+  baseUrl: string,
+  steps: RolloutStep[],
+): Promise<{schedule: ScheduledVersion[]}> {
+  const {res, body} = await request(`${baseUrl}/schedule`, readJson, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({steps}),
+  });
+  if (!res.ok) {
+    throw responseError(res, body);
+  }
+  return body;
 }
 
 export async function setMode(
   baseUrl: string,
   mode: Mode,
 ): Promise<{mode: string}> {
-  const res = await fetch(`${baseUrl}/mode`, {
+  const {res, body} = await request(`${baseUrl}/mode`, readJson, {
     method: 'POST',
     headers: {'Content-Type': 'application/json'},
     body: JSON.stringify({mode}),
   });
-  return res.json();
+  if (!res.ok) {
+    throw responseError(res, body);
+  }
+  return body;
+}
+
+/**
+ * Sets the policy for every asset, for one kind, or, given a registered
+ * asset name, for that asset alone.
+ */
+export async function setPolicy(
+  baseUrl: string,
+  policy: CachePolicy,
+  asset?: AssetKind | string,
+): Promise<{
+  policies: CachePolicies;
+  assetPolicies: Record<string, CachePolicy>;
+}> {
+  const {res, body} = await request(`${baseUrl}/policy`, readJson, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({policy, asset}),
+  });
+  if (!res.ok) {
+    throw responseError(res, body);
+  }
+  return body;
+}
+
+export async function setValidators(
+  baseUrl: string,
+  options: {validators?: ValidatorStrategy; weak?: boolean},
+): Promise<{validators: ValidatorStrategy; weakETags: boolean}> {
+  const {res, body} = await request(`${baseUrl}/validators`, readJson, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify(options),
+  });
+  if (!res.ok) {
+    throw responseError(res, body);
+  }
+  return body;
+}
+
+export async function setCompression(
+  baseUrl: string,
+  settings: Partial<CompressionSettings>,
+): Promise<{compression: CompressionSettings}> {
+  const {res, body} = await request(`${baseUrl}/compression`, readJson, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify(settings),
+  });
+  if (!res.ok) {
+    throw responseError(res, body);
+  }
+  return body;
+}
+
+export async function addFault(
+  baseUrl: string,
+  spec: FaultSpec,
+): Promise<Fault> {
+  const {res, body} = await request(`${baseUrl}/faults`, readJson, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify(spec),
+  });
+  if (!res.ok) {
+    throw responseError(res, body);
+  }
+  return body;
+}
+
+/** Removes one fault by id, or every fault when `id` is omitted. */
+export async function clearFaults(
+  baseUrl: string,
+  id?: number,
+): Promise<{faults: Fault[]}> {
+  const path = id === undefined ? '/faults' : `/faults/${id}`;
+  const {res, body} = await request(`${baseUrl}${path}`, readJson, {
+    method: 'DELETE',
+  });
+  if (!res.ok) {
+    throw responseError(res, body);
+  }
+  return body;
 }
 
 export async function setLastModified(
   baseUrl: string,
   iso: string,
 ): Promise<{lastModified: string}> {
-  const res = await fetch(`${baseUrl}/lastModified`, {
+  const {res, body} = await request(`${baseUrl}/lastModified`, readJson, {
     method: 'POST',
     headers: {'Content-Type': 'application/json'},
     body: JSON.stringify({iso}),
   });
-  return res.json();
+  if (!res.ok) {
+    throw responseError(res, body);
+  }
+  return body;
 }
 
 export async function getServerState(
   baseUrl: string,
 ): Promise<ServerState> {
-  const res = await fetch(`${baseUrl}/state`);
-  return res.json();
+  const {res, body} = await request(`${baseUrl}/state`, readJson, {
+    timeoutMs: STATE_TIMEOUT_MS,
+  });
+  if (!res.ok) {
+    throw responseError(res, body);
+  }
+  return body;
 }
 
 export async function resetServer(baseUrl: string): Promise<void> {
-  await fetch(`${baseUrl}/reset`, {method: 'POST'});
+  const {res, body} = await request(`${baseUrl}/reset`, readJson, {
+    method: 'POST',
+  });
+  if (!res.ok) {
+    throw responseError(res, body);
+  }
 }
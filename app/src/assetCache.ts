@@ -0,0 +1,158 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type {AssetCacheEntry, AssetCacheStats} from './types';
+
+// JS-side content cache: bodies live under one key each, and a single index
+// key holds the metadata used for conditional requests and LRU eviction.
+const INDEX_KEY = 'assetCache:index';
+const BODY_PREFIX = 'assetCache:body:';
+
+type EntryMeta = Omit<AssetCacheEntry, 'body'>;
+
+let limits = {
+  maxBytes: 5 * 1024 * 1024,
+  maxEntries: 50,
+};
+
+let indexPromise: Promise<Record<string, EntryMeta>> | null = null;
+
+function loadIndex(): Promise<Record<string, EntryMeta>> {
+  if (!indexPromise) {
+    indexPromise = AsyncStorage.getItem(INDEX_KEY)
+      .then(raw => (raw ? JSON.parse(raw) : {}))
+      .catch(() => ({}));
+  }
+  return indexPromise;
+}
+
+async function saveIndex(index: Record<string, EntryMeta>): Promise<void> {
+  await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index));
+}
+
+async function evict(index: Record<string, EntryMeta>): Promise<void> {
+  const byAge = Object.values(index).sort(
+    (a, b) => a.lastAccessedAt - b.lastAccessedAt,
+  );
+  let total = byAge.reduce((sum, e) => sum + e.size, 0);
+  let count = byAge.length;
+  const evicted: string[] = [];
+  for (const entry of byAge) {
+    if (total <= limits.maxBytes && count <= limits.maxEntries) {
+      break;
+    }
+    delete index[entry.url];
+    evicted.push(BODY_PREFIX + entry.url);
+    total -= entry.size;
+    count--;
+  }
+  if (evicted.length > 0) {
+    await AsyncStorage.multiRemove(evicted);
+  }
+}
+
+export function configureAssetCache(options: {
+  maxBytes?: number;
+  maxEntries?: number;
+}): void {
+  limits = {...limits, ...options};
+}
+
+/** Returns the stored entry for a URL and marks it as recently used. */
+export async function getCachedAsset(
+  url: string,
+): Promise<AssetCacheEntry | null> {
+  const index = await loadIndex();
+  const meta = index[url];
+  if (!meta) {
+    return null;
+  }
+  const body = await AsyncStorage.getItem(BODY_PREFIX + url);
+  if (body === null) {
+    // Body was lost (e.g. storage cleared externally); drop the stale metadata.
+    delete index[url];
+    await saveIndex(index);
+    return null;
+  }
+  meta.lastAccessedAt = Date.now();
+  await saveIndex(index);
+  return {...meta, body};
+}
+
+/**
+ * Stores a body, evicting least recently used entries to stay within the
+ * configured limits. Bodies larger than the whole cache are not stored.
+ */
+export async function putCachedAsset(
+  entry: Omit<AssetCacheEntry, 'size' | 'lastAccessedAt'>,
+): Promise<boolean> {
+  const size = entry.body.length;
+  if (size > limits.maxBytes) {
+    return false;
+  }
+  const index = await loadIndex();
+  const {body, ...meta} = entry;
+  index[entry.url] = {...meta, size, lastAccessedAt: Date.now()};
+  await evict(index);
+  await AsyncStorage.setItem(BODY_PREFIX + entry.url, body);
+  await saveIndex(index);
+  return true;
+}
+
+/** Applies the headers of a 304 to a stored entry, per RFC 9111 §4.3.4. */
+export async function updateCachedHeaders(
+  url: string,
+  headers: Partial<
+    Pick<AssetCacheEntry, 'etag' | 'lastModified' | 'cacheControl'>
+  >,
+): Promise<void> {
+  const index = await loadIndex();
+  const meta = index[url];
+  if (!meta) {
+    return;
+  }
+  for (const [key, value] of Object.entries(headers)) {
+    if (value) {
+      (meta as Record<string, unknown>)[key] = value;
+    }
+  }
+  await saveIndex(index);
+}
+
+export async function clearAssetCache(): Promise<void> {
+  const index = await loadIndex();
+  await AsyncStorage.multiRemove([
+    INDEX_KEY,
+    ...Object.keys(index).map(url => BODY_PREFIX + url),
+  ]);
+  indexPromise = null;
+}
+
+export async function getAssetCacheStats(): Promise<AssetCacheStats> {
+  const entries = Object.values(await loadIndex()).sort(
+    (a, b) => b.lastAccessedAt - a.lastAccessedAt,
+  );
+  return {
+    entries,
+    totalBytes: entries.reduce((sum, e) => sum + e.size, 0),
+    maxBytes: limits.maxBytes,
+    maxEntries: limits.maxEntries,
+  };
+}
+
+/** Conditional request headers for revalidating a stored entry. */
+export function conditionalHeaders(
+  entry: AssetCacheEntry | null,
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (entry?.etag) {
+    headers['If-None-Match'] = entry.etag;
+  }
+  if (entry?.lastModified) {
+    headers['If-Modified-Since'] = entry.lastModified;
+  }
+  return headers;
+}
+
+/** Whether a response's Cache-Control allows us to keep a copy at all. */
+export function isStorable(cacheControl: string | null): boolean {
+  return !/(^|,)\s*no-store\s*(,|$)/i.test(cacheControl ?? '');
+}
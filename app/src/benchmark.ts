@@ -0,0 +1,307 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NativeHttpCache from './NativeHttpCache';
+import {fetchAsset, getServerState, setMode, setPolicy} from './api';
+import {clearAssetCache} from './assetCache';
+import {serverCount} from './fetchSource';
+import {RequestCancelledError} from './request';
+import type {
+  AssetRef,
+  BenchmarkCell,
+  BenchmarkComparisonRow,
+  BenchmarkConfig,
+  BenchmarkDevice,
+  BenchmarkPhase,
+  BenchmarkRun,
+  FetchOptions,
+  FetchSource,
+  Mode,
+  TimingStats,
+} from './types';
+
+// Finished runs, kept on the device and shareable as JSON so runs from other
+// devices can be imported next to them.
+const BENCHMARK_KEY = 'benchmarks:runs';
+const BENCHMARK_LIMIT = 20;
+
+export interface RunBenchmarkOptions {
+  device: BenchmarkDevice;
+  signal?: AbortSignal;
+  /** Called before each fetch, warm-up fetches included. */
+  onProgress?: (done: number, total: number, label: string) => void;
+  /** Passed on to every fetch; see FetchOptions. */
+  onSettled?: FetchOptions['onSettled'];
+}
+
+// Nearest-rank percentile of sorted values.
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function summarizeTimings(values: number[]): TimingStats | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((total, value) => total + value, 0);
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    max: sorted[sorted.length - 1],
+    mean: Math.round((sum / sorted.length) * 10) / 10,
+  };
+}
+
+export function describeTimings(stats: TimingStats | null): string {
+  return stats
+    ? `${stats.min}/${stats.p50}/${stats.p95}/${stats.max} ms`
+    : 'no timings';
+}
+
+function clearCaches(): Promise<unknown> {
+  return Promise.all([NativeHttpCache.clearCache(), clearAssetCache()]);
+}
+
+function requestCount(
+  baseUrl: string,
+  asset: AssetRef,
+): Promise<number | null> {
+  return getServerState(baseUrl).then(
+    state => serverCount(state, asset.name),
+    () => null,
+  );
+}
+
+function benchmarkId(startedAt: number): string {
+  return `${startedAt.toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Fetches every asset `iterations` times under each server mode, cold and
+ * warm, through the given cache strategy. A fetch that fails is counted and
+ * the run carries on; cancellation rejects. The server's cache policies,
+ * per-asset overrides included, are put back afterwards.
+ */
+export async function runBenchmark(
+  baseUrl: string,
+  config: BenchmarkConfig,
+  options: RunBenchmarkOptions,
+): Promise<BenchmarkRun> {
+  const {signal, onProgress, onSettled} = options;
+  const startedAt = Date.now();
+  const perPhase = (phase: BenchmarkPhase) =>
+    config.iterations + (phase === 'warm' ? 1 : 0);
+  const total =
+    config.modes.length *
+    config.assets.length *
+    config.phases.reduce((sum, phase) => sum + perPhase(phase), 0);
+  let done = 0;
+
+  const original = await getServerState(baseUrl).then(
+    state => ({
+      policies: state.policies,
+      assetPolicies: state.assetPolicies ?? {},
+    }),
+    () => null,
+  );
+  const cells: BenchmarkCell[] = [];
+  try {
+    for (const mode of config.modes) {
+      await setMode(baseUrl, mode);
+      for (const asset of config.assets) {
+        for (const phase of config.phases) {
+          const fetchOnce = () => {
+            if (signal?.aborted) {
+              throw new RequestCancelledError();
+            }
+            onProgress?.(done++, total, `${mode} · ${asset.name} · ${phase}`);
+            return fetchAsset(baseUrl, asset, false, {
+              strategy: config.strategy,
+              signal,
+              retries: 0,
+              onSettled,
+            });
+          };
+          cells.push(
+            await measure(baseUrl, mode, asset, phase, config, fetchOnce),
+          );
+        }
+      }
+    }
+  } finally {
+    if (original) {
+      // Kinds first: the mode presets cleared the overrides, and setting a
+      // kind leaves them alone.
+      const targets = [
+        ...Object.entries(original.policies),
+        ...Object.entries(original.assetPolicies),
+      ];
+      for (const [asset, policy] of targets) {
+        try {
+          await setPolicy(baseUrl, policy, asset);
+        } catch {
+          // Best effort: the run's results stand either way.
+        }
+      }
+    }
+  }
+  onProgress?.(total, total, 'done');
+
+  return {
+    id: benchmarkId(startedAt),
+    startedAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    serverUrl: baseUrl,
+    device: options.device,
+    iterations: config.iterations,
+    strategy: config.strategy,
+    cells,
+  };
+}
+
+async function measure(
+  baseUrl: string,
+  mode: Mode,
+  asset: AssetRef,
+  phase: BenchmarkPhase,
+  config: BenchmarkConfig,
+  fetchOnce: () => ReturnType<typeof fetchAsset>,
+): Promise<BenchmarkCell> {
+  const sources: Record<FetchSource, number> = {
+    cache: 0,
+    revalidated: 0,
+    network: 0,
+    unknown: 0,
+  };
+  const times: number[] = [];
+  let bytes = 0;
+  let errors = 0;
+
+  await clearCaches();
+  if (phase === 'warm') {
+    await fetchOnce().catch((e: unknown) => {
+      if (e instanceof RequestCancelledError) {
+        throw e;
+      }
+    });
+  }
+  const before = await requestCount(baseUrl, asset);
+  for (let i = 0; i < config.iterations; i++) {
+    if (phase === 'cold' && i > 0) {
+      await clearCaches();
+    }
+    try {
+      const result = await fetchOnce();
+      times.push(result.fetchTimeMs);
+      sources[result.source]++;
+      if (result.source !== 'cache' && result.source !== 'revalidated') {
+        bytes += result.transfer.encodedBytes ?? result.transfer.decodedBytes;
+      }
+    } catch (e: unknown) {
+      if (e instanceof RequestCancelledError) {
+        throw e;
+      }
+      errors++;
+    }
+  }
+  const after = await requestCount(baseUrl, asset);
+
+  return {
+    mode,
+    asset: asset.name,
+    kind: asset.kind,
+    phase,
+    timing: summarizeTimings(times),
+    bytes,
+    serverRequests: before !== null && after !== null ? after - before : null,
+    sources,
+    errors,
+  };
+}
+
+function cellKey(cell: BenchmarkCell): string {
+  return `${cell.mode} · ${cell.asset} · ${cell.phase}`;
+}
+
+/** Lines up the cells of several runs by mode, asset and phase. */
+export function compareBenchmarkRuns(
+  runs: BenchmarkRun[],
+): BenchmarkComparisonRow[] {
+  const keys: string[] = [];
+  for (const run of runs) {
+    for (const cell of run.cells) {
+      if (!keys.includes(cellKey(cell))) {
+        keys.push(cellKey(cell));
+      }
+    }
+  }
+  return keys.map(key => ({
+    key,
+    cells: runs.map(run => run.cells.find(c => cellKey(c) === key) ?? null),
+  }));
+}
+
+export function describeBenchmarkRun(run: BenchmarkRun): string {
+  const {platform, osVersion, reactNative} = run.device;
+  return `${platform} ${osVersion} · RN ${reactNative} · ${run.strategy} · ×${run.iterations}`;
+}
+
+export async function loadBenchmarkRuns(): Promise<BenchmarkRun[]> {
+  try {
+    const raw = await AsyncStorage.getItem(BENCHMARK_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveBenchmarkRuns(
+  runs: BenchmarkRun[],
+): Promise<BenchmarkRun[]> {
+  const kept = runs.slice(-BENCHMARK_LIMIT);
+  await AsyncStorage.setItem(BENCHMARK_KEY, JSON.stringify(kept));
+  return kept;
+}
+
+/** Adds runs, replacing any with the same id; the oldest go beyond the limit. */
+export async function addBenchmarkRuns(
+  runs: BenchmarkRun[],
+): Promise<BenchmarkRun[]> {
+  const ids = new Set(runs.map(r => r.id));
+  const stored = await loadBenchmarkRuns();
+  return saveBenchmarkRuns([...stored.filter(r => !ids.has(r.id)), ...runs]);
+}
+
+export async function deleteBenchmarkRun(id: string): Promise<BenchmarkRun[]> {
+  return saveBenchmarkRuns(
+    (await loadBenchmarkRuns()).filter(r => r.id !== id),
+  );
+}
+
+function isBenchmarkRun(value: unknown): value is BenchmarkRun {
+  const run = value as BenchmarkRun | null;
+  return (
+    typeof run?.id === 'string' &&
+    typeof run.device?.platform === 'string' &&
+    Array.isArray(run.cells)
+  );
+}
+
+/**
+ * Reads runs exported from this or another device: one run or a list. Throws
+ * when the text isn't JSON or holds anything else.
+ */
+export function parseBenchmarkRuns(text: string): BenchmarkRun[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('not valid JSON');
+  }
+  const runs = Array.isArray(json) ? json : [json];
+  if (runs.length === 0 || !runs.every(isBenchmarkRun)) {
+    throw new Error('expected exported benchmark runs');
+  }
+  return runs;
+}
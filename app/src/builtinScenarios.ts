@@ -0,0 +1,265 @@
+import type {Scenario} from './types';
+
+// The cases we keep re-checking by hand after RN / OkHttp upgrades.
+// Expectations describe the behaviour documented in the README and
+// docs/IOS_HEURISTIC_CACHING.md; a failure means the platform cache changed.
+export const BUILTIN_SCENARIOS: Scenario[] = [
+  {
+    name: 'Mode A: heuristic cache hides a flip',
+    description:
+      'No Cache-Control and an old Last-Modified: the second fetch and the ' +
+      'fetch after a flip are served from cache with the v1 body.',
+    steps: [
+      {action: 'reset'},
+      {
+        action: 'fetch',
+        asset: 'json',
+        id: 'first',
+        expect: [
+          {type: 'status', equals: 200},
+          {type: 'demoVersion', equals: 1},
+          {type: 'serverHit', equals: true},
+        ],
+      },
+      {
+        action: 'fetch',
+        asset: 'json',
+        expect: [{type: 'serverHit', equals: false}],
+      },
+      {action: 'flip'},
+      {
+        action: 'fetch',
+        asset: 'json',
+        expect: [
+          {type: 'serverHit', equals: false},
+          {type: 'shaUnchanged', since: 'first'},
+          {type: 'demoVersion', equals: 1},
+        ],
+      },
+    ],
+  },
+  {
+    name: 'Mode B: max-age expiry picks up a flip',
+    description:
+      'Within max-age=30 the cached v1 is served; after 31s the client ' +
+      'revalidates and gets v2.',
+    steps: [
+      {action: 'reset'},
+      {action: 'setMode', mode: 'B'},
+      {
+        action: 'fetch',
+        asset: 'json',
+        id: 'first',
+        expect: [
+          {type: 'status', equals: 200},
+          {type: 'demoVersion', equals: 1},
+        ],
+      },
+      {action: 'flip'},
+      {
+        action: 'fetch',
+        asset: 'json',
+        expect: [
+          {type: 'serverHit', equals: false},
+          {type: 'shaUnchanged', since: 'first'},
+        ],
+      },
+      {action: 'wait', seconds: 31},
+      {
+        action: 'fetch',
+        asset: 'json',
+        expect: [
+          {type: 'serverHit', equals: true},
+          {type: 'shaChanged', since: 'first'},
+          {type: 'demoVersion', equals: 2},
+        ],
+      },
+    ],
+  },
+  {
+    name: 'Force fetch bypasses the cache',
+    description: 'Clearing the native cache always reaches the server.',
+    steps: [
+      {action: 'reset'},
+      {action: 'fetch', asset: 'json', id: 'first'},
+      {action: 'flip'},
+      {
+        action: 'fetch',
+        asset: 'json',
+        force: true,
+        expect: [
+          {type: 'serverHit', equals: true},
+          {type: 'shaChanged', since: 'first'},
+          {type: 'demoVersion', equals: 2},
+        ],
+      },
+    ],
+  },
+  {
+    name: 'Mode B: images revalidate without changing',
+    description:
+      'PNG and SVG are re-requested after max-age and come back identical.',
+    steps: [
+      {action: 'reset'},
+      {action: 'setMode', mode: 'B'},
+      {action: 'fetch', asset: 'png', id: 'png'},
+      {action: 'fetch', asset: 'svg', id: 'svg'},
+      {action: 'wait', seconds: 31},
+      {
+        action: 'fetch',
+        asset: 'png',
+        expect: [
+          {type: 'serverHit', equals: true},
+          {type: 'shaUnchanged', since: 'png'},
+        ],
+      },
+      {
+        action: 'fetch',
+        asset: 'svg',
+        expect: [
+          {type: 'serverHit', equals: true},
+          {type: 'shaUnchanged', since: 'svg'},
+        ],
+      },
+    ],
+  },
+  {
+    name: 'Mode A: recent Last-Modified keeps content fresh',
+    description:
+      'With Last-Modified set to now the heuristic lifetime is ~0, so a ' +
+      'flip is visible on the next fetch.',
+    steps: [
+      {action: 'reset'},
+      {action: 'setLastModified', iso: 'now'},
+      {action: 'fetch', asset: 'json', id: 'first'},
+      {action: 'wait', seconds: 2},
+      {action: 'flip'},
+      {
+        action: 'fetch',
+        asset: 'json',
+        expect: [
+          {type: 'serverHit', equals: true},
+          {type: 'shaChanged', since: 'first'},
+          {type: 'demoVersion', equals: 2},
+        ],
+      },
+    ],
+  },
+  {
+    name: 'no-cache: every fetch revalidates',
+    description:
+      'With Cache-Control: no-cache the body may be stored, but each use ' +
+      'must reach the server first.',
+    steps: [
+      {action: 'reset'},
+      {action: 'setPolicy', policy: {noCache: true}},
+      {action: 'fetch', asset: 'json', id: 'first'},
+      {
+        action: 'fetch',
+        asset: 'json',
+        expect: [
+          {type: 'serverHit', equals: true},
+          {type: 'shaUnchanged', since: 'first'},
+        ],
+      },
+      {action: 'flip'},
+      {
+        action: 'fetch',
+        asset: 'json',
+        expect: [
+          {type: 'serverHit', equals: true},
+          {type: 'demoVersion', equals: 2},
+        ],
+      },
+    ],
+  },
+  {
+    name: 'Last-Modified only: date revalidation',
+    description:
+      'With no ETag the client must fall back to If-Modified-Since, and ' +
+      'the server answers 304 from the date alone.',
+    steps: [
+      {action: 'reset'},
+      {action: 'setValidators', validators: 'last-modified'},
+      {action: 'setPolicy', policy: {noCache: true}},
+      {action: 'fetch', asset: 'json', id: 'first'},
+      {
+        action: 'fetch',
+        asset: 'json',
+        expect: [
+          {type: 'serverHit', equals: true},
+          {type: 'validatorMatched', equals: 'last-modified'},
+          {type: 'shaUnchanged', since: 'first'},
+        ],
+      },
+    ],
+  },
+  {
+    name: 'Weak ETags still revalidate',
+    description: 'A W/"…" ETag must produce a 304 on revalidation.',
+    steps: [
+      {action: 'reset'},
+      {action: 'setValidators', validators: 'etag', weak: true},
+      {action: 'setPolicy', policy: {noCache: true}},
+      {action: 'fetch', asset: 'json', id: 'first'},
+      {
+        action: 'fetch',
+        asset: 'json',
+        expect: [
+          {type: 'serverHit', equals: true},
+          {type: 'validatorMatched', equals: 'etag'},
+          {type: 'shaUnchanged', since: 'first'},
+        ],
+      },
+    ],
+  },
+  {
+    name: 'Compressed responses still revalidate',
+    description:
+      'With gzip/br on, the ETag names the encoding; the platform cache ' +
+      'must send it back and get a 304 for the same encoding.',
+    steps: [
+      {action: 'reset'},
+      {action: 'setCompression', encodings: ['br', 'gzip']},
+      {action: 'setPolicy', policy: {noCache: true}},
+      {action: 'fetch', asset: 'json', id: 'first'},
+      {
+        action: 'fetch',
+        asset: 'json',
+        expect: [
+          {type: 'serverHit', equals: true},
+          {type: 'validatorMatched', equals: 'etag'},
+          {type: 'shaUnchanged', since: 'first'},
+        ],
+      },
+    ],
+  },
+  {
+    name: 'App cache: 304 still yields a body',
+    description:
+      'Our own cache sends If-None-Match itself and serves the stored ' +
+      'body when the server answers 304.',
+    steps: [
+      {action: 'reset'},
+      {action: 'setPolicy', policy: {noCache: true}},
+      {
+        action: 'fetch',
+        asset: 'png',
+        strategy: 'app',
+        force: true,
+        id: 'first',
+      },
+      {
+        action: 'fetch',
+        asset: 'png',
+        strategy: 'app',
+        expect: [
+          {type: 'status', equals: 304},
+          {type: 'serverHit', equals: true},
+          {type: 'validatorMatched', equals: 'etag'},
+          {type: 'shaUnchanged', since: 'first'},
+        ],
+      },
+    ],
+  },
+];
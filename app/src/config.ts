@@ -1,10 +1,11 @@
 import {Platform} from 'react-native';
 
 // Android emulator uses 10.0.2.2 to reach host machine's localhost.
-// iOS simulator can use the LAN IP directly.
+// iOS simulator shares the host's network, so localhost works there.
+// Devices and other machines are reached through saved server profiles.
 const DEFAULT_HOST = Platform.select({
   android: '10.0.2.2',
-  ios: '192.168.50.7',
+  ios: 'localhost',
 }) as string;
 
 export const DEFAULT_SERVER_URL = `http://${DEFAULT_HOST}:3000`;
@@ -0,0 +1,100 @@
+import {fetchDotLottie, fetchLottie} from './api';
+import {hasExternalImages, resolveLottieImages} from './lottieImages';
+import {RequestCancelledError} from './request';
+import type {
+  AssetRef,
+  DeliveryComparison,
+  DeliveryStats,
+  FetchOptions,
+  TransferInfo,
+} from './types';
+
+function emptyStats(): DeliveryStats {
+  return {
+    requests: 0,
+    bytes: 0,
+    cacheHits: 0,
+    failed: 0,
+    fetchMs: 0,
+    parseMs: 0,
+  };
+}
+
+function wireBytes(transfer: TransferInfo): number {
+  return transfer.encodedBytes ?? transfer.decodedBytes;
+}
+
+/**
+ * Delivers the same animations twice through the current cache strategy: as
+ * one .lottie archive, then as separate requests for each animation's JSON
+ * (`<id>.json`, as the server names the sources of its demo archive) and
+ * every image it references.
+ */
+export async function compareDelivery(
+  baseUrl: string,
+  archiveAsset: AssetRef,
+  options: FetchOptions = {},
+): Promise<DeliveryComparison> {
+  const result = await fetchDotLottie(baseUrl, false, {
+    ...options,
+    asset: archiveAsset,
+  });
+  if (!result.archive) {
+    throw new Error(result.archiveError ?? `HTTP ${result.status}, no archive`);
+  }
+  const archive: DeliveryStats = {
+    requests: 1,
+    bytes: wireBytes(result.transfer),
+    cacheHits: result.source === 'cache' ? 1 : 0,
+    failed: 0,
+    fetchMs: result.fetchTimeMs,
+    parseMs: result.archive.unzipMs + result.archive.parseMs,
+  };
+
+  const separate = emptyStats();
+  const missing: string[] = [];
+  for (const {id} of result.archive.manifest.animations) {
+    const asset: AssetRef = {
+      name: `${id}.json`,
+      kind: 'json',
+      path: `/assets/${id}.json`,
+    };
+    let lottie;
+    try {
+      lottie = await fetchLottie(baseUrl, false, {...options, asset});
+    } catch (e: unknown) {
+      if (e instanceof RequestCancelledError) {
+        throw e;
+      }
+      separate.requests++;
+      separate.failed++;
+      continue;
+    }
+    if (lottie.status === 404) {
+      missing.push(id);
+      continue;
+    }
+    separate.requests++;
+    separate.bytes += wireBytes(lottie.transfer);
+    separate.cacheHits += lottie.source === 'cache' ? 1 : 0;
+    separate.fetchMs += lottie.fetchTimeMs;
+    separate.parseMs += lottie.parseMs;
+    if (!lottie.animation || !hasExternalImages(lottie.animation)) {
+      continue;
+    }
+    const report = await resolveLottieImages(
+      lottie.animation,
+      `${baseUrl}${asset.path}`,
+      baseUrl,
+      options,
+    );
+    for (const image of report.images) {
+      separate.requests++;
+      separate.bytes += image.encodedBytes ?? image.bytes;
+      separate.fetchMs += image.fetchTimeMs;
+    }
+    separate.cacheHits += report.cacheHits;
+    separate.failed += report.failed;
+  }
+  return {archive, separate, missing};
+}
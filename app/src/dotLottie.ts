@@ -0,0 +1,120 @@
+import {strFromU8, unzipSync} from 'fflate';
+import {Buffer} from 'buffer';
+import {IMAGE_MIME_TYPES, parseLottie} from './lottie';
+import type {
+  DotLottieAnimationEntry,
+  DotLottieArchive,
+  DotLottieManifest,
+  LottieAnimation,
+} from './types';
+
+// .lottie archives (https://dotlottie.io/structure/): manifest.json at the
+// root, animations/<id>.json, and the images they reference under images/.
+const MANIFEST_PATH = 'manifest.json';
+
+function readManifest(files: Record<string, Uint8Array>): DotLottieManifest {
+  const bytes = files[MANIFEST_PATH];
+  if (!bytes) {
+    throw new Error('archive has no manifest.json');
+  }
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(strFromU8(bytes));
+  } catch {
+    throw new Error('manifest.json is not valid JSON');
+  }
+  const animations = (manifest as DotLottieManifest | null)?.animations;
+  if (
+    !Array.isArray(animations) ||
+    !animations.every(a => typeof a?.id === 'string')
+  ) {
+    throw new Error('manifest.json needs an "animations" list with ids');
+  }
+  return manifest as DotLottieManifest;
+}
+
+// Images inside the archive are referenced from the archive root, e.g.
+// `u: "/images/"`; they are embedded so LottieView needs no file access.
+function embedImages(
+  animation: LottieAnimation,
+  files: Record<string, Uint8Array>,
+): LottieAnimation {
+  if (!animation.assets) {
+    return animation;
+  }
+  const assets = animation.assets.map(asset => {
+    if (!asset.p || asset.e === 1) {
+      return asset;
+    }
+    const path = `${asset.u ?? ''}${asset.p}`.replace(/^\.?\//, '');
+    const bytes = files[path];
+    if (!bytes) {
+      return asset;
+    }
+    const mime =
+      IMAGE_MIME_TYPES[asset.p.split('.').pop()?.toLowerCase() ?? ''] ??
+      'application/octet-stream';
+    const data = Buffer.from(bytes).toString('base64');
+    return {...asset, u: '', p: `data:${mime};base64,${data}`, e: 1};
+  });
+  return {...animation, assets};
+}
+
+function readAnimation(
+  id: string,
+  files: Record<string, Uint8Array>,
+): DotLottieAnimationEntry {
+  const bytes = files[`animations/${id}.json`];
+  if (!bytes) {
+    return {
+      id,
+      animation: null,
+      issues: [{path: '', message: `animations/${id}.json is missing`}],
+    };
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(strFromU8(bytes));
+  } catch {
+    return {
+      id,
+      animation: null,
+      issues: [{path: '', message: 'body is not valid JSON'}],
+    };
+  }
+  const {animation, issues} = parseLottie(json);
+  return {id, animation: animation && embedImages(animation, files), issues};
+}
+
+/**
+ * Unzips a .lottie archive and validates every animation its manifest lists.
+ * Throws when the bytes aren't a zip or the manifest is unusable; a broken
+ * animation is reported in its entry instead.
+ */
+export function unpackDotLottie(bytes: Uint8Array): DotLottieArchive {
+  const unzipStart = Date.now();
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes);
+  } catch {
+    throw new Error('body is not a zip archive');
+  }
+  const unzipMs = Date.now() - unzipStart;
+
+  const parseStart = Date.now();
+  const manifest = readManifest(files);
+  const animations = manifest.animations.map(({id}) =>
+    readAnimation(id, files),
+  );
+  const parseMs = Date.now() - parseStart;
+
+  return {
+    manifest,
+    animations,
+    files: Object.entries(files)
+      .filter(([path]) => !path.endsWith('/'))
+      .map(([path, data]) => ({path, bytes: data.length})),
+    unzipMs,
+    parseMs,
+  };
+}
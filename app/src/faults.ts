@@ -0,0 +1,41 @@
+import type {Fault, FaultSpec} from './types';
+
+// The faults offered in the Faults panel. Error and latency faults come in
+// the variants worth comparing; the server accepts other delays too.
+export const FAULT_PRESETS: {name: string; spec: FaultSpec}[] = [
+  {name: '+3s latency', spec: {type: 'latency', delayMs: 3000}},
+  {name: '+15s latency', spec: {type: 'latency', delayMs: 15000}},
+  {name: '500', spec: {type: 'error', status: 500}},
+  {name: '503', spec: {type: 'error', status: 503}},
+  {name: 'Connection reset', spec: {type: 'reset'}},
+  {name: 'Truncated body', spec: {type: 'truncate'}},
+  {name: 'Short Content-Length', spec: {type: 'wrong-length'}},
+  {name: 'Wrong ETag', spec: {type: 'etag-mismatch'}},
+  {name: 'Unasked 304', spec: {type: 'unsolicited-304'}},
+];
+
+/** How often an injected fault fires. */
+export const FAULT_ODDS: {
+  name: string;
+  spec: Pick<FaultSpec, 'once' | 'probability'>;
+}[] = [
+  {name: 'Once', spec: {once: true}},
+  {name: '50%', spec: {probability: 0.5}},
+  {name: 'Always', spec: {probability: 1}},
+];
+
+/** One-line summary matching the server's log, e.g. "error 503 on all (once)". */
+export function describeFault(fault: Fault): string {
+  const detail =
+    fault.type === 'latency'
+      ? ` ${fault.delayMs}ms`
+      : fault.type === 'error'
+      ? ` ${fault.status}`
+      : '';
+  const odds = fault.once
+    ? 'once'
+    : fault.probability < 1
+    ? `${Math.round(fault.probability * 100)}%`
+    : 'always';
+  return `${fault.type}${detail} on ${fault.asset ?? 'all'} (${odds})`;
+}
@@ -0,0 +1,62 @@
+import type {FetchSource, ServerState, ValidationInfo} from './types';
+
+/** Requests the server has served for a registered asset, from `/state`. */
+export function serverCount(state: ServerState, name: string): number | null {
+  return state.assetCounts?.[name] ?? null;
+}
+
+export interface FetchObservation {
+  /** Server count for the asset before and after the fetch; null if unknown. */
+  countBefore: number | null;
+  countAfter: number | null;
+  /** Requests the fetch made, retries included; defaults to 1. */
+  attempts?: number;
+  status: number;
+  validation: ValidationInfo | null;
+  bodySha256: string;
+  /** Hash of the last body seen for this URL, if any. */
+  previousSha256: string | null;
+}
+
+/**
+ * Works out where a response body came from. The platform cache turns 304s
+ * into 200s, so the status alone can't tell; the server's request counter
+ * can. A counter that moved by more than the number of attempts means other
+ * traffic hit the server meanwhile, and the fetch can't be attributed.
+ */
+export function classifyFetch(o: FetchObservation): FetchSource {
+  if (o.countBefore === null || o.countAfter === null) {
+    return 'unknown';
+  }
+  const delta = o.countAfter - o.countBefore;
+  if (delta === 0) {
+    return 'cache';
+  }
+  if (delta !== (o.attempts ?? 1)) {
+    return 'unknown';
+  }
+  if (o.status === 304) {
+    return 'revalidated';
+  }
+  if (o.validation) {
+    return o.validation.matched === 'none' ? 'network' : 'revalidated';
+  }
+  // No X-Validator-Match echo: only a body that changed proves a download.
+  if (o.previousSha256 !== null && o.previousSha256 !== o.bodySha256) {
+    return 'network';
+  }
+  return 'unknown';
+}
+
+export function describeFetchSource(source: FetchSource): string {
+  switch (source) {
+    case 'cache':
+      return 'cache hit (server not contacted)';
+    case 'revalidated':
+      return 'revalidated (304)';
+    case 'network':
+      return 'network download';
+    case 'unknown':
+      return 'unknown';
+  }
+}
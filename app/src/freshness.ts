@@ -0,0 +1,210 @@
+import type {
+  Freshness,
+  FreshnessPrediction,
+  ImageFetchResult,
+  LifetimeSource,
+  LottieFetchResult,
+} from './types';
+
+// RFC 9111 §4.2.2 leaves the heuristic to the cache; OkHttp and NSURLCache
+// both use 10% of the time since Last-Modified, as the RFC suggests.
+const HEURISTIC_FRACTION = 0.1;
+
+// Statuses that are heuristically cacheable (RFC 9110 §15.1).
+const HEURISTICALLY_CACHEABLE = [
+  200, 203, 204, 206, 300, 301, 308, 404, 405, 410, 414, 501,
+];
+
+/** The parts of a response that decide its freshness. */
+export interface FreshnessInput {
+  status: number;
+  cacheControl: string | null;
+  expires: string | null;
+  lastModified: string | null;
+  etag: string | null;
+  date: string | null;
+  age: string | null;
+  /** When the request was sent and the response arrived (device clock, ms). */
+  requestTime: number;
+  responseTime: number;
+}
+
+export function freshnessInput(
+  result: LottieFetchResult | ImageFetchResult,
+): FreshnessInput {
+  return {
+    status: result.status,
+    cacheControl: result.cacheControl,
+    expires: result.expires,
+    lastModified: result.lastModified,
+    etag: result.etag,
+    date: result.date,
+    age: result.age,
+    requestTime: result.receivedAt - result.fetchTimeMs,
+    responseTime: result.receivedAt,
+  };
+}
+
+/** Directive names lowercased; valueless directives map to true. */
+export function parseCacheControl(
+  header: string | null,
+): Record<string, string | true> {
+  const directives: Record<string, string | true> = {};
+  for (const part of (header ?? '').split(',')) {
+    const [name, ...rest] = part.split('=');
+    const key = name.trim().toLowerCase();
+    if (!key) {
+      continue;
+    }
+    directives[key] =
+      rest.length > 0 ? rest.join('=').trim().replace(/^"|"$/g, '') : true;
+  }
+  return directives;
+}
+
+function parseSeconds(value: string | true | null | undefined): number | null {
+  return typeof value === 'string' && /^\d+$/.test(value.trim())
+    ? Number(value)
+    : null;
+}
+
+function parseDate(value: string | null): number | null {
+  const time = value ? Date.parse(value) : NaN;
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Freshness lifetime as a private cache sees it (RFC 9111 §4.2.1):
+ * max-age, then Expires minus Date, then the Last-Modified heuristic.
+ * s-maxage only applies to shared caches.
+ */
+function freshnessLifetime(
+  input: FreshnessInput,
+  directives: Record<string, string | true>,
+  status: number,
+): {seconds: number; source: LifetimeSource} {
+  const maxAge = parseSeconds(directives['max-age']);
+  if (maxAge !== null) {
+    return {seconds: maxAge, source: 'max-age'};
+  }
+  const date = parseDate(input.date) ?? input.responseTime;
+  if (input.expires !== null) {
+    // An invalid Expires (e.g. "0") means already expired (RFC 9111 §5.3).
+    const expires = parseDate(input.expires);
+    return {
+      seconds: expires === null ? 0 : Math.max(0, (expires - date) / 1000),
+      source: 'expires',
+    };
+  }
+  const lastModified = parseDate(input.lastModified);
+  if (lastModified !== null && HEURISTICALLY_CACHEABLE.includes(status)) {
+    return {
+      seconds: Math.max(0, ((date - lastModified) / 1000) * HEURISTIC_FRACTION),
+      source: 'heuristic',
+    };
+  }
+  return {seconds: 0, source: 'none'};
+}
+
+/** Current age of the stored response (RFC 9111 §4.2.3). */
+function currentAge(input: FreshnessInput, now: number): number {
+  const date = parseDate(input.date) ?? input.responseTime;
+  const apparentAge = Math.max(0, input.responseTime - date) / 1000;
+  const responseDelay = (input.responseTime - input.requestTime) / 1000;
+  const correctedAgeValue = (parseSeconds(input.age) ?? 0) + responseDelay;
+  const correctedInitialAge = Math.max(apparentAge, correctedAgeValue);
+  return correctedInitialAge + (now - input.responseTime) / 1000;
+}
+
+/**
+ * Works out how fresh a response is at `now` and what a private cache should
+ * do with the next request for it. stale-while-revalidate is ignored: neither
+ * OkHttp nor NSURLCache implements it.
+ */
+export function computeFreshness(
+  input: FreshnessInput,
+  now: number = Date.now(),
+): Freshness {
+  // A 304 stands for the stored 200 it refreshed.
+  const status = input.status === 304 ? 200 : input.status;
+  const directives = parseCacheControl(input.cacheControl);
+  const noStore = directives['no-store'] !== undefined;
+  const noCache = directives['no-cache'] !== undefined;
+  const {seconds: lifetimeSeconds, source: lifetimeSource} = freshnessLifetime(
+    input,
+    directives,
+    status,
+  );
+  const storable =
+    !noStore &&
+    (HEURISTICALLY_CACHEABLE.includes(status) || lifetimeSource !== 'none');
+  const ageSeconds = currentAge(input, now);
+  const remainingSeconds = lifetimeSeconds - ageSeconds;
+
+  let prediction: FreshnessPrediction;
+  if (!storable) {
+    prediction = 'refetch';
+  } else if (!noCache && remainingSeconds > 0) {
+    prediction = 'cache';
+  } else if (input.etag !== null || input.lastModified !== null) {
+    prediction = 'revalidate';
+  } else {
+    prediction = 'refetch';
+  }
+
+  return {
+    storable,
+    noCache,
+    lifetimeSeconds,
+    lifetimeSource,
+    ageSeconds,
+    remainingSeconds,
+    prediction,
+  };
+}
+
+/**
+ * What the platform cache actually did for a fetch: answered it alone, sent
+ * a conditional request, or sent an unconditional one. Null when the source
+ * couldn't be classified.
+ */
+export function observedBehaviour(
+  result: Pick<LottieFetchResult, 'source' | 'validation'>,
+): FreshnessPrediction | null {
+  if (result.source === 'cache') {
+    return 'cache';
+  }
+  if (result.source === 'unknown') {
+    return null;
+  }
+  if (result.validation) {
+    const {sentIfNoneMatch, sentIfModifiedSince} = result.validation;
+    return sentIfNoneMatch || sentIfModifiedSince ? 'revalidate' : 'refetch';
+  }
+  return result.source === 'revalidated' ? 'revalidate' : 'refetch';
+}
+
+export function describePrediction(prediction: FreshnessPrediction): string {
+  switch (prediction) {
+    case 'cache':
+      return 'served from cache';
+    case 'revalidate':
+      return 'revalidated with the server';
+    case 'refetch':
+      return 'downloaded again';
+  }
+}
+
+export function formatDuration(seconds: number): string {
+  const s = Math.floor(Math.abs(seconds));
+  if (s < 60) {
+    return `${s} s`;
+  }
+  if (s < 3600) {
+    return `${Math.floor(s / 60)} min ${s % 60} s`;
+  }
+  if (s < 86400) {
+    return `${Math.floor(s / 3600)} h ${Math.floor((s % 3600) / 60)} min`;
+  }
+  return `${Math.floor(s / 86400)} d ${Math.floor((s % 86400) / 3600)} h`;
+}
@@ -0,0 +1,137 @@
+import {Buffer} from 'buffer';
+import NativeHttpCache from './NativeHttpCache';
+import type {CachedResponse} from './NativeHttpCache';
+import type {
+  CacheMode,
+  NativeCacheConfig,
+  NativeCacheInfo,
+  NativeCachedResponse,
+} from './types';
+
+// A directory below the app's cache directory: no absolute paths, no `..`.
+const DIRECTORY_PATTERN = /^(?!\/)(?!.*(^|\/)\.\.(\/|$))[\w./-]*$/;
+
+function orNull(value: number): number | null {
+  return value < 0 ? null : value;
+}
+
+function toCachedResponse(raw: CachedResponse): NativeCachedResponse {
+  const headers: Record<string, string> = {};
+  for (const {name, value} of raw.headers) {
+    headers[name.toLowerCase()] = value;
+  }
+  return {
+    url: raw.url,
+    status: raw.status,
+    headers,
+    storedAt: raw.storedAt > 0 ? new Date(raw.storedAt) : null,
+    ageSeconds: orNull(raw.ageSeconds),
+    bodySize: orNull(raw.bodySize),
+  };
+}
+
+export async function getNativeCacheInfo(): Promise<NativeCacheInfo> {
+  const info = await NativeHttpCache.getCacheInfo();
+  return {
+    directory: info.directory,
+    size: info.size,
+    maxSize: orNull(info.maxSize),
+    hitCount: orNull(info.hitCount),
+    networkCount: orNull(info.networkCount),
+    requestCount: orNull(info.requestCount),
+    canEnumerate: info.canEnumerate,
+  };
+}
+
+export async function getNativeCachedResponse(
+  url: string,
+): Promise<NativeCachedResponse | null> {
+  const raw = await NativeHttpCache.getCachedResponse(url);
+  return raw ? toCachedResponse(raw) : null;
+}
+
+/**
+ * Lists what the platform cache holds. NSURLCache can't be enumerated, so on
+ * iOS the given URLs are looked up one by one instead.
+ */
+export async function listNativeCachedResponses(
+  knownUrls: string[],
+): Promise<NativeCachedResponse[]> {
+  const info = await NativeHttpCache.getCacheInfo();
+  if (info.canEnumerate) {
+    const all = await NativeHttpCache.listCachedResponses();
+    return all.map(toCachedResponse);
+  }
+  const found = await Promise.all(knownUrls.map(getNativeCachedResponse));
+  return found.filter((r): r is NativeCachedResponse => r !== null);
+}
+
+/** Removes a single URL from the platform cache; false if it wasn't stored. */
+export function evictNativeCachedResponse(url: string): Promise<boolean> {
+  return NativeHttpCache.evict(url);
+}
+
+/**
+ * Gives fetch() a platform cache of `maxSize` bytes in `directory`, relative
+ * to the app's cache directory ('' for the default one). Throws on a size or
+ * directory the native module would reject.
+ */
+export function configureNativeCache(
+  maxSize: number,
+  directory: string,
+): Promise<NativeCacheConfig> {
+  if (!Number.isInteger(maxSize) || maxSize <= 0) {
+    throw new Error('Cache size must be a positive number of bytes');
+  }
+  const dir = directory.trim();
+  if (!DIRECTORY_PATTERN.test(dir)) {
+    throw new Error('Use a relative directory without ".."');
+  }
+  return NativeHttpCache.configureCache(maxSize, dir);
+}
+
+// whatwg-fetch reads an ArrayBuffer body as Latin-1; text() decodes UTF-8.
+class CacheModeResponse extends Response {
+  private readonly bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array, init: ResponseInit) {
+    // A copy: the decoded bytes may sit in a larger, shared buffer. A 304
+    // must not have a body at all.
+    super(bytes.length > 0 ? new Uint8Array(bytes).buffer : null, init);
+    this.bytes = bytes;
+  }
+
+  text(): Promise<string> {
+    return Promise.resolve(Buffer.from(this.bytes).toString('utf8'));
+  }
+
+  json(): Promise<unknown> {
+    return this.text().then(JSON.parse);
+  }
+}
+
+/**
+ * GETs `url` through the platform cache with a fetch() cache mode, which
+ * fetch() itself ignores on React Native, and returns the result as a
+ * Response. The native request can't be cancelled; callers stop waiting.
+ */
+export async function fetchWithCacheMode(
+  url: string,
+  cacheMode: CacheMode,
+  options: {headers?: Record<string, string>; timeoutMs: number},
+): Promise<Response> {
+  const raw = await NativeHttpCache.fetchWithCacheMode(
+    url,
+    options.headers ?? {},
+    cacheMode,
+    options.timeoutMs,
+  );
+  const headers = new Headers();
+  for (const {name, value} of raw.headers) {
+    headers.append(name, value);
+  }
+  return new CacheModeResponse(Buffer.from(raw.bodyBase64, 'base64'), {
+    status: raw.status,
+    headers,
+  });
+}
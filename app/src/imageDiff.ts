@@ -0,0 +1,343 @@
+import {decodePng} from './png';
+import type {DecodedImage, PixelDiff, SvgChange} from './types';
+
+// Overlay colors: changed pixels, and how much of the unchanged ones shows.
+const CHANGED = [244, 67, 54];
+const DIM = 0.35;
+
+function pixelAt(image: DecodedImage, x: number, y: number): number | null {
+  return x < image.width && y < image.height ? (y * image.width + x) * 4 : null;
+}
+
+/**
+ * Compares two images pixel by pixel on the larger of their two sizes. A
+ * pixel has changed when any of its RGBA values differs or only one image
+ * covers it, so a body that was only re-encoded shows 0 changed pixels.
+ */
+export function diffPixels(
+  before: DecodedImage,
+  after: DecodedImage,
+): PixelDiff {
+  const width = Math.max(before.width, after.width);
+  const height = Math.max(before.height, after.height);
+  const rgba = new Uint8Array(width * height * 4);
+  let changedPixels = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const a = pixelAt(before, x, y);
+      const b = pixelAt(after, x, y);
+      const out = (y * width + x) * 4;
+      if (a === null && b === null) {
+        continue;
+      }
+      const changed =
+        a === null ||
+        b === null ||
+        before.rgba[a] !== after.rgba[b] ||
+        before.rgba[a + 1] !== after.rgba[b + 1] ||
+        before.rgba[a + 2] !== after.rgba[b + 2] ||
+        before.rgba[a + 3] !== after.rgba[b + 3];
+      if (changed) {
+        changedPixels++;
+        rgba.set(CHANGED, out);
+      } else {
+        const {rgba: src} = after;
+        const luma = 0.299 * src[b] + 0.587 * src[b + 1] + 0.114 * src[b + 2];
+        rgba.fill(Math.round(luma * DIM), out, out + 3);
+      }
+      rgba[out + 3] = 255;
+    }
+  }
+  const totalPixels = width * height;
+  return {
+    width,
+    height,
+    before: {width: before.width, height: before.height},
+    after: {width: after.width, height: after.height},
+    changedPixels,
+    totalPixels,
+    changedPercent:
+      totalPixels === 0
+        ? 0
+        : Math.round((changedPixels / totalPixels) * 10000) / 100,
+    overlay: {width, height, rgba},
+  };
+}
+
+/** Decodes two PNG bodies and compares them; throws if either won't decode. */
+export function diffPng(before: Uint8Array, after: Uint8Array): PixelDiff {
+  return diffPixels(decodePng(before), decodePng(after));
+}
+
+interface SvgElement {
+  name: string;
+  attributes: [string, string][];
+  children: SvgElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1].toLowerCase() === 'x'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parses SVG markup into its element tree. Comments, processing instructions
+ * and the doctype are skipped; text is whitespace-collapsed. Throws on tags
+ * that don't nest or a document without a root element.
+ */
+export function parseSvg(xml: string): SvgElement {
+  const root: SvgElement = {name: '', attributes: [], children: [], text: ''};
+  const stack = [root];
+  const addText = (raw: string) => {
+    const text = raw.replace(/\s+/g, ' ').trim();
+    if (text) {
+      const parent = stack[stack.length - 1];
+      parent.text = parent.text ? `${parent.text} ${text}` : text;
+    }
+  };
+  // Index just past the next `marker` from `from`.
+  const past = (marker: string, from: number) => {
+    const index = xml.indexOf(marker, from);
+    if (index === -1) {
+      throw new Error(`unterminated markup at offset ${from}`);
+    }
+    return index + marker.length;
+  };
+  let at = 0;
+  while (at < xml.length) {
+    const open = xml.indexOf('<', at);
+    if (open === -1) {
+      addText(decodeEntities(xml.slice(at)));
+      break;
+    }
+    addText(decodeEntities(xml.slice(at, open)));
+    if (xml.startsWith('<!--', open)) {
+      at = past('-->', open);
+    } else if (xml.startsWith('<![CDATA[', open)) {
+      at = past(']]>', open);
+      addText(xml.slice(open + 9, at - 3));
+    } else if (xml.startsWith('<?', open) || xml.startsWith('<!', open)) {
+      at = past('>', open);
+    } else {
+      at = past('>', open);
+      const tag = xml.slice(open + 1, at - 1);
+      if (tag.startsWith('/')) {
+        const name = tag.slice(1).trim();
+        const current = stack.pop();
+        if (!current || current === root || current.name !== name) {
+          throw new Error(
+            `</${name}> does not close <${current?.name || 'nothing'}>`,
+          );
+        }
+        continue;
+      }
+      const name = /^[^\s/>]+/.exec(tag)?.[0] ?? '';
+      const element: SvgElement = {
+        name,
+        attributes: [...tag.matchAll(ATTRIBUTE)].map(m => [
+          m[1],
+          decodeEntities(m[2] ?? m[3]),
+        ]),
+        children: [],
+        text: '',
+      };
+      stack[stack.length - 1].children.push(element);
+      if (!tag.endsWith('/')) {
+        stack.push(element);
+      }
+    }
+  }
+  if (stack.length > 1) {
+    throw new Error(`<${stack[stack.length - 1].name}> is never closed`);
+  }
+  if (root.children.length !== 1) {
+    throw new Error('expected one root element');
+  }
+  return root.children[0];
+}
+
+function idOf(element: SvgElement): string | null {
+  return element.attributes.find(([key]) => key === 'id')?.[1] ?? null;
+}
+
+// Children keyed for pairing: by id where there is one, otherwise by
+// position among siblings of the same name, e.g. `rect[1]`.
+function keyChildren(children: SvgElement[]): Map<string, SvgElement> {
+  const counts = new Map<string, number>();
+  const keyed = new Map<string, SvgElement>();
+  for (const child of children) {
+    const id = idOf(child);
+    if (id !== null) {
+      keyed.set(`${child.name}#${id}`, child);
+      continue;
+    }
+    const index = counts.get(child.name) ?? 0;
+    counts.set(child.name, index + 1);
+    keyed.set(`${child.name}[${index}]`, child);
+  }
+  return keyed;
+}
+
+// A key as a path segment: `rect[0]` reads as `rect` when it is the only one.
+function segment(
+  key: string,
+  before: Map<string, SvgElement>,
+  after: Map<string, SvgElement>,
+): string {
+  if (!key.endsWith('[0]')) {
+    return key;
+  }
+  const name = key.slice(0, -3);
+  return before.has(`${name}[1]`) || after.has(`${name}[1]`) ? key : name;
+}
+
+function describeElement(element: SvgElement): string {
+  const id = idOf(element);
+  return `<${element.name}${id === null ? '' : ` id="${id}"`}>`;
+}
+
+function diffElements(
+  path: string,
+  before: SvgElement,
+  after: SvgElement,
+  changes: SvgChange[],
+): void {
+  const a = new Map(before.attributes);
+  const b = new Map(after.attributes);
+  for (const [attribute, value] of a) {
+    if (!b.has(attribute)) {
+      changes.push({
+        kind: 'attributeRemoved',
+        path,
+        attribute,
+        before: value,
+        after: null,
+      });
+    } else if (b.get(attribute) !== value) {
+      changes.push({
+        kind: 'attributeChanged',
+        path,
+        attribute,
+        before: value,
+        after: b.get(attribute)!,
+      });
+    }
+  }
+  for (const [attribute, value] of b) {
+    if (!a.has(attribute)) {
+      changes.push({
+        kind: 'attributeAdded',
+        path,
+        attribute,
+        before: null,
+        after: value,
+      });
+    }
+  }
+  if (before.text !== after.text) {
+    changes.push({
+      kind: 'textChanged',
+      path,
+      attribute: null,
+      before: before.text,
+      after: after.text,
+    });
+  }
+
+  const beforeChildren = keyChildren(before.children);
+  const afterChildren = keyChildren(after.children);
+  const childPath = (key: string) =>
+    `${path} > ${segment(key, beforeChildren, afterChildren)}`;
+  for (const [key, child] of beforeChildren) {
+    const match = afterChildren.get(key);
+    if (match) {
+      diffElements(childPath(key), child, match, changes);
+    } else {
+      changes.push({
+        kind: 'elementRemoved',
+        path: childPath(key),
+        attribute: null,
+        before: describeElement(child),
+        after: null,
+      });
+    }
+  }
+  for (const [key, child] of afterChildren) {
+    if (!beforeChildren.has(key)) {
+      changes.push({
+        kind: 'elementAdded',
+        path: childPath(key),
+        attribute: null,
+        before: null,
+        after: describeElement(child),
+      });
+    }
+  }
+}
+
+/**
+ * Element- and attribute-level differences between two SVG documents.
+ * Elements pair up by id, or else by position among same-named siblings, so
+ * inserting a `<rect>` before two others reads as changes to those plus one
+ * added at the end. Throws if either document doesn't parse.
+ */
+export function diffSvg(before: string, after: string): SvgChange[] {
+  const a = parseSvg(before);
+  const b = parseSvg(after);
+  const changes: SvgChange[] = [];
+  if (a.name !== b.name) {
+    changes.push({
+      kind: 'elementRemoved',
+      path: a.name,
+      attribute: null,
+      before: describeElement(a),
+      after: null,
+    });
+    changes.push({
+      kind: 'elementAdded',
+      path: b.name,
+      attribute: null,
+      before: null,
+      after: describeElement(b),
+    });
+    return changes;
+  }
+  diffElements(a.name, a, b, changes);
+  return changes;
+}
+
+export function describeSvgChange(change: SvgChange): string {
+  switch (change.kind) {
+    case 'elementAdded':
+      return `${change.path}: added ${change.after}`;
+    case 'elementRemoved':
+      return `${change.path}: removed ${change.before}`;
+    case 'attributeAdded':
+      return `${change.path} @${change.attribute}: added "${change.after}"`;
+    case 'attributeRemoved':
+      return `${change.path} @${change.attribute}: removed "${change.before}"`;
+    case 'attributeChanged':
+      return `${change.path} @${change.attribute}: "${change.before}" → "${change.after}"`;
+    case 'textChanged':
+      return `${change.path}: text "${change.before}" → "${change.after}"`;
+  }
+}
@@ -0,0 +1,205 @@
+// JSON Patch (RFC 6902) over parsed JSON, with JSON Pointers (RFC 6901).
+
+type JsonObject = Record<string, unknown>;
+type Container = JsonObject | unknown[];
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+function parsePointer(pointer: unknown): string[] {
+  if (typeof pointer !== 'string') {
+    throw new Error('path must be a string');
+  }
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new Error(`invalid JSON pointer "${pointer}"`);
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+// "-" (one past the end) is only valid where something is being added.
+function arrayIndex(array: unknown[], token: string, adding: boolean): number {
+  if (adding && token === '-') {
+    return array.length;
+  }
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new Error(`invalid array index "${token}"`);
+  }
+  const index = Number(token);
+  if (index > array.length || (!adding && index === array.length)) {
+    throw new Error(`array index ${index} is out of range`);
+  }
+  return index;
+}
+
+function child(value: unknown, token: string, pointer: string): unknown {
+  if (Array.isArray(value)) {
+    return value[arrayIndex(value, token, false)];
+  }
+  if (isContainer(value) && Object.hasOwn(value, token)) {
+    return (value as JsonObject)[token];
+  }
+  throw new Error(`path "${pointer}" does not exist`);
+}
+
+function getValue(doc: unknown, pointer: string): unknown {
+  let value = doc;
+  for (const token of parsePointer(pointer)) {
+    value = child(value, token, pointer);
+  }
+  return value;
+}
+
+function parentOf(
+  doc: unknown,
+  pointer: string,
+): {parent: Container; key: string} {
+  const tokens = parsePointer(pointer);
+  const key = tokens.pop()!;
+  let parent = doc;
+  for (const token of tokens) {
+    parent = child(parent, token, pointer);
+  }
+  if (!isContainer(parent)) {
+    throw new Error(`path "${pointer}" does not exist`);
+  }
+  return {parent, key};
+}
+
+function add(doc: unknown, pointer: string, value: unknown): unknown {
+  if (pointer === '') {
+    return value;
+  }
+  const {parent, key} = parentOf(doc, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return doc;
+}
+
+function remove(doc: unknown, pointer: string): unknown {
+  if (pointer === '') {
+    throw new Error('cannot remove the whole document');
+  }
+  getValue(doc, pointer);
+  const {parent, key} = parentOf(doc, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, false), 1);
+  } else {
+    delete parent[key];
+  }
+  return doc;
+}
+
+function replace(doc: unknown, pointer: string, value: unknown): unknown {
+  getValue(doc, pointer);
+  if (pointer === '') {
+    return value;
+  }
+  const {parent, key} = parentOf(doc, pointer);
+  if (Array.isArray(parent)) {
+    parent[arrayIndex(parent, key, false)] = value;
+  } else {
+    parent[key] = value;
+  }
+  return doc;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => deepEqual(item, b[i]))
+    );
+  }
+  if (!isContainer(a) || !isContainer(b)) {
+    return false;
+  }
+  const [x, y] = [a as JsonObject, b as JsonObject];
+  const keys = Object.keys(x);
+  return (
+    keys.length === Object.keys(y).length &&
+    keys.every(key => Object.hasOwn(y, key) && deepEqual(x[key], y[key]))
+  );
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function applyOperation(doc: unknown, operation: unknown): unknown {
+  if (!isContainer(operation) || Array.isArray(operation)) {
+    throw new Error('operation must be an object');
+  }
+  const {op, path, from, value} = operation as JsonObject;
+  const pointer = path as string;
+  parsePointer(path);
+  if (
+    (op === 'add' || op === 'replace' || op === 'test') &&
+    !('value' in operation)
+  ) {
+    throw new Error(`"${op}" needs a value`);
+  }
+  switch (op) {
+    case 'add':
+      return add(doc, pointer, clone(value));
+    case 'remove':
+      return remove(doc, pointer);
+    case 'replace':
+      return replace(doc, pointer, clone(value));
+    case 'move': {
+      parsePointer(from);
+      const source = from as string;
+      if (pointer.startsWith(`${source}/`)) {
+        throw new Error(`cannot move "${source}" into itself`);
+      }
+      const moved = getValue(doc, source);
+      return add(remove(doc, source), pointer, moved);
+    }
+    case 'copy':
+      parsePointer(from);
+      return add(doc, pointer, clone(getValue(doc, from as string)));
+    case 'test':
+      if (!deepEqual(getValue(doc, pointer), value)) {
+        throw new Error(`test failed at "${pointer}"`);
+      }
+      return doc;
+    default:
+      throw new Error(`unknown op "${String(op)}"`);
+  }
+}
+
+/**
+ * Applies a JSON Patch to a copy of `document` and returns the result. The
+ * patch is atomic: any failing operation throws, naming its index, and the
+ * input is left untouched.
+ */
+export function applyJsonPatch(document: unknown, patch: unknown): unknown {
+  if (!Array.isArray(patch)) {
+    throw new Error('patch must be an array of operations');
+  }
+  let doc = clone(document);
+  patch.forEach((operation, i) => {
+    try {
+      doc = applyOperation(doc, operation);
+    } catch (e: unknown) {
+      throw new Error(
+        `operation ${i}: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    }
+  });
+  return doc;
+}
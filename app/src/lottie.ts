@@ -0,0 +1,539 @@
+import type {
+  LottieAnimation,
+  LottieChange,
+  LottieIssue,
+  LottieLayer,
+  LottieMetadata,
+  LottieProperty,
+  LottieShape,
+  LottieSplitPosition,
+  LottieTransform,
+} from './types';
+
+const TRANSFORM_KEYS = ['o', 'r', 'p', 'a', 's'] as const;
+const SETTING_KEYS = ['v', 'fr', 'ip', 'op', 'w', 'h'] as const;
+const COLOR_SHAPES = ['fl', 'st'];
+const SPLIT_AXES = ['x', 'y', 'z'] as const;
+
+/** Content types of image assets, by file extension. */
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isValue(value: unknown): value is number | number[] {
+  return isNumber(value) || (Array.isArray(value) && value.every(isNumber));
+}
+
+function isProperty(value: unknown): value is LottieProperty {
+  return (
+    isObject(value) &&
+    (value.a === undefined || value.a === 0 || value.a === 1) &&
+    'k' in value
+  );
+}
+
+function isSplitPosition(value: unknown): value is LottieSplitPosition {
+  return isObject(value) && value.s === true;
+}
+
+// --- Validation ---
+
+function checkProperty(
+  value: unknown,
+  path: string,
+  issues: LottieIssue[],
+): void {
+  if (!isObject(value)) {
+    issues.push({path, message: 'expected an animatable property {a, k}'});
+    return;
+  }
+  if (value.a === 1) {
+    const keyframes = value.k;
+    if (!Array.isArray(keyframes) || keyframes.length === 0) {
+      issues.push({path, message: 'animated property has no keyframes'});
+      return;
+    }
+    let previous = -Infinity;
+    keyframes.forEach((keyframe: unknown, i) => {
+      const at = `${path}.k[${i}]`;
+      if (!isObject(keyframe) || !isNumber(keyframe.t)) {
+        issues.push({path: at, message: 'keyframe needs a numeric time "t"'});
+        return;
+      }
+      if (keyframe.t < previous) {
+        issues.push({
+          path: at,
+          message: `keyframe at t=${keyframe.t} comes after t=${previous}`,
+        });
+      }
+      previous = keyframe.t;
+      if (keyframe.s === undefined) {
+        // Only the last keyframe may omit its value.
+        if (i < keyframes.length - 1) {
+          issues.push({path: at, message: 'keyframe is missing its value "s"'});
+        }
+      } else if (!isValue(keyframe.s)) {
+        issues.push({path: at, message: '"s" must be a number or numbers'});
+      }
+    });
+  } else if (value.a === 0 || value.a === undefined) {
+    if (!isValue(value.k)) {
+      issues.push({path, message: '"k" must be a number or numbers'});
+    }
+  } else {
+    issues.push({path, message: '"a" must be 0 (static) or 1 (animated)'});
+  }
+}
+
+function checkTransform(
+  value: unknown,
+  path: string,
+  issues: LottieIssue[],
+): void {
+  if (!isObject(value)) {
+    issues.push({path, message: 'expected a transform object'});
+    return;
+  }
+  for (const key of TRANSFORM_KEYS) {
+    if (key === 'p' && isSplitPosition(value.p)) {
+      for (const axis of SPLIT_AXES) {
+        if (axis !== 'z' || value.p.z !== undefined) {
+          checkProperty(value.p[axis], `${path}.p.${axis}`, issues);
+        }
+      }
+    } else if (value[key] !== undefined) {
+      checkProperty(value[key], `${path}.${key}`, issues);
+    }
+  }
+}
+
+function checkShapes(
+  value: unknown,
+  path: string,
+  issues: LottieIssue[],
+): void {
+  if (!Array.isArray(value)) {
+    issues.push({path, message: 'expected a list of shape items'});
+    return;
+  }
+  value.forEach((shape: unknown, i) => {
+    const at = `${path}[${i}]`;
+    if (!isObject(shape) || typeof shape.ty !== 'string') {
+      issues.push({path: at, message: 'shape item needs a string type "ty"'});
+      return;
+    }
+    switch (shape.ty) {
+      case 'gr':
+        checkShapes(shape.it, `${at}.it`, issues);
+        break;
+      case 'el':
+      case 'rc':
+        checkProperty(shape.p, `${at}.p`, issues);
+        checkProperty(shape.s, `${at}.s`, issues);
+        break;
+      case 'fl':
+      case 'st':
+        checkProperty(shape.c, `${at}.c`, issues);
+        checkProperty(shape.o, `${at}.o`, issues);
+        break;
+      case 'tr':
+        checkTransform(shape, at, issues);
+        break;
+      // Other item types are passed through to the renderer unchecked.
+    }
+  });
+}
+
+function checkLayer(value: unknown, path: string, issues: LottieIssue[]) {
+  if (!isObject(value)) {
+    issues.push({path, message: 'expected a layer object'});
+    return;
+  }
+  if (!Number.isInteger(value.ty)) {
+    issues.push({path: `${path}.ty`, message: 'layer type must be an integer'});
+  }
+  for (const key of ['ip', 'op']) {
+    if (!isNumber(value[key])) {
+      issues.push({path: `${path}.${key}`, message: 'expected a number'});
+    }
+  }
+  checkTransform(value.ks, `${path}.ks`, issues);
+  // Shape layers (ty 4) draw their `shapes`; other types may omit them.
+  if (value.ty === 4 || value.shapes !== undefined) {
+    checkShapes(value.shapes, `${path}.shapes`, issues);
+  }
+}
+
+/**
+ * Validates the core of the Lottie schema: top-level settings, layers, their
+ * transforms, shape items and keyframes. The animation is only returned when
+ * there are no issues, so a malformed body never reaches LottieView.
+ */
+export function parseLottie(value: unknown): {
+  animation: LottieAnimation | null;
+  issues: LottieIssue[];
+} {
+  const issues: LottieIssue[] = [];
+  if (!isObject(value)) {
+    issues.push({path: '', message: 'expected a JSON object'});
+    return {animation: null, issues};
+  }
+
+  if (typeof value.v !== 'string') {
+    issues.push({path: 'v', message: 'expected a version string'});
+  }
+  for (const key of ['fr', 'w', 'h']) {
+    if (!isNumber(value[key]) || (value[key] as number) <= 0) {
+      issues.push({path: key, message: 'expected a positive number'});
+    }
+  }
+  if (!isNumber(value.ip) || !isNumber(value.op)) {
+    issues.push({path: 'ip', message: '"ip" and "op" must be numbers'});
+  } else if (value.op <= value.ip) {
+    issues.push({path: 'op', message: '"op" must be after "ip"'});
+  }
+  if (!Array.isArray(value.layers)) {
+    issues.push({path: 'layers', message: 'expected a list of layers'});
+  } else {
+    value.layers.forEach((layer: unknown, i) =>
+      checkLayer(layer, `layers[${i}]`, issues),
+    );
+  }
+
+  return {
+    animation: issues.length === 0 ? (value as LottieAnimation) : null,
+    issues,
+  };
+}
+
+export function describeLottieIssue(issue: LottieIssue): string {
+  return `${issue.path || '(root)'}: ${issue.message}`;
+}
+
+// --- Metadata ---
+
+function toHex(color: number | number[]): string {
+  const channels = Array.isArray(color) ? color.slice(0, 3) : [color];
+  return (
+    '#' +
+    channels
+      .map(c =>
+        Math.round(Math.min(1, Math.max(0, c)) * 255)
+          .toString(16)
+          .padStart(2, '0'),
+      )
+      .join('')
+  );
+}
+
+function propertyValues(prop: LottieProperty): (number | number[])[] {
+  if (prop.a !== 1) {
+    return [prop.k];
+  }
+  return prop.k.flatMap(keyframe =>
+    keyframe.s === undefined ? [] : [keyframe.s],
+  );
+}
+
+function forEachShape(
+  shapes: LottieShape[] | undefined,
+  visit: (shape: LottieShape) => void,
+): void {
+  for (const shape of shapes ?? []) {
+    visit(shape);
+    if (shape.ty === 'gr') {
+      forEachShape(shape.it, visit);
+    }
+  }
+}
+
+export function lottieMetadata(animation: LottieAnimation): LottieMetadata {
+  const colors = new Set<string>();
+  let shapeCount = 0;
+  let animatedProperties = 0;
+
+  const countAnimated = (container: Record<string, unknown>) => {
+    for (const value of Object.values(container)) {
+      if (isProperty(value) && value.a === 1) {
+        animatedProperties++;
+      }
+    }
+  };
+
+  for (const layer of animation.layers) {
+    countAnimated(layer.ks);
+    if (isSplitPosition(layer.ks.p)) {
+      countAnimated(layer.ks.p);
+    }
+    forEachShape(layer.shapes, shape => {
+      shapeCount++;
+      countAnimated(shape);
+      if (COLOR_SHAPES.includes(shape.ty) && shape.c) {
+        propertyValues(shape.c).forEach(c => colors.add(toHex(c)));
+      }
+    });
+  }
+
+  const frames = animation.op - animation.ip;
+  return {
+    version: animation.v,
+    frameRate: animation.fr,
+    frames,
+    durationSeconds: frames / animation.fr,
+    width: animation.w,
+    height: animation.h,
+    layerCount: animation.layers.length,
+    shapeCount,
+    animatedProperties,
+    colors: [...colors],
+  };
+}
+
+// --- Diff ---
+
+// One-dimensional keyframe values come wrapped in a list; show them bare.
+function formatValue(value: number | number[]): string {
+  const round = (n: number) => String(Math.round(n * 1000) / 1000);
+  if (!Array.isArray(value)) {
+    return round(value);
+  }
+  return value.length === 1
+    ? round(value[0])
+    : `[${value.map(round).join(', ')}]`;
+}
+
+function summarize(prop: LottieProperty | undefined, color: boolean): string {
+  if (!prop) {
+    return '(none)';
+  }
+  const format = color ? toHex : formatValue;
+  if (prop.a !== 1) {
+    return format(prop.k);
+  }
+  const times = prop.k.map(keyframe => keyframe.t);
+  const values = propertyValues(prop).map(format).join(' → ');
+  return `${prop.k.length} keyframes (t=${times.join(', ')}): ${values}`;
+}
+
+function diffProperty(
+  path: string,
+  before: LottieProperty | undefined,
+  after: LottieProperty | undefined,
+  color: boolean,
+  changes: LottieChange[],
+): void {
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return;
+  }
+  let kind: LottieChange['kind'] = 'valueChanged';
+  if (color) {
+    kind = 'colorChanged';
+  } else if (before?.a === 1 || after?.a === 1) {
+    kind = 'keyframesChanged';
+  }
+  changes.push({
+    kind,
+    path,
+    before: summarize(before, color),
+    after: summarize(after, color),
+  });
+}
+
+function describeShape(shape: LottieShape): string {
+  return shape.nm ? `${shape.ty} "${shape.nm}"` : shape.ty;
+}
+
+function diffShapes(
+  path: string,
+  before: LottieShape[],
+  after: LottieShape[],
+  changes: LottieChange[],
+): void {
+  for (let i = 0; i < Math.max(before.length, after.length); i++) {
+    const at = `${path}[${i}]`;
+    const a = before[i];
+    const b = after[i];
+    if (a && (!b || a.ty !== b.ty)) {
+      changes.push({
+        kind: 'shapeRemoved',
+        path: at,
+        before: describeShape(a),
+        after: null,
+      });
+    }
+    if (b && (!a || a.ty !== b.ty)) {
+      changes.push({
+        kind: 'shapeAdded',
+        path: at,
+        before: null,
+        after: describeShape(b),
+      });
+    }
+    if (!a || !b || a.ty !== b.ty) {
+      continue;
+    }
+    if (a.ty === 'gr') {
+      diffShapes(`${at}.it`, a.it ?? [], b.it ?? [], changes);
+      continue;
+    }
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      const pa = a[key];
+      const pb = b[key];
+      if (
+        (pa === undefined || isProperty(pa)) &&
+        (pb === undefined || isProperty(pb))
+      ) {
+        const color = key === 'c' && COLOR_SHAPES.includes(a.ty);
+        diffProperty(`${at}.${key}`, pa, pb, color, changes);
+      }
+    }
+  }
+}
+
+function diffTransform(
+  path: string,
+  before: LottieTransform,
+  after: LottieTransform,
+  changes: LottieChange[],
+): void {
+  for (const key of TRANSFORM_KEYS) {
+    const a = before[key];
+    const b = after[key];
+    if (!isSplitPosition(a) && !isSplitPosition(b)) {
+      diffProperty(`${path}.${key}`, a, b, false, changes);
+      continue;
+    }
+    // Split on either side: compare per dimension, and report a combined
+    // position on the other side as removed or added.
+    diffProperty(
+      `${path}.${key}`,
+      isSplitPosition(a) ? undefined : a,
+      isSplitPosition(b) ? undefined : b,
+      false,
+      changes,
+    );
+    for (const axis of SPLIT_AXES) {
+      diffProperty(
+        `${path}.${key}.${axis}`,
+        isSplitPosition(a) ? a[axis] : undefined,
+        isSplitPosition(b) ? b[axis] : undefined,
+        false,
+        changes,
+      );
+    }
+  }
+}
+
+// Layers are paired by `ind` when every layer has one, else by position.
+function pairLayers(
+  before: LottieLayer[],
+  after: LottieLayer[],
+): [LottieLayer | undefined, LottieLayer | undefined, number][] {
+  const all = [...before, ...after];
+  if (all.length > 0 && all.every(layer => isNumber(layer.ind))) {
+    const indices = [...new Set(all.map(layer => layer.ind as number))];
+    return indices
+      .sort((x, y) => x - y)
+      .map(ind => [
+        before.find(layer => layer.ind === ind),
+        after.find(layer => layer.ind === ind),
+        Math.max(
+          before.findIndex(l => l.ind === ind),
+          after.findIndex(l => l.ind === ind),
+        ),
+      ]);
+  }
+  const pairs: [LottieLayer | undefined, LottieLayer | undefined, number][] =
+    [];
+  for (let i = 0; i < Math.max(before.length, after.length); i++) {
+    pairs.push([before[i], after[i], i]);
+  }
+  return pairs;
+}
+
+/**
+ * Structural differences between two animations: settings, layers added,
+ * removed or renamed, shape items, colors and keyframes. Paths refer to
+ * positions in `after` (or `before` for removals).
+ */
+export function diffLottie(
+  before: LottieAnimation,
+  after: LottieAnimation,
+): LottieChange[] {
+  const changes: LottieChange[] = [];
+
+  for (const key of SETTING_KEYS) {
+    if (before[key] !== after[key]) {
+      changes.push({
+        kind: 'settingChanged',
+        path: key,
+        before: String(before[key]),
+        after: String(after[key]),
+      });
+    }
+  }
+
+  for (const [a, b, index] of pairLayers(before.layers, after.layers)) {
+    const path = `layers[${index}]`;
+    if (!a || !b) {
+      changes.push({
+        kind: a ? 'layerRemoved' : 'layerAdded',
+        path,
+        before: a ? a.nm ?? `type ${a.ty}` : null,
+        after: b ? b.nm ?? `type ${b.ty}` : null,
+      });
+      continue;
+    }
+    if (a.nm !== b.nm) {
+      changes.push({
+        kind: 'layerRenamed',
+        path,
+        before: a.nm ?? null,
+        after: b.nm ?? null,
+      });
+    }
+    for (const key of ['ip', 'op'] as const) {
+      if (a[key] !== b[key]) {
+        changes.push({
+          kind: 'valueChanged',
+          path: `${path}.${key}`,
+          before: String(a[key]),
+          after: String(b[key]),
+        });
+      }
+    }
+    diffTransform(`${path}.ks`, a.ks, b.ks, changes);
+    diffShapes(`${path}.shapes`, a.shapes ?? [], b.shapes ?? [], changes);
+  }
+
+  return changes;
+}
+
+export function describeLottieChange(change: LottieChange): string {
+  switch (change.kind) {
+    case 'layerAdded':
+    case 'shapeAdded':
+      return `${change.path}: added ${change.after}`;
+    case 'layerRemoved':
+    case 'shapeRemoved':
+      return `${change.path}: removed ${change.before}`;
+    case 'layerRenamed':
+      return `${change.path}: renamed "${change.before}" → "${change.after}"`;
+    default:
+      return `${change.path}: ${change.before} → ${change.after}`;
+  }
+}
@@ -0,0 +1,180 @@
+import {fetchImage} from './api';
+import {IMAGE_MIME_TYPES} from './lottie';
+import {RequestCancelledError} from './request';
+import type {
+  AssetRef,
+  FetchOptions,
+  ImageFetchResult,
+  ImageFormat,
+  LottieAnimation,
+  LottieAsset,
+  LottieImageLoad,
+  LottieImageReport,
+} from './types';
+
+const ABSOLUTE_URL = /^[a-z][a-z0-9+.-]*:/i;
+const URL_ORIGIN = /^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i;
+
+/** Image assets that point at a URL instead of embedding their data. */
+function externalImages(animation: LottieAnimation): LottieAsset[] {
+  return (animation.assets ?? []).filter(
+    asset =>
+      typeof asset.p === 'string' &&
+      asset.p !== '' &&
+      asset.e !== 1 &&
+      !asset.p.startsWith('data:'),
+  );
+}
+
+export function hasExternalImages(animation: LottieAnimation): boolean {
+  return externalImages(animation).length > 0;
+}
+
+/**
+ * Where an image asset lives: `u` + `p`, or `p` alone when it's absolute,
+ * resolved against the URL of the Lottie the way a browser resolves a link.
+ * A relative reference therefore keeps the Lottie's session prefix.
+ */
+export function resolveImageUrl(asset: LottieAsset, lottieUrl: string): string {
+  const p = asset.p ?? '';
+  const ref = ABSOLUTE_URL.test(p) ? p : `${asset.u ?? ''}${p}`;
+  if (ABSOLUTE_URL.test(ref)) {
+    return ref;
+  }
+  const origin = URL_ORIGIN.exec(lottieUrl)?.[0] ?? '';
+  const directory = (lottieUrl.slice(origin.length) || '/')
+    .replace(/[?#].*$/, '')
+    .replace(/[^/]*$/, '');
+  const path = ref.startsWith('/') ? ref : directory + ref;
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '..') {
+      // Never above the root, which is the leading empty segment.
+      if (segments.length > 1) {
+        segments.pop();
+      }
+    } else if (segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return origin + segments.join('/');
+}
+
+/**
+ * The asset fetchImage() should ask for. Images on the demo server are
+ * counted by name like any other asset; those on other hosts have no request
+ * counter, so their source is judged from the response alone.
+ */
+function imageAsset(
+  url: string,
+  baseUrl: string,
+): {base: string; asset: AssetRef & {kind: ImageFormat}} {
+  const base = url.startsWith(`${baseUrl}/`)
+    ? baseUrl
+    : URL_ORIGIN.exec(url)?.[0] ?? '';
+  const path = url.slice(base.length);
+  const name = decodeURIComponent(
+    path
+      .replace(/[?#].*$/, '')
+      .split('/')
+      .pop() || path,
+  );
+  const extension = name.split('.').pop()?.toLowerCase();
+  return {base, asset: {name, kind: extension === 'svg' ? 'svg' : 'png', path}};
+}
+
+function mimeType(result: ImageFetchResult, name: string): string {
+  const header = result.exchange.responseHeaders.find(
+    h => h.name.toLowerCase() === 'content-type',
+  );
+  return (
+    header?.value.split(';')[0].trim() ||
+    IMAGE_MIME_TYPES[name.split('.').pop()?.toLowerCase() ?? ''] ||
+    'application/octet-stream'
+  );
+}
+
+async function loadImage(
+  url: string,
+  baseUrl: string,
+  options: FetchOptions,
+): Promise<{load: Omit<LottieImageLoad, 'id'>; dataUri: string | null}> {
+  const {base, asset} = imageAsset(url, baseUrl);
+  try {
+    const result = await fetchImage(base, asset.kind, false, {
+      ...options,
+      asset,
+    });
+    const load = {
+      url,
+      source: result.source,
+      status: result.status,
+      bytes: result.bodyLength,
+      encodedBytes: result.transfer.encodedBytes,
+      fetchTimeMs: result.fetchTimeMs,
+      appCache: result.appCache,
+      error: result.base64 ? null : `HTTP ${result.status} without a body`,
+    };
+    return {
+      load,
+      dataUri: result.base64
+        ? `data:${mimeType(result, asset.name)};base64,${result.base64}`
+        : null,
+    };
+  } catch (e: unknown) {
+    if (e instanceof RequestCancelledError) {
+      throw e;
+    }
+    return {
+      load: {
+        url,
+        source: null,
+        status: null,
+        bytes: 0,
+        encodedBytes: null,
+        fetchTimeMs: 0,
+        appCache: null,
+        error: e instanceof Error ? e.message : String(e),
+      },
+      dataUri: null,
+    };
+  }
+}
+
+/**
+ * Fetches every image a Lottie references through the same cached path as
+ * fetchImage() and embeds it, so LottieView never loads a URL itself. Each
+ * distinct URL is fetched once. An image that fails to load keeps its
+ * reference and is reported; only cancellation rejects.
+ */
+export async function resolveLottieImages(
+  animation: LottieAnimation,
+  lottieUrl: string,
+  baseUrl: string,
+  options: FetchOptions = {},
+): Promise<LottieImageReport> {
+  const external = externalImages(animation);
+  const urls = [
+    ...new Set(external.map(asset => resolveImageUrl(asset, lottieUrl))),
+  ];
+  const loaded = await Promise.all(
+    urls.map(url => loadImage(url, baseUrl, options)),
+  );
+  const byUrl = new Map(urls.map((url, i) => [url, loaded[i]]));
+
+  const images: LottieImageLoad[] = [];
+  const assets = (animation.assets ?? []).map(asset => {
+    if (!external.includes(asset)) {
+      return asset;
+    }
+    const {load, dataUri} = byUrl.get(resolveImageUrl(asset, lottieUrl))!;
+    images.push({id: asset.id, ...load});
+    return dataUri ? {...asset, u: '', p: dataUri, e: 1} : asset;
+  });
+  return {
+    animation: {...animation, assets},
+    images,
+    cacheHits: images.filter(image => image.source === 'cache').length,
+    failed: images.filter(image => image.error !== null).length,
+  };
+}
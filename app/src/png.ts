@@ -0,0 +1,258 @@
+/* eslint-disable no-bitwise -- PNG is bytes, bit depths and CRCs. */
+import {unzlibSync, zlibSync} from 'fflate';
+import type {DecodedImage} from './types';
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Samples per pixel by color type: gray, RGB, palette, gray + alpha, RGBA.
+const CHANNELS: Record<number, number> = {0: 1, 2: 3, 3: 1, 4: 2, 6: 4};
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array, start: number, end: number): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] << 24) |
+      (bytes[offset + 1] << 16) |
+      (bytes[offset + 2] << 8) |
+      bytes[offset + 3]) >>>
+    0
+  );
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    out.set(part, at);
+    at += part.length;
+  }
+  return out;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// Reverses the per-row filters; `bpp` is bytes per pixel, at least 1.
+function unfilter(
+  data: Uint8Array,
+  height: number,
+  rowBytes: number,
+  bpp: number,
+): Uint8Array {
+  const out = new Uint8Array(height * rowBytes);
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (rowBytes + 1)];
+    const src = y * (rowBytes + 1) + 1;
+    const row = y * rowBytes;
+    const prev = row - rowBytes;
+    for (let x = 0; x < rowBytes; x++) {
+      const left = x >= bpp ? out[row + x - bpp] : 0;
+      const up = y > 0 ? out[prev + x] : 0;
+      const upLeft = y > 0 && x >= bpp ? out[prev + x - bpp] : 0;
+      let predictor: number;
+      switch (filter) {
+        case 0:
+          predictor = 0;
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`unknown filter type ${filter} in row ${y}`);
+      }
+      out[row + x] = (data[src + x] + predictor) & 0xff;
+    }
+  }
+  return out;
+}
+
+/**
+ * Decodes a non-interlaced PNG of any color type and bit depth to 8-bit
+ * RGBA. 16-bit samples keep their high byte. Throws naming what it can't
+ * read: a bad signature or checksum, a missing chunk, an interlaced image.
+ */
+export function decodePng(bytes: Uint8Array): DecodedImage {
+  if (SIGNATURE.some((b, i) => bytes[i] !== b)) {
+    throw new Error('not a PNG');
+  }
+  let header: Uint8Array | null = null;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+  let offset = SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 8 + length;
+    if (end + 4 > bytes.length) {
+      throw new Error(`${type} chunk is truncated`);
+    }
+    if (crc32(bytes, offset + 4, end) !== readUint32(bytes, end)) {
+      throw new Error(`${type} chunk has a bad checksum`);
+    }
+    const data = bytes.subarray(offset + 8, end);
+    if (type === 'IHDR') {
+      header = data;
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset = end + 4;
+  }
+  if (!header || idat.length === 0) {
+    throw new Error(header ? 'no image data' : 'no IHDR chunk');
+  }
+
+  const width = readUint32(header, 0);
+  const height = readUint32(header, 4);
+  const depth = header[8];
+  const colorType = header[9];
+  const channels = CHANNELS[colorType];
+  if (!channels || ![1, 2, 4, 8, 16].includes(depth)) {
+    throw new Error(`unsupported color type ${colorType} at ${depth} bits`);
+  }
+  if (header[12] !== 0) {
+    throw new Error('interlaced PNGs are not supported');
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error('palette image without a PLTE chunk');
+  }
+
+  const rowBytes = Math.ceil((width * channels * depth) / 8);
+  const inflated = unzlibSync(concat(idat));
+  if (inflated.length < height * (rowBytes + 1)) {
+    throw new Error('image data is truncated');
+  }
+  const pixels = unfilter(
+    inflated,
+    height,
+    rowBytes,
+    Math.max(1, (channels * depth) >> 3),
+  );
+
+  // Sample i of the row starting at `row`, at the image's bit depth.
+  const sample = (row: number, i: number): number => {
+    if (depth === 8) {
+      return pixels[row + i];
+    }
+    if (depth === 16) {
+      return (pixels[row + i * 2] << 8) | pixels[row + i * 2 + 1];
+    }
+    const bit = i * depth;
+    const shift = 8 - depth - (bit & 7);
+    return (pixels[row + (bit >> 3)] >> shift) & ((1 << depth) - 1);
+  };
+  const max = (1 << depth) - 1;
+  const to8 = (value: number) =>
+    depth === 16 ? value >> 8 : Math.round((value * 255) / max);
+  // tRNS for gray and RGB: one sample value (per channel) that is transparent.
+  const key =
+    transparency && (colorType === 0 || colorType === 2)
+      ? Array.from(
+          {length: channels},
+          (_, c) => (transparency![c * 2] << 8) | transparency![c * 2 + 1],
+        )
+      : null;
+
+  const rgba = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = y * rowBytes;
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const first = x * channels;
+      if (colorType === 3) {
+        const index = sample(row, first);
+        rgba[out] = palette![index * 3] ?? 0;
+        rgba[out + 1] = palette![index * 3 + 1] ?? 0;
+        rgba[out + 2] = palette![index * 3 + 2] ?? 0;
+        rgba[out + 3] = transparency?.[index] ?? 255;
+        continue;
+      }
+      const values = Array.from({length: channels}, (_, c) =>
+        sample(row, first + c),
+      );
+      const gray = colorType === 0 || colorType === 4;
+      for (let c = 0; c < 3; c++) {
+        rgba[out + c] = to8(values[gray ? 0 : c]);
+      }
+      if (colorType === 4 || colorType === 6) {
+        rgba[out + 3] = to8(values[channels - 1]);
+      } else {
+        rgba[out + 3] = key && key.every((k, c) => k === values[c]) ? 0 : 255;
+      }
+    }
+  }
+  return {width, height, rgba};
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(data.length + 12);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    out[4 + i] = type.charCodeAt(i);
+  }
+  out.set(data, 8);
+  view.setUint32(data.length + 8, crc32(out, 4, data.length + 8));
+  return out;
+}
+
+/** Encodes 8-bit RGBA as a PNG, unfiltered: good enough for a diff overlay. */
+export function encodePng(image: DecodedImage): Uint8Array {
+  const {width, height, rgba} = image;
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([8, 6, 0, 0, 0], 8);
+  const raw = new Uint8Array(height * (width * 4 + 1));
+  for (let y = 0; y < height; y++) {
+    raw.set(
+      rgba.subarray(y * width * 4, (y + 1) * width * 4),
+      y * (width * 4 + 1) + 1,
+    );
+  }
+  return concat([
+    new Uint8Array(SIGNATURE),
+    chunk('IHDR', header),
+    chunk('IDAT', zlibSync(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ]);
+}
@@ -0,0 +1,137 @@
+import type {CachePolicy} from './types';
+
+export type BooleanDirective =
+  | 'public'
+  | 'private'
+  | 'noCache'
+  | 'noStore'
+  | 'mustRevalidate'
+  | 'proxyRevalidate'
+  | 'noTransform'
+  | 'immutable';
+
+export type SecondsDirective =
+  | 'maxAge'
+  | 'sMaxAge'
+  | 'staleWhileRevalidate'
+  | 'staleIfError';
+
+// Same order and spelling as buildCacheControl() in server/index.js, so the
+// editor preview matches the header the server actually sends.
+export const BOOLEAN_DIRECTIVES: {key: BooleanDirective; name: string}[] = [
+  {key: 'public', name: 'public'},
+  {key: 'private', name: 'private'},
+  {key: 'noCache', name: 'no-cache'},
+  {key: 'noStore', name: 'no-store'},
+  {key: 'mustRevalidate', name: 'must-revalidate'},
+  {key: 'proxyRevalidate', name: 'proxy-revalidate'},
+  {key: 'noTransform', name: 'no-transform'},
+  {key: 'immutable', name: 'immutable'},
+];
+
+export const SECONDS_DIRECTIVES: {key: SecondsDirective; name: string}[] = [
+  {key: 'maxAge', name: 'max-age'},
+  {key: 'sMaxAge', name: 's-maxage'},
+  {key: 'staleWhileRevalidate', name: 'stale-while-revalidate'},
+  {key: 'staleIfError', name: 'stale-if-error'},
+];
+
+export const POLICY_PRESETS: {name: string; policy: CachePolicy}[] = [
+  {name: 'None (Mode A)', policy: {}},
+  {name: 'max-age=30 (Mode B)', policy: {public: true, maxAge: 30}},
+  {
+    name: 'Revalidate after 30s',
+    policy: {public: true, maxAge: 30, mustRevalidate: true},
+  },
+  {name: 'no-cache', policy: {noCache: true}},
+  {name: 'no-store', policy: {noStore: true}},
+  {name: 'private', policy: {private: true, maxAge: 60}},
+  {name: 'CDN only', policy: {public: true, maxAge: 0, sMaxAge: 300}},
+  {
+    name: 'SWR',
+    policy: {public: true, maxAge: 10, staleWhileRevalidate: 60},
+  },
+  {
+    name: 'stale-if-error',
+    policy: {public: true, maxAge: 10, staleIfError: 300},
+  },
+  {
+    name: 'Immutable',
+    policy: {public: true, maxAge: 31536000, immutable: true},
+  },
+  {name: 'Expires +60s', policy: {expires: 60}},
+  {name: 'Expired', policy: {expires: -60}},
+  {
+    name: 'Vary',
+    policy: {public: true, maxAge: 30, vary: 'Accept-Encoding'},
+  },
+];
+
+export function formatCacheControl(policy: CachePolicy): string | null {
+  const directives: string[] = [];
+  for (const {key, name} of BOOLEAN_DIRECTIVES) {
+    if (policy[key]) {
+      directives.push(name);
+    }
+  }
+  for (const {key, name} of SECONDS_DIRECTIVES) {
+    if (policy[key] !== undefined) {
+      directives.push(`${name}=${policy[key]}`);
+    }
+  }
+  return directives.length > 0 ? directives.join(', ') : null;
+}
+
+/** One-line summary of every header a policy produces. */
+export function describePolicy(policy: CachePolicy): string {
+  const parts = [formatCacheControl(policy) ?? '(no Cache-Control)'];
+  if (policy.expires !== undefined) {
+    parts.push(`Expires ${policy.expires >= 0 ? '+' : ''}${policy.expires}s`);
+  }
+  if (policy.vary) {
+    parts.push(`Vary: ${policy.vary}`);
+  }
+  return parts.join(' | ');
+}
+
+/**
+ * Checks an untrusted policy object (e.g. from scenario JSON) with the same
+ * rules the server applies to `POST /policy`.
+ */
+export function parsePolicy(raw: unknown): CachePolicy {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('policy must be an object');
+  }
+  const policy: CachePolicy = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (BOOLEAN_DIRECTIVES.some(d => d.key === key)) {
+      if (typeof value !== 'boolean') {
+        throw new Error(`${key} must be a boolean`);
+      }
+      if (value) {
+        policy[key as BooleanDirective] = true;
+      }
+    } else if (SECONDS_DIRECTIVES.some(d => d.key === key)) {
+      if (!Number.isInteger(value) || (value as number) < 0) {
+        throw new Error(`${key} must be a non-negative integer`);
+      }
+      policy[key as SecondsDirective] = value as number;
+    } else if (key === 'expires') {
+      if (!Number.isInteger(value)) {
+        throw new Error('expires must be an integer number of seconds');
+      }
+      policy.expires = value as number;
+    } else if (key === 'vary') {
+      if (typeof value !== 'string') {
+        throw new Error('vary must be a string');
+      }
+      policy.vary = value;
+    } else {
+      throw new Error(`unknown policy field "${key}"`);
+    }
+  }
+  if (policy.public && policy.private) {
+    throw new Error('public and private are mutually exclusive');
+  }
+  return policy;
+}
@@ -0,0 +1,166 @@
+/**
+ * The transport under api.ts. Every request gets a timeout and can be
+ * cancelled through an AbortSignal; idempotent requests are retried after
+ * network errors, timeouts and 5xx responses, with exponential backoff and
+ * full jitter.
+ */
+
+import {fetchWithCacheMode} from './httpCache';
+import type {CacheMode} from './types';
+
+export const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_BACKOFF_MS = 300;
+const MAX_BACKOFF_MS = 5000;
+const IDEMPOTENT_METHODS = ['GET', 'HEAD'];
+
+export interface RequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  /** GET only: any mode but 'default' sends the request through the native module. */
+  cacheMode?: CacheMode;
+  /** Per attempt, covering both the response headers and reading the body. */
+  timeoutMs?: number;
+  /** Cancels the request, including any retry still waiting its turn. */
+  signal?: AbortSignal;
+  /** Attempts after the first one; ignored for non-idempotent methods. */
+  retries?: number;
+  /** Base of the exponential backoff between attempts. */
+  backoffMs?: number;
+  /** Overridable so tests don't have to wait out the backoff. */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface RequestResult<T> {
+  res: Response;
+  body: T;
+  /** 1 when the first attempt succeeded. */
+  attempts: number;
+}
+
+/** The caller aborted the request; never retried. */
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/** Every attempt failed without a response, the last one for `reason`. */
+export class RequestFailedError extends Error {
+  readonly attempts: number;
+  readonly reason: string;
+
+  constructor(reason: string, attempts: number) {
+    super(attempts > 1 ? `${reason} (after ${attempts} attempts)` : reason);
+    this.name = 'RequestFailedError';
+    this.reason = reason;
+    this.attempts = attempts;
+  }
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function backoffDelay(attempt: number, base: number): number {
+  return Math.random() * Math.min(MAX_BACKOFF_MS, base * 2 ** attempt);
+}
+
+// Stops waiting for a request that can't itself be aborted.
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const abort = () => reject(new Error('Aborted'));
+    signal.addEventListener('abort', abort);
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', abort);
+    });
+  });
+}
+
+async function fetchOnce<T>(
+  url: string,
+  read: (res: Response) => Promise<T>,
+  options: RequestOptions,
+): Promise<{res: Response; body: T}> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const cancel = () => controller.abort();
+  options.signal?.addEventListener('abort', cancel);
+
+  try {
+    const res =
+      options.cacheMode && options.cacheMode !== 'default'
+        ? await untilAborted(
+            fetchWithCacheMode(url, options.cacheMode, {
+              headers: options.headers,
+              timeoutMs,
+            }),
+            controller.signal,
+          )
+        : await fetch(url, {
+            method: options.method,
+            headers: options.headers,
+            body: options.body,
+            signal: controller.signal,
+          });
+    return {res, body: await read(res)};
+  } catch (e: unknown) {
+    if (options.signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+    if (timedOut) {
+      throw new Error(`Timed out after ${timeoutMs} ms`);
+    }
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', cancel);
+  }
+}
+
+/**
+ * Fetches `url` and reads the body with `read`, within the timeout. A 5xx
+ * that is still there after the last retry is returned, not thrown: callers
+ * handle error statuses as before.
+ */
+export async function request<T>(
+  url: string,
+  read: (res: Response) => Promise<T>,
+  options: RequestOptions = {},
+): Promise<RequestResult<T>> {
+  const sleep = options.sleep ?? defaultSleep;
+  const method = (options.method ?? 'GET').toUpperCase();
+  const retries = IDEMPOTENT_METHODS.includes(method)
+    ? options.retries ?? 0
+    : 0;
+
+  for (let attempts = 1; ; attempts++) {
+    if (options.signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+    const last = attempts > retries;
+    try {
+      const {res, body} = await fetchOnce(url, read, options);
+      if (res.status < 500 || last) {
+        return {res, body, attempts};
+      }
+    } catch (e: unknown) {
+      if (e instanceof RequestCancelledError) {
+        throw e;
+      }
+      if (last) {
+        const msg = e instanceof Error ? e.message : String(e);
+        throw new RequestFailedError(msg, attempts);
+      }
+    }
+    await sleep(
+      backoffDelay(attempts - 1, options.backoffMs ?? DEFAULT_BACKOFF_MS),
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import type {RolloutStep, ScheduledVersion} from './types';
+
+// One step of a typed schedule: "v3@60", "3 @ +60s".
+const STEP_PATTERN = /^v?(\d+)\s*@\s*\+?(\d+)\s*s?$/i;
+
+/**
+ * Parses a rollout schedule typed as "v3@60, v4@120": serve v3 from 60 s
+ * after the schedule is set, then v4 from 120 s. Throws naming the first step
+ * it can't read; an empty text is an empty schedule.
+ */
+export function parseRolloutSchedule(text: string): RolloutStep[] {
+  return text
+    .split(/[,;\n]/)
+    .map(part => part.trim())
+    .filter(part => part !== '')
+    .map(part => {
+      const match = STEP_PATTERN.exec(part);
+      if (!match || Number(match[1]) < 1) {
+        throw new Error(`"${part}" is not a step like v3@60`);
+      }
+      return {version: Number(match[1]), afterSeconds: Number(match[2])};
+    });
+}
+
+export function formatRolloutSchedule(steps: RolloutStep[]): string {
+  return steps.map(s => `v${s.version}@${s.afterSeconds}`).join(', ');
+}
+
+/** The next two versions, a minute apart: something to edit from. */
+export function suggestRollout(versions: number[]): RolloutStep[] {
+  const next = Math.max(0, ...versions) + 1;
+  return [
+    {version: next, afterSeconds: 60},
+    {version: next + 1, afterSeconds: 120},
+  ];
+}
+
+export function describeScheduledVersion(step: ScheduledVersion): string {
+  return `v${step.version} in ${step.inSeconds} s`;
+}
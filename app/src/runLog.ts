@@ -0,0 +1,386 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {RequestFailedError} from './request';
+import type {
+  HeaderPair,
+  RunActionEntry,
+  RunEntry,
+  RunFetchEntry,
+  RunFetchOrigin,
+  ServerState,
+  SettledFetch,
+} from './types';
+
+// Fetches and control actions of the current run, kept on the device so the
+// evidence survives an app restart until it is cleared.
+const RUN_LOG_KEY = 'runLog:entries';
+const RUN_LOG_LIMIT = 100;
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  304: 'Not Modified',
+  400: 'Bad Request',
+  404: 'Not Found',
+  500: 'Internal Server Error',
+  503: 'Service Unavailable',
+};
+
+export interface RunMeta {
+  serverUrl: string;
+  platform: string;
+  exportedAt: number;
+}
+
+export async function loadRunLog(): Promise<RunEntry[]> {
+  try {
+    const raw = await AsyncStorage.getItem(RUN_LOG_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Appends and clears run one at a time, each after the last has saved;
+// otherwise two appends load the same list and one entry is lost.
+let pending: Promise<unknown> = Promise.resolve();
+
+function queued<T>(task: () => Promise<T>): Promise<T> {
+  const next = pending.then(task, task);
+  pending = next.catch(() => undefined);
+  return next;
+}
+
+/** Appends an entry, dropping the oldest beyond the limit. */
+export function appendRunEntry(entry: RunEntry): Promise<RunEntry[]> {
+  return queued(async () => {
+    const entries = [...(await loadRunLog()), entry].slice(-RUN_LOG_LIMIT);
+    await AsyncStorage.setItem(RUN_LOG_KEY, JSON.stringify(entries));
+    return entries;
+  });
+}
+
+export function clearRunLog(): Promise<void> {
+  return queued(() => AsyncStorage.removeItem(RUN_LOG_KEY));
+}
+
+/**
+ * A fetch reported through FetchOptions.onSettled, as a run log entry. The
+ * server state isn't read for these: a benchmark would double its requests.
+ */
+export function settledFetchEntry(
+  fetch: SettledFetch,
+  origin: RunFetchOrigin,
+): Omit<RunFetchEntry, 'id'> {
+  const {result, error} = fetch;
+  let retries = 0;
+  if (result) {
+    retries = result.retries;
+  } else if (error instanceof RequestFailedError) {
+    retries = error.attempts - 1;
+  }
+  return {
+    kind: 'fetch',
+    origin,
+    startedAt: fetch.startedAt,
+    durationMs: result?.fetchTimeMs ?? fetch.durationMs,
+    asset: fetch.asset.name,
+    url: fetch.url,
+    forced: fetch.forced,
+    strategy: fetch.strategy,
+    cacheMode: fetch.cacheMode,
+    exchange: result?.exchange ?? null,
+    status: result?.status ?? null,
+    source: result?.source ?? null,
+    bodySha256: result?.bodySha256 ?? null,
+    bodyBytes: result?.bodyLength ?? null,
+    transfer: result?.transfer ?? null,
+    retries,
+    fallback: result?.fallback ?? null,
+    error: result
+      ? null
+      : error instanceof Error
+      ? error.message
+      : String(error),
+    serverState: null,
+  };
+}
+
+const ORIGIN_TITLES: Record<Exclude<RunFetchOrigin, 'button'>, string> = {
+  background: 'Background',
+  scenario: 'Scenario',
+  manifest: 'Manifest',
+  benchmark: 'Benchmark',
+};
+
+// "Fetch", "Force fetch", "Scenario fetch" or e.g. "Fetch (no-cache)".
+function fetchTitle(entry: RunFetchEntry): string {
+  const action = entry.forced ? 'force fetch' : 'fetch';
+  const title =
+    entry.origin && entry.origin !== 'button'
+      ? `${ORIGIN_TITLES[entry.origin]} ${action}`
+      : `${action[0].toUpperCase()}${action.slice(1)}`;
+  const mode =
+    entry.cacheMode && entry.cacheMode !== 'default'
+      ? ` (${entry.cacheMode})`
+      : '';
+  return `${title}${mode}`;
+}
+
+// --- HAR 1.2 (http://www.softwareishard.com/blog/har-12-spec/) ---
+// Fields starting with "_" are custom, which the spec allows; devtools
+// ignore them.
+
+interface HarHeader {
+  name: string;
+  value: string;
+  comment?: string;
+}
+
+interface HarPage {
+  startedDateTime: string;
+  id: string;
+  title: string;
+  pageTimings: {onContentLoad: number; onLoad: number};
+  comment?: string;
+}
+
+interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: [];
+    headers: HarHeader[];
+    queryString: [];
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: [];
+    headers: HarHeader[];
+    content: {size: number; mimeType: string; comment?: string};
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: {send: number; wait: number; receive: number};
+  comment?: string;
+  _source: string | null;
+  _bodySha256: string | null;
+  _retries: number;
+  _fallback: string | null;
+  _error: string | null;
+  _serverState: ServerState | null;
+}
+
+export interface Har {
+  log: {
+    version: '1.2';
+    creator: {name: string; version: string};
+    comment: string;
+    pages: HarPage[];
+    entries: HarEntry[];
+  };
+}
+
+function findHeader(headers: HeaderPair[], name: string): string | null {
+  const lower = name.toLowerCase();
+  return headers.find(h => h.name.toLowerCase() === lower)?.value ?? null;
+}
+
+function describeState(state: ServerState | null): string {
+  if (!state) {
+    return 'server state unavailable';
+  }
+  const session = state.session ? `session ${state.session.id}, ` : '';
+  return `${session}v${state.version}, mode ${state.mode}, validators ${state.validators}`;
+}
+
+function actionTitle(entry: RunActionEntry): string {
+  return entry.error
+    ? `${entry.name} failed: ${entry.error}`
+    : entry.detail ?? entry.name;
+}
+
+function harPage(entry: RunActionEntry): HarPage {
+  return {
+    startedDateTime: new Date(entry.startedAt).toISOString(),
+    id: `action-${entry.id}`,
+    title: actionTitle(entry),
+    pageTimings: {onContentLoad: -1, onLoad: entry.durationMs},
+    comment: describeState(entry.serverState),
+  };
+}
+
+function harEntry(entry: RunFetchEntry, pageref?: string): HarEntry {
+  const exchange = entry.exchange;
+  const responseHeaders = exchange?.responseHeaders ?? [];
+  const status = entry.status ?? 0;
+  return {
+    pageref,
+    startedDateTime: new Date(entry.startedAt).toISOString(),
+    time: entry.durationMs,
+    request: {
+      method: exchange?.method ?? 'GET',
+      url: entry.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: exchange?.requestHeaders ?? [],
+      queryString: [],
+      headersSize: -1,
+      bodySize: 0,
+    },
+    response: {
+      status,
+      statusText: STATUS_TEXT[status] ?? '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: responseHeaders,
+      content: {
+        size: entry.bodyBytes ?? 0,
+        mimeType:
+          findHeader(responseHeaders, 'content-type') ??
+          'application/octet-stream',
+        comment: entry.bodySha256 ? `sha256 ${entry.bodySha256}` : undefined,
+      },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: entry.transfer?.encodedBytes ?? entry.bodyBytes ?? -1,
+    },
+    cache: {},
+    // Only the total is observable through fetch().
+    timings: {send: 0, wait: entry.durationMs, receive: 0},
+    comment: `${fetchTitle(entry)} ${entry.asset} (${entry.strategy} cache)`,
+    _source: entry.source,
+    _bodySha256: entry.bodySha256,
+    _retries: entry.retries,
+    _fallback: entry.fallback?.reason ?? null,
+    _error: entry.error,
+    _serverState: entry.serverState,
+  };
+}
+
+/**
+ * The run as a HAR log. Control actions become pages, so devtools group the
+ * fetches under the action that preceded them.
+ */
+export function toHar(entries: RunEntry[], meta: RunMeta): Har {
+  const pages: HarPage[] = [];
+  const harEntries: HarEntry[] = [];
+  let pageref: string | undefined;
+  for (const entry of entries) {
+    if (entry.kind === 'action') {
+      const page = harPage(entry);
+      pages.push(page);
+      pageref = page.id;
+    } else {
+      harEntries.push(harEntry(entry, pageref));
+    }
+  }
+  return {
+    log: {
+      version: '1.2',
+      creator: {name: 'cache-demo', version: '1.0'},
+      comment: `${meta.platform} app against ${
+        meta.serverUrl
+      }, exported ${new Date(meta.exportedAt).toISOString()}`,
+      pages,
+      entries: harEntries,
+    },
+  };
+}
+
+// --- Markdown ---
+
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function fetchRow(entry: RunFetchEntry): string[] {
+  const body = entry.bodySha256
+    ? `\`${entry.bodySha256.slice(0, 12)}\` ${entry.bodyBytes} B`
+    : '—';
+  const outcome = entry.error
+    ? `error: ${entry.error}`
+    : `${entry.status}${
+        entry.fallback ? ` (stale: ${entry.fallback.reason})` : ''
+      }`;
+  return [
+    `${fetchTitle(entry)} ${entry.asset}`,
+    outcome,
+    entry.source ?? '—',
+    body,
+  ];
+}
+
+function actionRow(entry: RunActionEntry): string[] {
+  return [
+    entry.name,
+    entry.error ? `error: ${entry.error}` : entry.detail ?? 'ok',
+    '—',
+    '—',
+  ];
+}
+
+/** A table of the run for a bug report, with the server state after each step. */
+export function toMarkdown(entries: RunEntry[], meta: RunMeta): string {
+  const lines = [
+    '# Cache demo run',
+    '',
+    `- Server: ${meta.serverUrl}`,
+    `- Platform: ${meta.platform}`,
+    `- Exported: ${new Date(meta.exportedAt).toISOString()}`,
+    `- Steps: ${entries.length}`,
+    '',
+    '| # | Time (UTC) | Step | Outcome | Source | Body | Duration | Server after |',
+    '|---|---|---|---|---|---|---|---|',
+  ];
+  entries.forEach((entry, i) => {
+    const row = entry.kind === 'fetch' ? fetchRow(entry) : actionRow(entry);
+    const time = new Date(entry.startedAt).toISOString().slice(11, 23);
+    lines.push(
+      `| ${[
+        String(i + 1),
+        time,
+        ...row,
+        `${entry.durationMs} ms`,
+        describeState(entry.serverState),
+      ]
+        .map(cell)
+        .join(' | ')} |`,
+    );
+  });
+
+  const fetches = entries.filter(
+    (e): e is RunFetchEntry => e.kind === 'fetch' && e.exchange !== null,
+  );
+  if (fetches.length > 0) {
+    lines.push('', '## Headers');
+    for (const entry of fetches) {
+      const exchange = entry.exchange!;
+      lines.push(
+        '',
+        `### ${entries.indexOf(entry) + 1}. ${exchange.method} ${entry.url}`,
+        '',
+        '```http',
+        ...exchange.requestHeaders.map(
+          h => `${h.name}: ${h.value}${h.comment ? `  (${h.comment})` : ''}`,
+        ),
+        '',
+        `HTTP/1.1 ${entry.status} ${
+          STATUS_TEXT[entry.status ?? 0] ?? ''
+        }`.trimEnd(),
+        ...exchange.responseHeaders.map(h => `${h.name}: ${h.value}`),
+        '```',
+      );
+    }
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,508 @@
+import NativeHttpCache from './NativeHttpCache';
+import {clearAssetCache} from './assetCache';
+import {
+  fetchLottie,
+  fetchDotLottie,
+  fetchImage,
+  flipVersion,
+  setMode,
+  setPolicy,
+  setLastModified,
+  setValidators,
+  setCompression,
+  resetServer,
+} from './api';
+import type {
+  AssertionResult,
+  Scenario,
+  AssetKind,
+  CacheStrategy,
+  ContentEncoding,
+  ETagVariantMode,
+  FetchOptions,
+  ScenarioAssertion,
+  ScenarioFetchRecord,
+  ScenarioReport,
+  ScenarioStep,
+  StepRef,
+  StepReport,
+  ValidatorMatch,
+  ValidatorStrategy,
+} from './types';
+import {describePolicy, parsePolicy} from './policies';
+
+export interface RunScenarioOptions {
+  /** Called after each step finishes, for live progress in the UI. */
+  onStep?: (report: StepReport) => void;
+  /** Overridable so tests don't have to wait out real `wait` steps. */
+  sleep?: (ms: number) => Promise<void>;
+  /** Passed on to every fetch step; see FetchOptions. */
+  onSettled?: FetchOptions['onSettled'];
+}
+
+const ASSETS: AssetKind[] = ['json', 'png', 'svg', 'lottie'];
+const VALIDATOR_STRATEGIES: ValidatorStrategy[] = [
+  'both',
+  'etag',
+  'last-modified',
+  'none',
+];
+const VALIDATOR_MATCHES: ValidatorMatch[] = ['etag', 'last-modified', 'none'];
+const ENCODINGS: ContentEncoding[] = ['br', 'gzip'];
+const ETAG_VARIANT_MODES: ETagVariantMode[] = ['per-encoding', 'weak'];
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function formatRef(ref: StepRef): string {
+  return typeof ref === 'number' ? `step ${ref}` : `"${ref}"`;
+}
+
+export function describeStep(step: ScenarioStep): string {
+  switch (step.action) {
+    case 'reset':
+      return 'Reset server and caches';
+    case 'setMode':
+      return `Mode → ${step.mode}`;
+    case 'setPolicy':
+      return `Policy${step.asset ? ` (${step.asset})` : ''} → ${describePolicy(
+        step.policy,
+      )}`;
+    case 'setLastModified':
+      return `Last-Modified → ${step.iso}`;
+    case 'setValidators':
+      return (
+        `Validators → ${step.validators ?? 'unchanged'}` +
+        (step.weak !== undefined
+          ? `, ${step.weak ? 'weak' : 'strong'} ETags`
+          : '')
+      );
+    case 'setCompression':
+      return (
+        `Compression → ${
+          step.encodings === undefined
+            ? 'unchanged'
+            : step.encodings.length > 0
+            ? step.encodings.join(', ')
+            : 'off'
+        }` + (step.etags !== undefined ? `, ${step.etags} ETags` : '')
+      );
+    case 'flip':
+      return 'Flip version';
+    case 'fetch':
+      return (
+        `${step.force ? 'Force fetch' : 'Fetch'} ${step.asset.toUpperCase()}` +
+        (step.strategy === 'app' ? ' via app cache' : '') +
+        (step.id ? ` (${step.id})` : '')
+      );
+    case 'wait':
+      return `Wait ${step.seconds}s`;
+  }
+}
+
+export function describeAssertion(assertion: ScenarioAssertion): string {
+  switch (assertion.type) {
+    case 'status':
+      return `status is ${assertion.equals}`;
+    case 'demoVersion':
+      return `demoVersion is ${assertion.equals}`;
+    case 'shaChanged':
+      return `SHA changed since ${formatRef(assertion.since)}`;
+    case 'shaUnchanged':
+      return `SHA unchanged since ${formatRef(assertion.since)}`;
+    case 'serverHit':
+      return assertion.equals
+        ? 'request reached server'
+        : 'served without server';
+    case 'validatorMatched':
+      return `server matched ${assertion.equals}`;
+  }
+}
+
+function fail(index: number, message: string): never {
+  throw new Error(`Step ${index + 1}: ${message}`);
+}
+
+function parseAssertion(raw: unknown, index: number): ScenarioAssertion {
+  const a = raw as Record<string, unknown>;
+  if (!a || typeof a !== 'object') {
+    fail(index, 'each expectation must be an object');
+  }
+  switch (a.type) {
+    case 'status':
+    case 'demoVersion':
+      if (typeof a.equals !== 'number') {
+        fail(index, `"${a.type}" expectation needs a numeric "equals"`);
+      }
+      return {type: a.type, equals: a.equals};
+    case 'shaChanged':
+    case 'shaUnchanged':
+      if (typeof a.since !== 'number' && typeof a.since !== 'string') {
+        fail(
+          index,
+          `"${a.type}" expectation needs "since" (step number or id)`,
+        );
+      }
+      return {type: a.type, since: a.since};
+    case 'serverHit':
+      if (typeof a.equals !== 'boolean') {
+        fail(index, '"serverHit" expectation needs a boolean "equals"');
+      }
+      return {type: 'serverHit', equals: a.equals};
+    case 'validatorMatched':
+      if (!VALIDATOR_MATCHES.includes(a.equals as ValidatorMatch)) {
+        fail(
+          index,
+          `"validatorMatched" must equal one of ${VALIDATOR_MATCHES.join(
+            ', ',
+          )}`,
+        );
+      }
+      return {type: 'validatorMatched', equals: a.equals as ValidatorMatch};
+    default:
+      return fail(index, `unknown expectation type "${String(a.type)}"`);
+  }
+}
+
+function parseStep(raw: unknown, index: number): ScenarioStep {
+  const s = raw as Record<string, unknown>;
+  if (!s || typeof s !== 'object') {
+    fail(index, 'each step must be an object');
+  }
+  switch (s.action) {
+    case 'reset':
+    case 'flip':
+      return {action: s.action};
+    case 'setMode':
+      if (s.mode !== 'A' && s.mode !== 'B') {
+        fail(index, 'mode must be "A" or "B"');
+      }
+      return {action: 'setMode', mode: s.mode};
+    case 'setPolicy': {
+      if (s.asset !== undefined && !ASSETS.includes(s.asset as AssetKind)) {
+        fail(index, `asset must be one of ${ASSETS.join(', ')}`);
+      }
+      try {
+        return {
+          action: 'setPolicy',
+          policy: parsePolicy(s.policy),
+          asset: s.asset as AssetKind | undefined,
+        };
+      } catch (e: unknown) {
+        return fail(index, e instanceof Error ? e.message : String(e));
+      }
+    }
+    case 'setLastModified':
+      if (
+        typeof s.iso !== 'string' ||
+        (s.iso !== 'now' && isNaN(new Date(s.iso).getTime()))
+      ) {
+        fail(index, 'iso must be an ISO date or "now"');
+      }
+      return {action: 'setLastModified', iso: s.iso};
+    case 'setValidators':
+      if (
+        s.validators !== undefined &&
+        !VALIDATOR_STRATEGIES.includes(s.validators as ValidatorStrategy)
+      ) {
+        fail(
+          index,
+          `validators must be one of ${VALIDATOR_STRATEGIES.join(', ')}`,
+        );
+      }
+      if (s.weak !== undefined && typeof s.weak !== 'boolean') {
+        fail(index, 'weak must be a boolean');
+      }
+      return {
+        action: 'setValidators',
+        validators: s.validators as ValidatorStrategy | undefined,
+        weak: s.weak as boolean | undefined,
+      };
+    case 'setCompression':
+      if (
+        s.encodings !== undefined &&
+        (!Array.isArray(s.encodings) ||
+          !s.encodings.every(e => ENCODINGS.includes(e)))
+      ) {
+        fail(index, `encodings must be a list of ${ENCODINGS.join(', ')}`);
+      }
+      if (
+        s.etags !== undefined &&
+        !ETAG_VARIANT_MODES.includes(s.etags as ETagVariantMode)
+      ) {
+        fail(index, `etags must be one of ${ETAG_VARIANT_MODES.join(', ')}`);
+      }
+      return {
+        action: 'setCompression',
+        encodings: s.encodings as ContentEncoding[] | undefined,
+        etags: s.etags as ETagVariantMode | undefined,
+      };
+    case 'wait':
+      if (typeof s.seconds !== 'number' || s.seconds < 0) {
+        fail(index, 'seconds must be a non-negative number');
+      }
+      return {action: 'wait', seconds: s.seconds};
+    case 'fetch': {
+      if (!ASSETS.includes(s.asset as AssetKind)) {
+        fail(index, `asset must be one of ${ASSETS.join(', ')}`);
+      }
+      if (s.expect !== undefined && !Array.isArray(s.expect)) {
+        fail(index, 'expect must be a list');
+      }
+      if (
+        s.strategy !== undefined &&
+        s.strategy !== 'native' &&
+        s.strategy !== 'app'
+      ) {
+        fail(index, 'strategy must be "native" or "app"');
+      }
+      return {
+        action: 'fetch',
+        asset: s.asset as AssetKind,
+        id: typeof s.id === 'string' ? s.id : undefined,
+        force: s.force === true,
+        strategy: s.strategy as CacheStrategy | undefined,
+        expect: ((s.expect as unknown[]) ?? []).map(a =>
+          parseAssertion(a, index),
+        ),
+      };
+    }
+    default:
+      return fail(index, `unknown action "${String(s.action)}"`);
+  }
+}
+
+/** Parses and validates scenario JSON typed or pasted by the user. */
+export function parseScenario(text: string): Scenario {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Invalid JSON: ${msg}`);
+  }
+  // A bare list of steps is accepted as an unnamed scenario.
+  const obj = (Array.isArray(raw) ? {steps: raw} : raw) as Record<
+    string,
+    unknown
+  >;
+  if (!obj || typeof obj !== 'object' || !Array.isArray(obj.steps)) {
+    throw new Error(
+      'Scenario must be a list of steps or an object with "steps"',
+    );
+  }
+  return {
+    name: typeof obj.name === 'string' ? obj.name : 'Custom scenario',
+    description:
+      typeof obj.description === 'string' ? obj.description : undefined,
+    steps: obj.steps.map(parseStep),
+  };
+}
+
+function resolveRef(
+  scenario: Scenario,
+  records: Map<number, ScenarioFetchRecord>,
+  ref: StepRef,
+): ScenarioFetchRecord | undefined {
+  if (typeof ref === 'number') {
+    return records.get(ref - 1);
+  }
+  const index = scenario.steps.findIndex(
+    s => s.action === 'fetch' && s.id === ref,
+  );
+  return index === -1 ? undefined : records.get(index);
+}
+
+function checkAssertion(
+  assertion: ScenarioAssertion,
+  record: ScenarioFetchRecord,
+  scenario: Scenario,
+  records: Map<number, ScenarioFetchRecord>,
+): AssertionResult {
+  const description = describeAssertion(assertion);
+  switch (assertion.type) {
+    case 'status':
+      return {
+        description,
+        passed: record.status === assertion.equals,
+        actual: String(record.status),
+      };
+    case 'demoVersion':
+      return {
+        description,
+        passed: record.demoVersion === assertion.equals,
+        actual: String(record.demoVersion ?? '—'),
+      };
+    case 'shaChanged':
+    case 'shaUnchanged': {
+      const earlier = resolveRef(scenario, records, assertion.since);
+      if (!earlier || !earlier.bodySha256 || !record.bodySha256) {
+        return {
+          description,
+          passed: false,
+          actual: `no body hash to compare with ${formatRef(assertion.since)}`,
+        };
+      }
+      const changed = earlier.bodySha256 !== record.bodySha256;
+      return {
+        description,
+        passed: changed === (assertion.type === 'shaChanged'),
+        actual: `${earlier.bodySha256.slice(0, 8)}… → ${record.bodySha256.slice(
+          0,
+          8,
+        )}…`,
+      };
+    }
+    case 'serverHit':
+      return {
+        description,
+        passed: record.serverHit === assertion.equals,
+        actual:
+          record.serverHit === null
+            ? 'server count unavailable'
+            : record.serverHit
+            ? 'server count increased'
+            : 'server count unchanged',
+      };
+    case 'validatorMatched':
+      return {
+        description,
+        passed: record.validatorMatched === assertion.equals,
+        actual: record.validatorMatched ?? 'no validator echo',
+      };
+  }
+}
+
+async function runFetch(
+  baseUrl: string,
+  step: Extract<ScenarioStep, {action: 'fetch'}>,
+  onSettled: FetchOptions['onSettled'],
+): Promise<ScenarioFetchRecord> {
+  const options = {strategy: step.strategy, onSettled};
+  const result =
+    step.asset === 'json'
+      ? await fetchLottie(baseUrl, step.force, options)
+      : step.asset === 'lottie'
+      ? await fetchDotLottie(baseUrl, step.force, options)
+      : await fetchImage(baseUrl, step.asset, step.force, options);
+
+  return {
+    asset: step.asset,
+    status: result.status,
+    bodySha256: result.bodySha256,
+    demoVersion: 'demoVersion' in result ? result.demoVersion : null,
+    fetchTimeMs: result.fetchTimeMs,
+    source: result.source,
+    serverHit: result.source === 'unknown' ? null : result.source !== 'cache',
+    validatorMatched: result.validation?.matched ?? null,
+  };
+}
+
+async function runAction(
+  baseUrl: string,
+  step: ScenarioStep,
+  sleep: (ms: number) => Promise<void>,
+): Promise<void> {
+  switch (step.action) {
+    case 'reset':
+      // A fresh entry left by an earlier fetch would answer the scenario's
+      // first fetch from the cache.
+      await resetServer(baseUrl);
+      await Promise.all([NativeHttpCache.clearCache(), clearAssetCache()]);
+      return;
+    case 'setMode':
+      await setMode(baseUrl, step.mode);
+      return;
+    case 'setPolicy':
+      await setPolicy(baseUrl, step.policy, step.asset);
+      return;
+    case 'setLastModified':
+      await setLastModified(
+        baseUrl,
+        step.iso === 'now' ? new Date().toISOString() : step.iso,
+      );
+      return;
+    case 'setValidators':
+      await setValidators(baseUrl, {
+        validators: step.validators,
+        weak: step.weak,
+      });
+      return;
+    case 'setCompression':
+      await setCompression(baseUrl, {
+        encodings: step.encodings,
+        etags: step.etags,
+      });
+      return;
+    case 'flip':
+      await flipVersion(baseUrl);
+      return;
+    case 'wait':
+      await sleep(step.seconds * 1000);
+      return;
+  }
+}
+
+/**
+ * Executes a scenario against the server, step by step. A step that throws
+ * (network error, server down) stops the run, since later steps depend on
+ * the state it was meant to set up; failed expectations do not.
+ */
+export async function runScenario(
+  baseUrl: string,
+  scenario: Scenario,
+  options: RunScenarioOptions = {},
+): Promise<ScenarioReport> {
+  const sleep = options.sleep ?? defaultSleep;
+  const records = new Map<number, ScenarioFetchRecord>();
+  const steps: StepReport[] = [];
+  const startedAt = new Date();
+
+  for (let index = 0; index < scenario.steps.length; index++) {
+    const step = scenario.steps[index];
+    const start = Date.now();
+    const report: StepReport = {
+      index: index + 1,
+      label: describeStep(step),
+      passed: true,
+      error: null,
+      durationMs: 0,
+      fetch: null,
+      assertions: [],
+    };
+
+    try {
+      if (step.action === 'fetch') {
+        const record = await runFetch(baseUrl, step, options.onSettled);
+        records.set(index, record);
+        report.fetch = record;
+        report.assertions = (step.expect ?? []).map(a =>
+          checkAssertion(a, record, scenario, records),
+        );
+        report.passed = report.assertions.every(a => a.passed);
+      } else {
+        await runAction(baseUrl, step, sleep);
+      }
+    } catch (e: unknown) {
+      report.passed = false;
+      report.error = e instanceof Error ? e.message : String(e);
+    }
+
+    report.durationMs = Date.now() - start;
+    steps.push(report);
+    options.onStep?.(report);
+    if (report.error) {
+      break;
+    }
+  }
+
+  return {
+    name: scenario.name,
+    passed:
+      steps.length === scenario.steps.length && steps.every(s => s.passed),
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    steps,
+  };
+}
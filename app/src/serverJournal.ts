@@ -0,0 +1,102 @@
+import {request as sendRequest} from './request';
+import type {JournalEntry} from './types';
+
+const RECONNECT_DELAY_MS = 2000;
+
+export async function getRequestJournal(
+  baseUrl: string,
+  since = 0,
+): Promise<{entries: JournalEntry[]; lastId: number}> {
+  const {body} = await sendRequest(`${baseUrl}/requests?since=${since}`, r =>
+    r.json(),
+  );
+  return body;
+}
+
+export interface JournalSubscription {
+  close(): void;
+}
+
+/**
+ * Follows `GET /requests/stream`. RN's fetch can't stream bodies, but its
+ * XMLHttpRequest delivers partial responseText on progress events, which is
+ * enough to parse Server-Sent Events. Reconnects after errors, resuming from
+ * the last entry received.
+ */
+export function subscribeToJournal(
+  baseUrl: string,
+  onEntry: (entry: JournalEntry) => void,
+  onStatus?: (connected: boolean) => void,
+  since = 0,
+): JournalSubscription {
+  let lastId = since;
+  let closed = false;
+  let xhr: XMLHttpRequest | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const connect = () => {
+    let parsedUpTo = 0;
+    const request = new XMLHttpRequest();
+    xhr = request;
+    request.open('GET', `${baseUrl}/requests/stream?since=${lastId}`);
+    request.setRequestHeader('Accept', 'text/event-stream');
+    request.setRequestHeader('Cache-Control', 'no-store');
+
+    request.onreadystatechange = () => {
+      if (request.readyState === request.HEADERS_RECEIVED) {
+        onStatus?.(request.status === 200);
+      }
+    };
+
+    request.onprogress = () => {
+      const text = request.responseText;
+      // Only complete events (terminated by a blank line) are parsed.
+      const end = text.lastIndexOf('\n\n');
+      if (end < parsedUpTo) {
+        return;
+      }
+      const chunk = text.slice(parsedUpTo, end);
+      parsedUpTo = end + 2;
+      for (const block of chunk.split('\n\n')) {
+        const data = block
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trim())
+          .join('\n');
+        if (!data) {
+          continue; // heartbeat comment
+        }
+        try {
+          const entry = JSON.parse(data) as JournalEntry;
+          lastId = Math.max(lastId, entry.id);
+          onEntry(entry);
+        } catch {
+          // malformed event; skip it
+        }
+      }
+    };
+
+    const scheduleReconnect = () => {
+      onStatus?.(false);
+      if (!closed) {
+        retryTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+    request.onerror = scheduleReconnect;
+    request.onload = scheduleReconnect;
+    request.send();
+  };
+
+  connect();
+
+  return {
+    close() {
+      closed = true;
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+      }
+      xhr?.abort();
+      onStatus?.(false);
+    },
+  };
+}
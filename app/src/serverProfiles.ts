@@ -0,0 +1,156 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {DEFAULT_SERVER_URL} from './config';
+import {request} from './request';
+import type {ReachabilityResult, ServerProfile} from './types';
+
+// Saved servers live under one key as a list; the last one selected is
+// remembered separately and restored on launch.
+const PROFILES_KEY = 'serverProfiles:list';
+const LAST_USED_KEY = 'serverProfiles:lastUsed';
+const REACHABILITY_TIMEOUT_MS = 3000;
+
+// scheme://host[:port][/path] — no credentials, query or fragment.
+const URL_PATTERN =
+  /^(https?):\/\/([A-Za-z0-9.-]+|\[[0-9A-Fa-f:.]+\])(?::(\d{1,5}))?(\/[^\s?#]*)?$/i;
+
+/**
+ * Checks a typed server URL and returns it in the form the app joins paths
+ * onto. A missing scheme defaults to http://. Throws with a message that can
+ * be shown next to the input as-is.
+ */
+export function normalizeServerUrl(input: string): string {
+  let text = input.trim();
+  if (!text) {
+    throw new Error('Enter a server URL');
+  }
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(text)) {
+    text = `http://${text}`;
+  }
+  const match = URL_PATTERN.exec(text);
+  if (!match) {
+    if (!/^https?:\/\//i.test(text)) {
+      throw new Error('Only http:// and https:// servers are supported');
+    }
+    throw new Error('Use the form http://host:port, without query or fragment');
+  }
+  const [, scheme, host, port, path = ''] = match;
+  if (port !== undefined && (Number(port) < 1 || Number(port) > 65535)) {
+    throw new Error(`Port ${port} is out of range`);
+  }
+  return (
+    `${scheme.toLowerCase()}://${host.toLowerCase()}` +
+    (port !== undefined ? `:${Number(port)}` : '') +
+    path.replace(/\/+$/, '')
+  );
+}
+
+function defaultProfiles(): ServerProfile[] {
+  return [
+    {
+      id: 'default',
+      name: 'Simulator host',
+      baseUrl: DEFAULT_SERVER_URL,
+      notes: 'The machine running the simulator or emulator',
+    },
+  ];
+}
+
+/** Saved profiles; a fresh install starts with the simulator host. */
+export async function loadProfiles(): Promise<ServerProfile[]> {
+  try {
+    const raw = await AsyncStorage.getItem(PROFILES_KEY);
+    return raw ? JSON.parse(raw) : defaultProfiles();
+  } catch {
+    return defaultProfiles();
+  }
+}
+
+async function saveProfiles(profiles: ServerProfile[]): Promise<void> {
+  await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+/**
+ * Adds a profile, or replaces the one with the same id. The name must be
+ * unique and the URL valid; returns the updated list.
+ */
+export async function saveProfile(
+  input: Omit<ServerProfile, 'id'> & {id?: string},
+): Promise<{profile: ServerProfile; profiles: ServerProfile[]}> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Give the profile a name');
+  }
+  const profiles = await loadProfiles();
+  if (profiles.some(p => p.name === name && p.id !== input.id)) {
+    throw new Error(`A profile named "${name}" already exists`);
+  }
+  const profile: ServerProfile = {
+    id:
+      input.id ??
+      `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    baseUrl: normalizeServerUrl(input.baseUrl),
+    notes: input.notes.trim(),
+  };
+  const index = profiles.findIndex(p => p.id === profile.id);
+  const next =
+    index === -1
+      ? [...profiles, profile]
+      : profiles.map(p => (p.id === profile.id ? profile : p));
+  await saveProfiles(next);
+  return {profile, profiles: next};
+}
+
+export async function deleteProfile(id: string): Promise<ServerProfile[]> {
+  const next = (await loadProfiles()).filter(p => p.id !== id);
+  await saveProfiles(next);
+  if ((await AsyncStorage.getItem(LAST_USED_KEY)) === id) {
+    await AsyncStorage.removeItem(LAST_USED_KEY);
+  }
+  return next;
+}
+
+/** The profile selected last, if it still exists. */
+export async function getLastUsedProfile(): Promise<ServerProfile | null> {
+  const id = await AsyncStorage.getItem(LAST_USED_KEY);
+  const profiles = await loadProfiles();
+  return profiles.find(p => p.id === id) ?? null;
+}
+
+export async function setLastUsedProfile(id: string): Promise<void> {
+  await AsyncStorage.setItem(LAST_USED_KEY, id);
+}
+
+/** Times a `GET /state` against the server, without retries. */
+export async function checkReachability(
+  baseUrl: string,
+): Promise<ReachabilityResult> {
+  const start = Date.now();
+  try {
+    const {res, body} = await request(`${baseUrl}/state`, r => r.json(), {
+      timeoutMs: REACHABILITY_TIMEOUT_MS,
+    });
+    const latencyMs = Date.now() - start;
+    if (!res.ok) {
+      return {
+        reachable: false,
+        latencyMs,
+        version: null,
+        error: `HTTP ${res.status}`,
+      };
+    }
+    return {
+      reachable: true,
+      latencyMs,
+      version: typeof body?.version === 'number' ? body.version : null,
+      error: null,
+    };
+  } catch (e: unknown) {
+    return {
+      reachable: false,
+      latencyMs: Date.now() - start,
+      version: null,
+      error: e instanceof Error ? e.message : String(e),
+    };
+  }
+}
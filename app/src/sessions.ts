@@ -0,0 +1,96 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {request} from './request';
+import type {SessionInfo} from './types';
+
+// The session joined last on each server, so a restart rejoins it instead of
+// starting over with fresh counters.
+const SESSION_KEY_PREFIX = 'sessions:';
+const SESSION_TIMEOUT_MS = 3000;
+
+const readJson = (res: Response) => res.json();
+
+/**
+ * The server no longer knows the session in the request's URL: it expired
+ * after sitting idle, or was left. Rejoining starts a fresh one.
+ */
+export class SessionExpiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/** The error for a refused request, a SessionExpiredError if that's why. */
+export function responseError(
+  res: Response,
+  body: {error?: string} | null,
+): Error {
+  const message = body?.error ?? `HTTP ${res.status}`;
+  return res.status === 404 && message.startsWith('unknown or expired session')
+    ? new SessionExpiredError(message)
+    : new Error(message);
+}
+
+/** Base URL that scopes every request to the session. */
+export function sessionUrl(hostUrl: string, id: string): string {
+  return `${hostUrl}/s/${encodeURIComponent(id)}`;
+}
+
+async function createSession(
+  hostUrl: string,
+  label: string | null,
+): Promise<SessionInfo> {
+  const {res, body} = await request(`${hostUrl}/sessions`, readJson, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({label}),
+    timeoutMs: SESSION_TIMEOUT_MS,
+  });
+  if (!res.ok) {
+    throw new Error(body.error ?? `HTTP ${res.status}`);
+  }
+  await AsyncStorage.setItem(SESSION_KEY_PREFIX + hostUrl, body.id);
+  return body;
+}
+
+/**
+ * Rejoins the session stored for this server if it's still alive, otherwise
+ * creates one. Throws when the server doesn't support sessions.
+ */
+export async function joinSession(
+  hostUrl: string,
+  label: string | null = null,
+): Promise<{session: SessionInfo; created: boolean}> {
+  const stored = await AsyncStorage.getItem(SESSION_KEY_PREFIX + hostUrl);
+  if (stored) {
+    const {res, body} = await request(
+      `${hostUrl}/sessions/${encodeURIComponent(stored)}`,
+      readJson,
+      {timeoutMs: SESSION_TIMEOUT_MS},
+    );
+    if (res.ok) {
+      return {session: body, created: false};
+    }
+    if (res.status !== 404) {
+      throw new Error(body.error ?? `HTTP ${res.status}`);
+    }
+  }
+  return {session: await createSession(hostUrl, label), created: true};
+}
+
+/** Leaves the current session (expiring it) and starts a fresh one. */
+export async function startNewSession(
+  hostUrl: string,
+  previousId: string | null,
+  label: string | null = null,
+): Promise<SessionInfo> {
+  if (previousId) {
+    // Best effort: an expired session is already gone.
+    await request(
+      `${hostUrl}/sessions/${encodeURIComponent(previousId)}`,
+      readJson,
+      {method: 'DELETE', timeoutMs: SESSION_TIMEOUT_MS},
+    ).catch(() => null);
+  }
+  return createSession(hostUrl, label);
+}
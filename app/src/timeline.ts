@@ -0,0 +1,90 @@
+import type {ClientFetchRecord, JournalEntry, TimelineRow} from './types';
+
+// Journal entries worth showing on their own: asset requests and server
+// control actions. GET /state polling would drown everything else out.
+function isInteresting(entry: JournalEntry): boolean {
+  return entry.asset !== null || entry.method !== 'GET';
+}
+
+// A journal id that already existed when `fetch` started. journalIdAtStart
+// stays 0 until the journal has been loaded, so ids that earlier, finished
+// fetches got back count too.
+function startId(
+  fetch: ClientFetchRecord,
+  fetches: ClientFetchRecord[],
+): number {
+  let id = fetch.journalIdAtStart;
+  for (const earlier of fetches) {
+    if (
+      earlier.finishedAt <= fetch.startedAt &&
+      earlier.id < fetch.id &&
+      earlier.serverRequestId !== null
+    ) {
+      id = Math.max(id, earlier.serverRequestId);
+    }
+  }
+  return id;
+}
+
+/**
+ * Lines up client fetches with the journal entries they produced, newest
+ * first. Device and server clocks can't be trusted to agree, so rows are
+ * ordered by journal id: a fetch that never reached the server sorts just
+ * after the last entry the app had seen when it started.
+ */
+export function buildTimeline(
+  fetches: ClientFetchRecord[],
+  entries: JournalEntry[],
+): TimelineRow[] {
+  const byId = new Map(entries.map(e => [e.id, e]));
+  const claimed = new Set<number>();
+  const rows: {key: number; row: TimelineRow}[] = [];
+
+  for (const fetch of fetches) {
+    let entry: JournalEntry | null = null;
+    let cachedFrom: number | null = null;
+    const start = startId(fetch, fetches);
+    const own =
+      fetch.serverRequestId !== null
+        ? byId.get(fetch.serverRequestId)
+        : undefined;
+
+    if (fetch.serverRequestId !== null) {
+      if (
+        fetch.serverRequestId > start &&
+        (!own || own.asset === fetch.asset)
+      ) {
+        entry = own ?? null;
+      } else {
+        // The response carries the id of an older request, or of another
+        // asset's: it was replayed from a cache without contacting the server.
+        cachedFrom = fetch.serverRequestId;
+      }
+    } else if (fetch.status !== null) {
+      // No X-Request-Id (older server): fall back to the first unclaimed
+      // entry for the same asset after the fetch started.
+      entry =
+        entries.find(
+          e => e.asset === fetch.asset && e.id > start && !claimed.has(e.id),
+        ) ?? null;
+    }
+
+    if (entry) {
+      claimed.add(entry.id);
+    }
+    rows.push({
+      // Fetches with no entry of their own sort between journal ids, in the
+      // order they were made.
+      key: entry ? entry.id : start + 0.5 + fetch.id / 1e6,
+      row: {kind: 'fetch', fetch, entry, cachedFrom},
+    });
+  }
+
+  for (const entry of entries) {
+    if (!claimed.has(entry.id) && isInteresting(entry)) {
+      rows.push({key: entry.id, row: {kind: 'server', entry}});
+    }
+  }
+
+  return rows.sort((a, b) => b.key - a.key).map(r => r.row);
+}
@@ -1,13 +1,177 @@
+export type ValidatorStrategy = 'both' | 'etag' | 'last-modified' | 'none';
+
+export type ValidatorMatch = 'etag' | 'last-modified' | 'none';
+
+/**
+ * What the server saw and decided, echoed back in X-Request-* /
+ * X-Validator-Match headers. The platform cache adds conditional headers
+ * itself, so JS has no other way to see them.
+ */
+export interface ValidationInfo {
+  sentIfNoneMatch: string | null;
+  sentIfModifiedSince: string | null;
+  matched: ValidatorMatch;
+}
+
+/**
+ * Where cached bodies come from: the platform HTTP cache (OkHttp /
+ * NSURLCache), or our own JS-side cache that revalidates explicitly.
+ */
+export type CacheStrategy = 'native' | 'app';
+
+/**
+ * fetch()'s `cache` option, which React Native ignores; the native module
+ * runs requests with one of these instead. 'no-cache' revalidates what is
+ * stored, 'no-store' neither reads nor writes the cache, 'force-cache' takes
+ * any stored response however stale, 'only-if-cached' never goes to the
+ * network (a miss is a 504).
+ */
+export type CacheMode =
+  | 'default'
+  | 'no-cache'
+  | 'no-store'
+  | 'force-cache'
+  | 'only-if-cached';
+
+/** What the app-level cache did for a fetch; null under the native strategy. */
+export type AppCacheOutcome = 'revalidated' | 'stored' | 'not-stored';
+
+/**
+ * Where a fetch's body came from, judged by the server's request counter:
+ * served from a cache without contacting the server, confirmed by a 304, or
+ * downloaded in full.
+ */
+export type FetchSource = 'cache' | 'revalidated' | 'network' | 'unknown';
+
+/**
+ * How the response body travelled. RN's networking decompresses gzip/br
+ * transparently and OkHttp then drops Content-Encoding and Content-Length,
+ * so these come from the server's X-Content-Encoding / X-Encoded-Length echo.
+ */
+export interface TransferInfo {
+  /** "gzip", "br" or "identity"; null when the server didn't say (304s). */
+  contentEncoding: string | null;
+  /** Bytes on the wire, before decoding; null when unknown. */
+  encodedBytes: number | null;
+  decodedBytes: number;
+}
+
+export interface FetchOptions {
+  strategy?: CacheStrategy;
+  /**
+   * Native strategy only: run the request through the native module with
+   * this cache mode instead of fetch(). 'default' is a plain fetch().
+   */
+  cacheMode?: CacheMode;
+  /** Registered asset to fetch; defaults to the built-in demo asset. */
+  asset?: AssetRef;
+  /** Cancels the fetch; it then rejects with RequestCancelledError. */
+  signal?: AbortSignal;
+  /** Per attempt; see DEFAULT_TIMEOUT_MS in request.ts. */
+  timeoutMs?: number;
+  /** Retries after network errors, timeouts and 5xx; defaults to 2. */
+  retries?: number;
+  /** Return the last good result for the URL when the fetch fails. */
+  staleOnError?: boolean;
+  /**
+   * Lottie JSON only: ask for a JSON Patch from the last body fetched for the
+   * URL instead of the full new body (A-IM: json-patch).
+   */
+  delta?: boolean;
+  /** Called once the fetch has a result or has failed, e.g. to log it. */
+  onSettled?: (fetch: SettledFetch) => void;
+}
+
+/** A finished asset fetch, as FetchOptions.onSettled reports it. */
+export interface SettledFetch {
+  asset: AssetRef;
+  url: string;
+  forced: boolean;
+  strategy: CacheStrategy;
+  cacheMode: CacheMode;
+  startedAt: number;
+  durationMs: number;
+  /** Null when the fetch threw `error`. */
+  result: LottieFetchResult | ImageFetchResult | null;
+  error: unknown;
+}
+
+/** How a Lottie body was rebuilt from a JSON Patch, or why it wasn't. */
+export interface DeltaInfo {
+  /** 'fallback': the patch didn't apply or verify and was fetched in full. */
+  outcome: 'applied' | 'fallback';
+  /** ETag of the body the patch was made against (Delta-Base). */
+  baseEtag: string | null;
+  operations: number;
+  patchBytes: number;
+  /** Size of the full body the server would have sent (X-Full-Length). */
+  fullBytes: number | null;
+  /** fullBytes - patchBytes when applied; the wasted patch when not. */
+  bytesSaved: number;
+  error: string | null;
+}
+
+/** Why a fetch returned an earlier body instead of failing. */
+export interface FallbackInfo {
+  /** The failure that triggered the fallback, e.g. "HTTP 503". */
+  reason: string;
+  /** When the body being returned was fetched, in ms since the epoch. */
+  fetchedAt: number;
+}
+
+export interface HeaderPair {
+  name: string;
+  value: string;
+  /** Where the header came from, when it isn't what it seems. */
+  comment?: string;
+}
+
+/** The HTTP exchange behind a fetch result, as far as the app can see it. */
+export interface HttpExchange {
+  url: string;
+  method: string;
+  /**
+   * Headers the app set, plus validators the platform cache added, which the
+   * app only learns from the server's echo.
+   */
+  requestHeaders: HeaderPair[];
+  responseHeaders: HeaderPair[];
+}
+
 export interface LottieFetchResult {
   status: number;
   etag: string | null;
   lastModified: string | null;
   cacheControl: string | null;
+  expires: string | null;
+  vary: string | null;
+  date: string | null;
+  age: string | null;
+  validation: ValidationInfo | null;
+  appCache: AppCacheOutcome | null;
+  /** X-Request-Id of the server response the body came from (may be cached). */
+  serverRequestId: number | null;
+  source: FetchSource;
   demoVersion: number | null;
   bodySha256: string;
   bodyLength: number;
+  transfer: TransferInfo;
   fetchTimeMs: number;
+  /** When the response arrived, in ms since the epoch (device clock). */
+  receivedAt: number;
+  /** Attempts after the first one. */
+  retries: number;
+  /** Set when this is the last good result standing in for a failed fetch. */
+  fallback: FallbackInfo | null;
+  exchange: HttpExchange;
+  /** Time spent parsing and validating the body, in ms. */
+  parseMs: number;
+  /** Set when the server answered with a patch (226 IM Used). */
+  delta: DeltaInfo | null;
   json: Record<string, unknown> | null;
+  /** The body as a validated Lottie animation; null if it failed validation. */
+  animation: LottieAnimation | null;
+  lottieIssues: LottieIssue[];
 }
 
 export interface ImageFetchResult {
@@ -15,24 +179,808 @@ export interface ImageFetchResult {
   etag: string | null;
   lastModified: string | null;
   cacheControl: string | null;
+  expires: string | null;
+  vary: string | null;
+  date: string | null;
+  age: string | null;
+  validation: ValidationInfo | null;
+  appCache: AppCacheOutcome | null;
+  serverRequestId: number | null;
+  source: FetchSource;
   bodySha256: string;
   bodyLength: number;
+  transfer: TransferInfo;
   fetchTimeMs: number;
+  receivedAt: number;
+  retries: number;
+  fallback: FallbackInfo | null;
+  exchange: HttpExchange;
   base64: string | null;
 }
 
+/** A fetched .lottie archive: the binary result, verified and unpacked. */
+export interface DotLottieFetchResult extends ImageFetchResult {
+  /** SHA-256 the server's manifest lists; null if it couldn't be read. */
+  expectedSha256: string | null;
+  /** Whether the body matches it; null when there was nothing to compare. */
+  verified: boolean | null;
+  archive: DotLottieArchive | null;
+  /** Why the body couldn't be unpacked. */
+  archiveError: string | null;
+}
+
+/** What a private cache does with the next request for a stored response. */
+export type FreshnessPrediction = 'cache' | 'revalidate' | 'refetch';
+
+/** Where a freshness lifetime came from (RFC 9111 §4.2.1). */
+export type LifetimeSource = 'max-age' | 'expires' | 'heuristic' | 'none';
+
+export interface Freshness {
+  /** False for no-store and responses a cache may not keep. */
+  storable: boolean;
+  noCache: boolean;
+  lifetimeSeconds: number;
+  lifetimeSource: LifetimeSource;
+  ageSeconds: number;
+  /** Lifetime minus age; negative once stale. */
+  remainingSeconds: number;
+  prediction: FreshnessPrediction;
+}
+
+/** A prediction made before a fetch, and what the fetch then did. */
+export interface FreshnessCheck {
+  predicted: FreshnessPrediction;
+  /** Null when the fetch's source couldn't be classified. */
+  observed: FreshnessPrediction | null;
+  /** Remaining freshness when the fetch started. */
+  remainingSeconds: number;
+}
+
 export type ImageFormat = 'png' | 'svg';
 
+/** `lottie` is a dotLottie archive. */
+export type AssetKind = 'json' | ImageFormat | 'lottie';
+
+/** Where a registered asset is served, and how to render it. */
+export interface AssetRef {
+  name: string;
+  kind: AssetKind;
+  path: string;
+}
+
+export interface AssetVersionInfo {
+  version: number;
+  bytes: number;
+  sha256: string;
+  uploadedAt: string;
+}
+
+/** One entry of the server's `GET /assets` listing. */
+export interface AssetInfo extends AssetRef {
+  contentType: string;
+  /** The revision being served. */
+  version: number;
+  requestCount: number;
+  versions: AssetVersionInfo[];
+}
+
+/**
+ * Structured description of the caching headers the server sends for an
+ * asset. Omitted fields are not sent; an empty policy sends no Cache-Control.
+ */
+export interface CachePolicy {
+  public?: boolean;
+  private?: boolean;
+  noCache?: boolean;
+  noStore?: boolean;
+  mustRevalidate?: boolean;
+  proxyRevalidate?: boolean;
+  noTransform?: boolean;
+  immutable?: boolean;
+  maxAge?: number;
+  sMaxAge?: number;
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+  /** Seconds relative to the response time; negative means in the past. */
+  expires?: number;
+  vary?: string;
+}
+
+export type CachePolicies = Record<AssetKind, CachePolicy>;
+
+export type ContentEncoding = 'br' | 'gzip';
+
+/**
+ * How ETags differ between encodings of the same body: a suffixed strong
+ * tag per encoding, or one weak tag shared by all of them.
+ */
+export type ETagVariantMode = 'per-encoding' | 'weak';
+
+/** Runtime compression settings of the asset routes; no encodings is off. */
+export interface CompressionSettings {
+  encodings: ContentEncoding[];
+  etags: ETagVariantMode;
+}
+
+/** Ways the server can be told to misbehave on the asset routes. */
+export type FaultType =
+  | 'latency'
+  | 'error'
+  | 'reset'
+  | 'truncate'
+  | 'wrong-length'
+  | 'etag-mismatch'
+  | 'unsolicited-304';
+
+/** What `POST /faults` accepts; omitted fields take the server defaults. */
+export interface FaultSpec {
+  type: FaultType;
+  /** Registered asset name; omitted for all assets. */
+  asset?: string;
+  /** Chance of firing per request, in (0, 1]. */
+  probability?: number;
+  /** Remove the fault after it fires once. */
+  once?: boolean;
+  delayMs?: number;
+  status?: 500 | 503;
+}
+
+/** An active fault, as reported by `/state` and `/faults`. */
+export interface Fault {
+  id: number;
+  type: FaultType;
+  asset: string | null;
+  probability: number;
+  once: boolean;
+  /** Only for latency faults. */
+  delayMs?: number;
+  /** Only for error faults. */
+  status?: number;
+  triggered: number;
+}
+
+/** One entry of the server's `/manifest.json`. */
+export interface ManifestAsset {
+  asset: AssetKind;
+  name: string;
+  path: string;
+  version: number;
+  bytes: number;
+  sha256: string;
+  contentType: string;
+}
+
+export interface AssetManifest {
+  version: number;
+  assets: ManifestAsset[];
+}
+
+/**
+ * What a manifest sync did with one asset: nothing (hash already current),
+ * downloaded a verified body, rejected a body whose hash didn't match the
+ * manifest, or failed to download.
+ */
+export type ManifestSyncOutcome = 'unchanged' | 'updated' | 'mismatch' | 'error';
+
+export interface ManifestSyncItem {
+  asset: AssetRef;
+  expectedSha256: string;
+  outcome: ManifestSyncOutcome;
+  /** The download, for 'updated' and 'mismatch'; never apply a mismatch. */
+  result: LottieFetchResult | ImageFetchResult | null;
+  error: string | null;
+}
+
+export interface ManifestSyncResult {
+  manifest: AssetManifest;
+  items: ManifestSyncItem[];
+}
+
+// --- Lottie ---
+
+export interface LottieKeyframe {
+  t: number;
+  /** Value at `t`; the last keyframe may carry only its time. */
+  s?: number | number[];
+  e?: number | number[];
+  i?: unknown;
+  o?: unknown;
+}
+
+/**
+ * A static value (`a: 0`, which exporters may leave out) or a list of
+ * keyframes (`a: 1`).
+ */
+export type LottieProperty =
+  | {a?: 0; k: number | number[]}
+  | {a: 1; k: LottieKeyframe[]};
+
+/**
+ * A position animated per dimension (`s: true`), as After Effects exports it
+ * when "Separate Dimensions" is on.
+ */
+export type LottieSplitPosition = {
+  s: true;
+  x: LottieProperty;
+  y: LottieProperty;
+  z?: LottieProperty;
+};
+
+export type LottieTransform = Partial<
+  Record<'o' | 'r' | 'a' | 's', LottieProperty>
+> & {p?: LottieProperty | LottieSplitPosition};
+
+export interface LottieShape {
+  ty: string;
+  nm?: string;
+  /** Children of a group (`ty: 'gr'`). */
+  it?: LottieShape[];
+  /** Color of a fill or stroke, as [r, g, b, a] in 0–1. */
+  c?: LottieProperty;
+  [key: string]: unknown;
+}
+
+export interface LottieLayer {
+  ty: number;
+  nm?: string;
+  ind?: number;
+  ip: number;
+  op: number;
+  st?: number;
+  ks: LottieTransform;
+  shapes?: LottieShape[];
+  [key: string]: unknown;
+}
+
+/**
+ * An entry of a Lottie's `assets`: an image at `u` + `p` (or embedded in `p`
+ * as a data URI when `e` is 1), or a precomp with its own `layers`.
+ */
+export interface LottieAsset {
+  id: string;
+  w?: number;
+  h?: number;
+  u?: string;
+  p?: string;
+  e?: number;
+  layers?: LottieLayer[];
+  [key: string]: unknown;
+}
+
+export interface LottieAnimation {
+  v: string;
+  fr: number;
+  ip: number;
+  op: number;
+  w: number;
+  h: number;
+  nm?: string;
+  layers: LottieLayer[];
+  assets?: LottieAsset[];
+  demoVersion?: number;
+  [key: string]: unknown;
+}
+
+// --- dotLottie ---
+
+/** The parts of a .lottie `manifest.json` the app uses. */
+export interface DotLottieManifest {
+  version?: string;
+  generator?: string;
+  author?: string;
+  animations: {id: string; speed?: number; loop?: boolean; autoplay?: boolean}[];
+  activeAnimationId?: string;
+  [key: string]: unknown;
+}
+
+export interface DotLottieAnimationEntry {
+  id: string;
+  /** Validated, with its images embedded; null if it failed validation. */
+  animation: LottieAnimation | null;
+  issues: LottieIssue[];
+}
+
+/** A .lottie archive unpacked in JS, and what that cost. */
+export interface DotLottieArchive {
+  manifest: DotLottieManifest;
+  animations: DotLottieAnimationEntry[];
+  /** Every file in the archive, with its uncompressed size. */
+  files: {path: string; bytes: number}[];
+  unzipMs: number;
+  /** JSON parsing, validation and image embedding of every animation. */
+  parseMs: number;
+}
+
+/** Requests, bytes and time spent delivering the same animations one way. */
+export interface DeliveryStats {
+  requests: number;
+  /** Body bytes as received, before decoding. */
+  bytes: number;
+  cacheHits: number;
+  failed: number;
+  /** Sum of the request times. */
+  fetchMs: number;
+  parseMs: number;
+}
+
+/** One .lottie archive against its animations and images fetched separately. */
+export interface DeliveryComparison {
+  archive: DeliveryStats;
+  separate: DeliveryStats;
+  /** Animation ids of the archive that have no separate JSON on the server. */
+  missing: string[];
+}
+
+/** How one image referenced by a Lottie was loaded. */
+export interface LottieImageLoad {
+  /** The `assets[].id` referencing it. */
+  id: string;
+  url: string;
+  /** Null when the fetch failed. */
+  source: FetchSource | null;
+  status: number | null;
+  bytes: number;
+  /** Bytes on the wire, when the server said. */
+  encodedBytes: number | null;
+  fetchTimeMs: number;
+  appCache: AppCacheOutcome | null;
+  error: string | null;
+}
+
+export interface LottieImageReport {
+  /** The animation with every loaded image embedded as a data URI. */
+  animation: LottieAnimation;
+  images: LottieImageLoad[];
+  /** Images served from a cache without contacting the server. */
+  cacheHits: number;
+  failed: number;
+}
+
+export interface LottieIssue {
+  /** JSON path of the offending value, e.g. `layers[0].shapes[1].c`. */
+  path: string;
+  message: string;
+}
+
+export interface LottieMetadata {
+  version: string;
+  frameRate: number;
+  frames: number;
+  durationSeconds: number;
+  width: number;
+  height: number;
+  layerCount: number;
+  shapeCount: number;
+  animatedProperties: number;
+  /** Fill and stroke colors as #rrggbb, in order of first use. */
+  colors: string[];
+}
+
+export type LottieChangeKind =
+  | 'settingChanged'
+  | 'layerAdded'
+  | 'layerRemoved'
+  | 'layerRenamed'
+  | 'shapeAdded'
+  | 'shapeRemoved'
+  | 'colorChanged'
+  | 'valueChanged'
+  | 'keyframesChanged';
+
+export interface LottieChange {
+  kind: LottieChangeKind;
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
 export interface ServerState {
+  /** The session this state belongs to; missing on servers without sessions. */
+  session?: SessionInfo;
   mode: string;
   version: number;
+  /** Versions the server has content for; missing on older servers. */
+  versions?: number[];
+  /** Pending rollout steps, soonest first; missing on older servers. */
+  schedule?: ScheduledVersion[];
   lastModified: string;
   etag: string;
   requestCount: number;
   jsonCount: number;
   pngCount: number;
   svgCount: number;
+  /** Request counts by registered asset name. */
+  assetCounts: Record<string, number>;
   cacheControl: string | null;
+  policies: CachePolicies;
+  /** Per-asset overrides by registered name; missing on older servers. */
+  assetPolicies?: Record<string, CachePolicy>;
+  validators: ValidatorStrategy;
+  weakETags: boolean;
+  compression: CompressionSettings;
+  faults: Fault[];
 }
 
 export type Mode = "A" | "B";
+
+/** A rollout step as sent to POST /schedule. */
+export interface RolloutStep {
+  version: number;
+  /** Seconds after the schedule is set. */
+  afterSeconds: number;
+}
+
+/** A pending rollout step as the server reports it. */
+export interface ScheduledVersion {
+  version: number;
+  /** When the step takes effect (server clock). */
+  at: string;
+  /** Seconds left when the state was read. */
+  inSeconds: number;
+}
+
+/**
+ * A namespace of server state (versions, policies, counters, journal) so
+ * several testers can share one server. "default" never expires.
+ */
+export interface SessionInfo {
+  id: string;
+  label: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  /** Pushed back by every request in the session; null for "default". */
+  expiresAt: string | null;
+  ttlSeconds: number | null;
+  version: number;
+  requestCount: number;
+}
+
+/** A demo server saved on the device. */
+export interface ServerProfile {
+  id: string;
+  name: string;
+  /** Normalized: scheme, host and optional port and path, no trailing slash. */
+  baseUrl: string;
+  notes: string;
+}
+
+/** Outcome of a `GET /state` probe against a server. */
+export interface ReachabilityResult {
+  reachable: boolean;
+  latencyMs: number;
+  /** Lottie version the server reports; null when unreachable. */
+  version: number | null;
+  error: string | null;
+}
+
+export interface AssetCacheEntry {
+  url: string;
+  /** UTF-8 text for JSON/SVG, base64 for binary bodies. */
+  body: string;
+  encoding: 'utf8' | 'base64';
+  etag: string | null;
+  lastModified: string | null;
+  cacheControl: string | null;
+  fetchedAt: number;
+  lastAccessedAt: number;
+  size: number;
+}
+
+export interface AssetCacheStats {
+  entries: Omit<AssetCacheEntry, 'body'>[];
+  totalBytes: number;
+  maxBytes: number;
+  maxEntries: number;
+}
+
+// --- Scenarios ---
+
+/** A reference to an earlier fetch step: its 1-based step number or its `id`. */
+export type StepRef = number | string;
+
+export type ScenarioAssertion =
+  | {type: 'status'; equals: number}
+  | {type: 'demoVersion'; equals: number}
+  | {type: 'shaChanged'; since: StepRef}
+  | {type: 'shaUnchanged'; since: StepRef}
+  | {type: 'serverHit'; equals: boolean}
+  | {type: 'validatorMatched'; equals: ValidatorMatch};
+
+export type ScenarioStep =
+  | {action: 'reset'}
+  | {action: 'setMode'; mode: Mode}
+  | {action: 'setPolicy'; policy: CachePolicy; asset?: AssetKind}
+  | {action: 'setLastModified'; iso: string}
+  | {action: 'setValidators'; validators?: ValidatorStrategy; weak?: boolean}
+  | {
+      action: 'setCompression';
+      encodings?: ContentEncoding[];
+      etags?: ETagVariantMode;
+    }
+  | {action: 'flip'}
+  | {
+      action: 'fetch';
+      asset: AssetKind;
+      id?: string;
+      force?: boolean;
+      strategy?: CacheStrategy;
+      expect?: ScenarioAssertion[];
+    }
+  | {action: 'wait'; seconds: number};
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  steps: ScenarioStep[];
+}
+
+export interface ScenarioFetchRecord {
+  asset: AssetKind;
+  status: number;
+  bodySha256: string;
+  demoVersion: number | null;
+  fetchTimeMs: number;
+  source: FetchSource;
+  serverHit: boolean | null;
+  validatorMatched: ValidatorMatch | null;
+}
+
+export interface AssertionResult {
+  description: string;
+  passed: boolean;
+  actual: string;
+}
+
+export interface StepReport {
+  index: number;
+  label: string;
+  passed: boolean;
+  error: string | null;
+  durationMs: number;
+  fetch: ScenarioFetchRecord | null;
+  assertions: AssertionResult[];
+}
+
+export interface ScenarioReport {
+  name: string;
+  passed: boolean;
+  startedAt: string;
+  durationMs: number;
+  steps: StepReport[];
+}
+
+// --- Native HTTP cache introspection ---
+
+export interface NativeCacheInfo {
+  directory: string;
+  size: number;
+  /** null where the platform doesn't report it (see NativeHttpCache). */
+  maxSize: number | null;
+  hitCount: number | null;
+  networkCount: number | null;
+  requestCount: number | null;
+  canEnumerate: boolean;
+}
+
+export interface NativeCachedResponse {
+  url: string;
+  status: number;
+  /** Stored response headers, keyed by lower-case name. */
+  headers: Record<string, string>;
+  storedAt: Date | null;
+  ageSeconds: number | null;
+  bodySize: number | null;
+}
+
+export interface NativeCacheConfig {
+  directory: string;
+  maxSize: number;
+  /** iOS: fetch() keeps the cache it started with until the next launch. */
+  appliesOnRestart: boolean;
+}
+
+// --- Server request journal ---
+
+export interface JournalEntry {
+  id: number;
+  timestamp: string;
+  method: string;
+  path: string;
+  asset: AssetKind | null;
+  /** Registered asset name, for asset requests. */
+  name: string | null;
+  ifNoneMatch: string | null;
+  ifModifiedSince: string | null;
+  etag: string | null;
+  matched: ValidatorMatch | null;
+  /** Content coding of the response body, for asset requests. */
+  encoding: string | null;
+  /** Injected faults that fired for this request. */
+  faults: FaultType[];
+  /** 0 when the connection was dropped before a response was sent. */
+  status: number;
+  bytesSent: number;
+  durationMs: number;
+  mode: string;
+  version: number;
+}
+
+/** A fetch made from the app, as recorded for the timeline. */
+export interface ClientFetchRecord {
+  id: number;
+  asset: AssetKind;
+  startedAt: number;
+  finishedAt: number;
+  status: number | null;
+  error: string | null;
+  serverRequestId: number | null;
+  /** Highest journal id the app had seen when the fetch started. */
+  journalIdAtStart: number;
+}
+
+export type TimelineRow =
+  | {
+      kind: 'fetch';
+      fetch: ClientFetchRecord;
+      /** The journal entry this fetch produced, if it reached the server. */
+      entry: JournalEntry | null;
+      /** An older entry whose response was replayed from cache, if known. */
+      cachedFrom: number | null;
+    }
+  | {kind: 'server'; entry: JournalEntry};
+
+/** What made a fetch in the run log. */
+export type RunFetchOrigin =
+  | 'button'
+  | 'background'
+  | 'scenario'
+  | 'manifest'
+  | 'benchmark';
+
+/** An asset fetch, as kept in the run log. */
+export interface RunFetchEntry {
+  kind: 'fetch';
+  /** Missing on runs recorded when only the Fetch buttons were logged. */
+  origin?: RunFetchOrigin;
+  id: number;
+  startedAt: number;
+  durationMs: number;
+  asset: string;
+  url: string;
+  forced: boolean;
+  strategy: CacheStrategy;
+  /** Missing on runs recorded before cache modes, which were all 'default'. */
+  cacheMode?: CacheMode;
+  /** Null when the fetch failed before a response arrived. */
+  exchange: HttpExchange | null;
+  status: number | null;
+  source: FetchSource | null;
+  bodySha256: string | null;
+  bodyBytes: number | null;
+  transfer: TransferInfo | null;
+  retries: number;
+  fallback: FallbackInfo | null;
+  error: string | null;
+  /** Server state right after the fetch, if it could be read. */
+  serverState: ServerState | null;
+}
+
+/** A server control action (flip, mode, policy, ...), as kept in the run log. */
+export interface RunActionEntry {
+  kind: 'action';
+  id: number;
+  startedAt: number;
+  durationMs: number;
+  name: string;
+  /** What the action did, as logged. */
+  detail: string | null;
+  error: string | null;
+  serverState: ServerState | null;
+}
+
+export type RunEntry = RunFetchEntry | RunActionEntry;
+
+// --- Benchmarks ---
+
+/** 'cold': both caches cleared before every fetch; 'warm': primed once. */
+export type BenchmarkPhase = 'cold' | 'warm';
+
+export interface BenchmarkConfig {
+  /** Measured fetches per mode, asset and phase. */
+  iterations: number;
+  modes: Mode[];
+  assets: AssetRef[];
+  phases: BenchmarkPhase[];
+  strategy: CacheStrategy;
+}
+
+/** Fetch times in ms; percentiles are nearest-rank. */
+export interface TimingStats {
+  count: number;
+  min: number;
+  p50: number;
+  p95: number;
+  max: number;
+  mean: number;
+}
+
+export interface BenchmarkCell {
+  mode: Mode;
+  asset: string;
+  kind: AssetKind;
+  phase: BenchmarkPhase;
+  /** Null when every fetch failed. */
+  timing: TimingStats | null;
+  /** Wire bytes of the bodies that came from the server, not a cache. */
+  bytes: number;
+  /** Requests the server counted for the asset; null if /state failed. */
+  serverRequests: number | null;
+  sources: Record<FetchSource, number>;
+  errors: number;
+}
+
+/** Where a benchmark ran, so runs from several devices can be told apart. */
+export interface BenchmarkDevice {
+  platform: string;
+  osVersion: string;
+  reactNative: string;
+}
+
+export interface BenchmarkRun {
+  id: string;
+  startedAt: string;
+  durationMs: number;
+  serverUrl: string;
+  device: BenchmarkDevice;
+  iterations: number;
+  strategy: CacheStrategy;
+  cells: BenchmarkCell[];
+}
+
+/** One mode/asset/phase across the compared runs; null where a run lacks it. */
+export interface BenchmarkComparisonRow {
+  key: string;
+  cells: (BenchmarkCell | null)[];
+}
+
+// --- Image diffs ---
+
+/** A decoded image: 8-bit RGBA, row by row. */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  rgba: Uint8Array;
+}
+
+/** Two PNG revisions compared pixel by pixel. */
+export interface PixelDiff {
+  /** The overlay's size: the larger of the two in each dimension. */
+  width: number;
+  height: number;
+  before: {width: number; height: number};
+  after: {width: number; height: number};
+  /** Pixels whose RGBA differs, or that only one of the images covers. */
+  changedPixels: number;
+  totalPixels: number;
+  changedPercent: number;
+  /** Changed pixels in red over a dimmed copy of `after`. */
+  overlay: DecodedImage;
+}
+
+export type SvgChangeKind =
+  | 'elementAdded'
+  | 'elementRemoved'
+  | 'attributeAdded'
+  | 'attributeRemoved'
+  | 'attributeChanged'
+  | 'textChanged';
+
+export interface SvgChange {
+  kind: SvgChangeKind;
+  /** Element path, e.g. `svg > g#layer > circle[1]`. */
+  path: string;
+  /** The attribute, for attribute changes. */
+  attribute: string | null;
+  before: string | null;
+  after: string | null;
+}
@@ -0,0 +1,210 @@
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {AppState} from 'react-native';
+import {RequestCancelledError} from './request';
+import type {FallbackInfo, FetchSource} from './types';
+
+/** What a revalidation needs to know about a fetch result. */
+export interface RevalidatedBody {
+  status: number;
+  source: FetchSource;
+  bodySha256: string;
+  bodyLength: number;
+  fallback: FallbackInfo | null;
+}
+
+export type RevalidationTrigger =
+  | 'shown'
+  | 'interval'
+  | 'foreground'
+  | 'manual';
+
+export interface RevalidationState {
+  /**
+   * 'fresh' once a revalidation, or a fetch passed to confirm(), returned
+   * the body on screen; 'stale' before that and after one that failed.
+   */
+  freshness: 'stale' | 'fresh';
+  revalidating: boolean;
+  lastTrigger: RevalidationTrigger | null;
+  lastCheckedAt: number | null;
+  lastSource: FetchSource | null;
+  checks: number;
+  /** Revalidations that brought a new body. */
+  swaps: number;
+  error: string | null;
+}
+
+export interface StaleWhileRevalidateOptions<R> {
+  /**
+   * What is on screen, e.g. URL and cache strategy; null turns revalidation
+   * off. A new key starts over and revalidates straight away.
+   */
+  key: string | null;
+  /** SHA-256 of the body on screen; null when nothing is shown. */
+  shownSha256: string | null;
+  load: (signal: AbortSignal) => Promise<R>;
+  /** A revalidation returned a body other than the one on screen. */
+  onChange: (result: R) => void;
+  /** Time between background revalidations; null for none. */
+  intervalMs: number | null;
+}
+
+type Status = Omit<RevalidationState, 'freshness'> & {
+  confirmedSha256: string | null;
+};
+
+const INITIAL_STATUS: Status = {
+  confirmedSha256: null,
+  revalidating: false,
+  lastTrigger: null,
+  lastCheckedAt: null,
+  lastSource: null,
+  checks: 0,
+  swaps: 0,
+  error: null,
+};
+
+// A body worth showing, or why not: fallbacks and errors keep what's shown.
+function problemWith(result: RevalidatedBody): string | null {
+  if (result.fallback) {
+    return `served stale: ${result.fallback.reason}`;
+  }
+  if (result.status >= 400 || result.bodyLength === 0) {
+    return `HTTP ${result.status} without a usable body`;
+  }
+  return null;
+}
+
+/**
+ * Keeps whatever is on screen and revalidates it in the background: when it
+ * is first shown, every `intervalMs` and whenever the app returns to the
+ * foreground. onChange() only runs when the body's hash differs from the one
+ * shown, so an unchanged body never re-renders the preview. One
+ * revalidation runs at a time; triggers during it are dropped.
+ */
+export function useStaleWhileRevalidate<R extends RevalidatedBody>(
+  options: StaleWhileRevalidateOptions<R>,
+): RevalidationState & {
+  revalidate: () => void;
+  /** Reports a body fetched outside the hook that is now on screen. */
+  confirm: (result: R) => void;
+} {
+  const {key, shownSha256, intervalMs} = options;
+  const [status, setStatus] = useState(INITIAL_STATUS);
+  // Read when a revalidation settles, so it sees the latest shown hash.
+  const latest = useRef(options);
+  latest.current = options;
+  const inFlight = useRef<AbortController | null>(null);
+
+  const run = useCallback(
+    (trigger: RevalidationTrigger) => {
+      if (key === null || inFlight.current) {
+        return;
+      }
+      const controller = new AbortController();
+      inFlight.current = controller;
+      setStatus(s => ({...s, revalidating: true, lastTrigger: trigger}));
+      latest.current
+        .load(controller.signal)
+        .then(
+          result => {
+            if (controller.signal.aborted) {
+              return;
+            }
+            const problem = problemWith(result);
+            const changed =
+              problem === null &&
+              result.bodySha256 !== latest.current.shownSha256;
+            if (changed) {
+              latest.current.onChange(result);
+            }
+            setStatus(s => ({
+              ...s,
+              confirmedSha256:
+                problem === null ? result.bodySha256 : s.confirmedSha256,
+              revalidating: false,
+              lastCheckedAt: Date.now(),
+              lastSource: result.source,
+              checks: s.checks + 1,
+              swaps: s.swaps + (changed ? 1 : 0),
+              error: problem,
+            }));
+          },
+          (e: unknown) => {
+            if (
+              controller.signal.aborted ||
+              e instanceof RequestCancelledError
+            ) {
+              return;
+            }
+            setStatus(s => ({
+              ...s,
+              revalidating: false,
+              lastCheckedAt: Date.now(),
+              lastSource: null,
+              checks: s.checks + 1,
+              error: e instanceof Error ? e.message : String(e),
+            }));
+          },
+        )
+        .finally(() => {
+          if (inFlight.current === controller) {
+            inFlight.current = null;
+          }
+        });
+    },
+    [key],
+  );
+
+  useEffect(() => {
+    setStatus(INITIAL_STATUS);
+    run('shown');
+    return () => {
+      inFlight.current?.abort();
+      inFlight.current = null;
+    };
+  }, [run]);
+
+  useEffect(() => {
+    if (key === null || !intervalMs) {
+      return;
+    }
+    const timer = setInterval(() => run('interval'), intervalMs);
+    return () => clearInterval(timer);
+  }, [key, intervalMs, run]);
+
+  useEffect(() => {
+    if (key === null) {
+      return;
+    }
+    let previous = AppState.currentState;
+    const subscription = AppState.addEventListener('change', next => {
+      if (next === 'active' && previous !== 'active') {
+        run('foreground');
+      }
+      previous = next;
+    });
+    return () => subscription.remove();
+  }, [key, run]);
+
+  const revalidate = useCallback(() => run('manual'), [run]);
+  const confirm = useCallback((result: R) => {
+    const problem = problemWith(result);
+    setStatus(s => ({
+      ...s,
+      confirmedSha256: problem === null ? result.bodySha256 : s.confirmedSha256,
+      lastCheckedAt: Date.now(),
+      lastSource: result.source,
+      error: problem,
+    }));
+  }, []);
+
+  const {confirmedSha256, ...rest} = status;
+  const freshness =
+    confirmedSha256 !== null &&
+    confirmedSha256 === shownSha256 &&
+    rest.error === null
+      ? 'fresh'
+      : 'stale';
+  return {...rest, freshness, revalidate, confirm};
+}
@@ -2,161 +2,1219 @@ const express = require("express");
 const crypto = require("crypto");
 const fs = require("fs");
 const path = require("path");
+const zlib = require("zlib");
+const { unzipSync, zipSync } = require("fflate");
+const { PNG } = require("pngjs");
 
 const app = express();
-app.use(express.json());
+// Sessions come first: a /s/<id> prefix is stripped before any other
+// middleware looks at the path.
+app.use(resolveSession);
+// Asset uploads (POST /assets/:name) take the raw body, whatever its type.
+app.use(express.json({ type: (req) => Boolean(req.is("application/json")) && !isAssetUpload(req) }));
+// Validators are managed per route below; don't let Express add its own ETag.
+app.set("etag", false);
+
+// --- Cache policies ---
+// A policy is a structured description of the caching headers sent with an
+// asset. Every field is optional; an empty policy sends no Cache-Control
+// (heuristic caching, the old Mode A).
+const ASSETS = ["json", "png", "svg", "lottie"];
+const BOOLEAN_DIRECTIVES = ["public", "private", "noCache", "noStore", "mustRevalidate", "proxyRevalidate", "noTransform", "immutable"];
+const SECONDS_DIRECTIVES = ["maxAge", "sMaxAge", "staleWhileRevalidate", "staleIfError"];
+const DIRECTIVE_NAMES = {
+  public: "public",
+  private: "private",
+  noCache: "no-cache",
+  noStore: "no-store",
+  mustRevalidate: "must-revalidate",
+  proxyRevalidate: "proxy-revalidate",
+  noTransform: "no-transform",
+  immutable: "immutable",
+  maxAge: "max-age",
+  sMaxAge: "s-maxage",
+  staleWhileRevalidate: "stale-while-revalidate",
+  staleIfError: "stale-if-error",
+};
+const VALIDATOR_STRATEGIES = ["both", "etag", "last-modified", "none"];
+const MODE_PRESETS = {
+  A: {},
+  B: { public: true, maxAge: 30 },
+};
+
+// The manifest is always revalidated: it's the one request a client makes to
+// learn whether anything changed, so it must never be served stale.
+const MANIFEST_CACHE_CONTROL = "no-cache";
+
+// --- Asset registry ---
+// Every servable asset by name, with its revision history. The asset kind
+// (json/png/svg/lottie) follows from the content type and selects the cache
+// policy.
+// The demo assets keep their original URLs as aliases of /assets/:name. The
+// sticker Lottie references its images by relative URL, and those are assets
+// of their own, each with its ETag, counters and (optionally) cache policy.
+const CONTENT_TYPE_KINDS = {
+  "application/json": "json",
+  "image/png": "png",
+  "image/svg+xml": "svg",
+  "application/zip+dotlottie": "lottie",
+};
+const BUILTIN_ASSETS = [
+  { name: "lottie.json", alias: "/lottie.json", contentType: "application/json", files: ["v1.json", "v2.json"] },
+  { name: "image.png", alias: "/image.png", contentType: "image/png", files: ["v1.png", "v2.png"] },
+  { name: "image.svg", alias: "/image.svg", contentType: "image/svg+xml", files: ["v1.svg", "v2.svg"] },
+  { name: "sticker.json", alias: null, contentType: "application/json", files: ["sticker-v1.json", "sticker-v2.json"] },
+  { name: "sticker-a.png", alias: null, contentType: "image/png", files: ["v1.png", "v2.png"] },
+  { name: "sticker-b.png", alias: null, contentType: "image/png", files: ["v2.png", "v1.png"] },
+];
+const PRIMARY_ASSET = "lottie.json";
+
+// --- dotLottie ---
+// .lottie archives (https://dotlottie.io/structure/): a zip holding
+// manifest.json, the animations under animations/ and the images they
+// reference under images/. The demo archive is built from the demo Lotties,
+// one revision per revision of its sources, so /flip switches it with them.
+const DOTLOTTIE_BUNDLES = [{ name: "demo.lottie", alias: "/demo.lottie", animations: ["lottie.json", "sticker.json"] }];
+const ASSET_NAME_PATTERN = /^[A-Za-z0-9][\w.-]*$/;
+const UPLOAD_LIMIT = "20mb";
+
+// --- Version timeline ---
+// A session serves every asset at one timeline version: the asset's newest
+// revision not above it. The demo assets ship v1 and v2; later versions are
+// derived from those on first use (v3 from v1, v4 from v2, ...) with their
+// colors rotated and demoVersion stamped, so each one looks and hashes
+// differently. A rollout schedule moves the timeline at set times.
+const MAX_VERSION = 50;
+const MAX_SCHEDULE_SECONDS = 24 * 60 * 60;
+
+// --- Compression ---
+// Content negotiation on the asset routes. Encodings are listed in server
+// preference order, which breaks q-value ties. PNGs are already compressed
+// and always go out as identity. A compressed response is a different
+// representation, so it needs its own ETag ("per-encoding") or a weak one
+// shared by all encodings ("weak").
+const ENCODINGS = ["br", "gzip"];
+const ETAG_VARIANT_MODES = ["per-encoding", "weak"];
+const COMPRESSIBLE_KINDS = ["json", "svg"];
+
+// --- Delta updates ---
+// RFC 3229 delta encoding with JSON Patch (RFC 6902) for Lottie JSON. A client
+// that sends "A-IM: json-patch" and names an older revision in If-None-Match
+// gets "226 IM Used" with a patch from that revision instead of the full body,
+// unless the patch would be larger. Lottie JSON is stored as jsonBody()
+// serializes it, so a client rebuilds the exact served bytes with
+// JSON.stringify(target, null, 2); their SHA-256 is sent as
+// X-Delta-Target-SHA256 so the client can check what it rebuilt.
+const DELTA_IM = "json-patch";
+const DELTA_KINDS = ["json"];
+
+// --- Fault injection ---
+// Faults make the asset routes misbehave the way a broken CDN would. Each
+// targets one asset by name (or all of them), fires with a probability, and
+// is removed after firing if it is one-shot. Latency combines with the other
+// faults; of those, the first one that fires decides the response.
+const FAULT_TYPES = ["latency", "error", "reset", "truncate", "wrong-length", "etag-mismatch", "unsolicited-304"];
+const FAULT_ERROR_STATUSES = [500, 503];
+const DEFAULT_FAULT_LATENCY_MS = 3000;
+
+const JOURNAL_LIMIT = 200;
+const JOURNAL_PATHS_EXCLUDED = ["/requests", "/requests/stream"];
+
+// --- Sessions ---
+// Every piece of mutable state below lives in a session, so testers sharing
+// a server don't flip, reconfigure or count each other's requests. Clients
+// pick one with a /s/<id>/... URL prefix (which also keeps their cache
+// entries apart) or an X-Session-Id header; anything else uses "default",
+// which never expires.
+const DEFAULT_SESSION = "default";
+const SESSION_PREFIX = /^\/s\/([^/]+)(\/.*)?$/;
+const DEFAULT_SESSION_TTL_SECONDS = 30 * 60;
+const MAX_SESSION_TTL_SECONDS = 24 * 60 * 60;
+const SESSION_SWEEP_MS = 60 * 1000;
+const DEFAULT_LAST_MODIFIED = "2025-12-01T00:00:00Z";
 
 // --- State ---
-let currentVersion = 1; // 1 or 2
-let mode = "A"; // "A" = no Cache-Control, "B" = with Cache-Control
-let lastModified = new Date("2025-12-01T00:00:00Z");
-let requestCount = { json: 0, png: 0, svg: 0 };
+const sessions = new Map();
+let journalSeq = 0; // Shared, so request ids stay unique across sessions
 
 // --- Helpers ---
 function formatIST(date) {
   return date.toLocaleString("en-IN", { timeZone: "Asia/Kolkata" });
 }
 
-function loadLottie(version) {
-  const file = path.join(__dirname, "assets", `v${version}.json`);
-  return fs.readFileSync(file, "utf8");
+function sha256Hex(body) {
+  return crypto.createHash("sha256").update(body).digest("hex");
 }
 
-function loadImage(version, ext) {
-  const file = path.join(__dirname, "assets", `v${version}.${ext}`);
-  return fs.readFileSync(file);
+// The serialization Lottie JSON revisions are stored and served in.
+function jsonBody(value) {
+  return Buffer.from(JSON.stringify(value, null, 2));
 }
 
-function computeETag(body) {
-  const hash = crypto.createHash("sha256").update(body).digest("hex");
-  return `"${hash}"`;
+function makeRevision(version, body) {
+  return { version, body, bytes: body.length, sha256: sha256Hex(body), uploadedAt: new Date() };
 }
 
-// --- Endpoints ---
+// The demo assets with their v1/v2 files, v1 being served.
+function defaultRegistry() {
+  const assets = new Map();
+  for (const { name, alias, contentType, files } of BUILTIN_ASSETS) {
+    const kind = CONTENT_TYPE_KINDS[contentType];
+    const read = (file) => {
+      const body = fs.readFileSync(path.join(__dirname, "assets", file));
+      return kind === "json" ? jsonBody(JSON.parse(body.toString("utf8"))) : body;
+    };
+    assets.set(name, {
+      name,
+      alias,
+      contentType,
+      kind,
+      revisions: files.map((file, i) => makeRevision(i + 1, read(file))),
+      current: 1,
+      requestCount: 0,
+    });
+  }
+  for (const { name, alias, animations } of DOTLOTTIE_BUNDLES) {
+    assets.set(name, {
+      name,
+      alias,
+      contentType: "application/zip+dotlottie",
+      kind: "lottie",
+      revisions: [0, 1].map((i) => makeRevision(i + 1, buildDotLottie(assets, animations, i))),
+      current: 1,
+      requestCount: 0,
+    });
+  }
+  return assets;
+}
 
-// GET /lottie.json — Serve current Lottie with conditional GET support
-app.get("/lottie.json", (req, res) => {
-  requestCount.json++;
-  const body = loadLottie(currentVersion);
-  const etag = computeETag(body);
-  const lastMod = lastModified.toUTCString();
+// Zips revision `index` of the named Lotties, with the registry images they
+// reference moved under images/. Entries get a fixed timestamp so the bytes,
+// and therefore the ETag, don't change between server restarts.
+function buildDotLottie(registry, names, index) {
+  const files = {};
+  const animations = [];
+  for (const name of names) {
+    const id = name.replace(/\.json$/, "");
+    const animation = JSON.parse(registry.get(name).revisions[index].body.toString("utf8"));
+    for (const image of animation.assets || []) {
+      const source = image.e !== 1 && registry.get(image.p);
+      if (source) {
+        files[`images/${image.p}`] = [source.revisions[index].body, { level: 0 }];
+        image.u = "/images/";
+      }
+    }
+    files[`animations/${id}.json`] = Buffer.from(JSON.stringify(animation));
+    animations.push({ id, speed: 1, loop: true, autoplay: true });
+  }
+  const manifest = { version: "1", generator: "lottie-cache-server", animations, activeAnimationId: animations[0].id };
+  files["manifest.json"] = Buffer.from(JSON.stringify(manifest, null, 2));
+  return Buffer.from(zipSync(files, { mtime: new Date(DEFAULT_LAST_MODIFIED) }));
+}
 
-  console.log(`\n--- /lottie.json request #${requestCount.json} [${formatIST(new Date())}] ---`);
-  console.log(`  Mode: ${mode} | Version: v${currentVersion}`);
-  console.log(`  If-None-Match: ${req.headers["if-none-match"] || "(none)"}`);
-  console.log(`  If-Modified-Since: ${req.headers["if-modified-since"] || "(none)"}`);
-  console.log(`  ETag: ${etag}`);
-  console.log(`  Last-Modified: ${lastMod} (IST: ${formatIST(lastModified)})`);
-
-  // Conditional GET: check If-None-Match
-  const clientETag = req.headers["if-none-match"];
-  if (clientETag && clientETag === etag) {
-    console.log(`  → 304 Not Modified`);
-    res.set("ETag", etag);
-    res.set("Last-Modified", lastMod);
-    if (mode === "B") {
-      res.set("Cache-Control", "public, max-age=30");
+// The state a session starts with, and returns to on /reset.
+function defaultSessionState() {
+  return {
+    registry: defaultRegistry(),
+    policies: defaultPolicies(),
+    assetPolicies: {}, // Per-asset overrides of the kind's policy, by name
+    lastModified: new Date(DEFAULT_LAST_MODIFIED),
+    validators: "both", // "both" | "etag" | "last-modified" | "none"
+    weakETags: false,
+    compression: defaultCompression(),
+    faults: [],
+    schedule: [], // Pending rollout steps, {version, at}, soonest first
+  };
+}
+
+function createSession(id, label = null, ttlSeconds = DEFAULT_SESSION_TTL_SECONDS) {
+  const now = new Date();
+  const session = {
+    id,
+    label,
+    ttlSeconds, // null: never expires
+    createdAt: now,
+    lastSeenAt: now,
+    ...defaultSessionState(),
+    faultSeq: 0,
+    // Request journal: bounded, in memory, with live subscribers (SSE responses).
+    journal: [],
+    journalSubscribers: new Set(),
+  };
+  sessions.set(id, session);
+  return session;
+}
+
+function sessionExpiresAt(session) {
+  return session.ttlSeconds === null ? null : new Date(session.lastSeenAt.getTime() + session.ttlSeconds * 1000);
+}
+
+function describeSession(session) {
+  const expiresAt = sessionExpiresAt(session);
+  return {
+    id: session.id,
+    label: session.label,
+    createdAt: session.createdAt.toISOString(),
+    lastSeenAt: session.lastSeenAt.toISOString(),
+    expiresAt: expiresAt ? expiresAt.toISOString() : null,
+    ttlSeconds: session.ttlSeconds,
+    version: currentVersion(session),
+    requestCount: [...session.registry.values()].reduce((sum, asset) => sum + asset.requestCount, 0),
+  };
+}
+
+function expireSession(session, reason) {
+  sessions.delete(session.id);
+  for (const subscriber of session.journalSubscribers) {
+    subscriber.end();
+  }
+  console.log(`\n[SESSION] [${formatIST(new Date())}] Expired ${session.id} (${reason})`);
+}
+
+// " (session <id>)" for log lines, empty for the default session.
+function inSession(session) {
+  return session.id === DEFAULT_SESSION ? "" : ` (session ${session.id})`;
+}
+
+// Returns a normalized {label, ttlSeconds} for a new session, or throws with
+// a message suitable for a 400 response.
+function validateSessionOptions(input) {
+  const { label = null, ttlSeconds = DEFAULT_SESSION_TTL_SECONDS } = input || {};
+  if (label !== null && typeof label !== "string") throw new Error("label must be a string");
+  if (!Number.isInteger(ttlSeconds) || ttlSeconds < 1 || ttlSeconds > MAX_SESSION_TTL_SECONDS) {
+    throw new Error(`ttlSeconds must be an integer between 1 and ${MAX_SESSION_TTL_SECONDS}`);
+  }
+  return { label: label && label.trim() ? label.trim() : null, ttlSeconds };
+}
+
+// Middleware: finds the request's session, strips a /s/<id> prefix so routes
+// see the plain path, and keeps the session alive.
+function resolveSession(req, res, next) {
+  let id = req.headers["x-session-id"] || DEFAULT_SESSION;
+  const match = SESSION_PREFIX.exec(req.path);
+  if (match) {
+    try {
+      id = decodeURIComponent(match[1]);
+    } catch {
+      return res.status(400).json({ error: `malformed session id "${match[1]}"` });
     }
-    return res.status(304).end();
+    req.url = (match[2] || "/") + req.url.slice(req.path.length);
   }
+  const session = sessions.get(id);
+  if (!session) {
+    return res.status(404).json({ error: `unknown or expired session "${id}"` });
+  }
+  session.lastSeenAt = new Date();
+  advanceSchedule(session, session.lastSeenAt);
+  res.locals.session = session;
+  res.set("X-Session-Id", session.id);
+  next();
+}
 
-  // Full response
-  console.log(`  → 200 OK (${body.length} bytes)`);
-  res.set("Content-Type", "application/json");
-  res.set("ETag", etag);
-  res.set("Last-Modified", lastMod);
-  if (mode === "B") {
-    res.set("Cache-Control", "public, max-age=30");
+function currentRevision(asset) {
+  return asset.revisions.find((r) => r.version === asset.current);
+}
+
+// Version of the primary Lottie asset, reported as "the" version by /state,
+// /flip and the manifest for older clients.
+function currentVersion(session) {
+  return session.registry.get(PRIMARY_ASSET).current;
+}
+
+// Rotates the RGB channels `times` times; white and grey stay as they are.
+function rotateRgb(rgb, times) {
+  const [r, g, b] = rgb;
+  return [[r, g, b], [g, b, r], [b, r, g]][times % 3];
+}
+
+// The body of demo version `version`, derived from a shipped one.
+function deriveBody(kind, body, version, rotations) {
+  if (kind === "json") {
+    const animation = JSON.parse(body.toString("utf8"));
+    const recolor = (node) => {
+      if (Array.isArray(node)) return node.forEach(recolor);
+      if (!node || typeof node !== "object") return;
+      if ((node.ty === "fl" || node.ty === "st") && Array.isArray(node.c?.k) && typeof node.c.k[0] === "number") {
+        node.c.k.splice(0, 3, ...rotateRgb(node.c.k, rotations));
+      }
+      Object.values(node).forEach(recolor);
+    };
+    recolor(animation.layers);
+    if ("demoVersion" in animation) animation.demoVersion = version;
+    return jsonBody(animation);
   }
-  res.status(200).send(body);
-});
+  if (kind === "svg") {
+    return Buffer.from(
+      body
+        .toString("utf8")
+        .replace(/#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})\b/gi, (_, ...rgb) => `#${rotateRgb(rgb.slice(0, 3), rotations).join("")}`)
+        .replace(/>v\d+</, `>v${version}<`)
+    );
+  }
+  const png = PNG.sync.read(body);
+  for (let i = 0; i < png.data.length; i += 4) {
+    png.data.set(rotateRgb(png.data.subarray(i, i + 3), rotations), i);
+  }
+  return PNG.sync.write(png);
+}
+
+// Makes sure every demo asset has revisions up to `version`. Uploaded assets
+// only have the revisions that were uploaded.
+function ensureVersion(session, version) {
+  const { registry } = session;
+  for (const { name, files } of BUILTIN_ASSETS) {
+    const asset = registry.get(name);
+    for (let n = asset.revisions.length + 1; n <= version; n++) {
+      const rotations = Math.floor((n - 1) / files.length);
+      const source = asset.revisions[(n - 1) % files.length];
+      asset.revisions.push(makeRevision(n, deriveBody(asset.kind, source.body, n, rotations)));
+    }
+  }
+  for (const { name, animations } of DOTLOTTIE_BUNDLES) {
+    const asset = registry.get(name);
+    for (let n = asset.revisions.length + 1; n <= version; n++) {
+      asset.revisions.push(makeRevision(n, buildDotLottie(registry, animations, n - 1)));
+    }
+  }
+}
+
+// Serves every asset at `version`, or at its newest revision below it.
+function setTimelineVersion(session, version) {
+  ensureVersion(session, version);
+  for (const asset of session.registry.values()) {
+    if (asset.revisions.length > 0) {
+      asset.current = Math.min(version, asset.revisions.length);
+    }
+  }
+}
+
+// Applies the rollout steps that are due. Runs on every request, so a step
+// takes effect on the first request after its time without any timers; its
+// Last-Modified is the time it was due.
+function advanceSchedule(session, now) {
+  while (session.schedule.length > 0 && session.schedule[0].at <= now) {
+    const { version, at } = session.schedule.shift();
+    setTimelineVersion(session, version);
+    session.lastModified = at;
+    console.log(`\n[ROLLOUT] [${formatIST(now)}] Now serving v${version}, due ${formatIST(at)}${inSession(session)}`);
+  }
+}
+
+// Versions the timeline can serve without deriving new ones.
+function availableVersions(session) {
+  return session.registry.get(PRIMARY_ASSET).revisions.map((r) => r.version);
+}
+
+function describeSchedule(session, now = new Date()) {
+  return session.schedule.map(({ version, at }) => ({
+    version,
+    at: at.toISOString(),
+    inSeconds: Math.max(0, Math.ceil((at.getTime() - now.getTime()) / 1000)),
+  }));
+}
+
+function isVersion(value) {
+  return Number.isInteger(value) && value >= 1 && value <= MAX_VERSION;
+}
+
+// Returns the schedule for a list of {version, afterSeconds} steps, or throws
+// with a message suitable for a 400 response.
+function validateSchedule(steps, now) {
+  if (!Array.isArray(steps)) throw new Error("steps must be an array");
+  return steps
+    .map((step) => {
+      if (!isVersion(step?.version)) throw new Error(`version must be an integer between 1 and ${MAX_VERSION}`);
+      const { afterSeconds } = step;
+      if (typeof afterSeconds !== "number" || !(afterSeconds >= 0 && afterSeconds <= MAX_SCHEDULE_SECONDS)) {
+        throw new Error(`afterSeconds must be between 0 and ${MAX_SCHEDULE_SECONDS}`);
+      }
+      return { version: step.version, at: new Date(now.getTime() + afterSeconds * 1000) };
+    })
+    .sort((a, b) => a.at - b.at);
+}
+
+function assetPath(asset) {
+  return asset.alias || `/assets/${asset.name}`;
+}
+
+function describeAsset(asset) {
+  return {
+    name: asset.name,
+    kind: asset.kind,
+    contentType: asset.contentType,
+    path: assetPath(asset),
+    version: asset.current,
+    requestCount: asset.requestCount,
+    versions: asset.revisions.map(({ version, bytes, sha256, uploadedAt }) => ({
+      version,
+      bytes,
+      sha256,
+      uploadedAt: uploadedAt.toISOString(),
+    })),
+  };
+}
+
+function isAssetUpload(req) {
+  return req.method === "POST" && req.path.startsWith("/assets/");
+}
+
+// Version, size and SHA-256 of every asset as currently served.
+function buildManifest(session) {
+  return {
+    version: currentVersion(session),
+    assets: [...session.registry.values()].map((asset) => {
+      const revision = currentRevision(asset);
+      return {
+        asset: asset.kind,
+        name: asset.name,
+        path: assetPath(asset),
+        version: revision.version,
+        bytes: revision.bytes,
+        sha256: revision.sha256,
+        contentType: asset.contentType,
+      };
+    }),
+  };
+}
+
+function defaultPolicies() {
+  return Object.fromEntries(ASSETS.map((asset) => [asset, { ...MODE_PRESETS.A }]));
+}
+
+// Returns a normalized copy of a client-supplied policy, or throws with a
+// message suitable for a 400 response.
+function validatePolicy(input) {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("policy must be an object");
+  }
+  const policy = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (BOOLEAN_DIRECTIVES.includes(key)) {
+      if (typeof value !== "boolean") throw new Error(`${key} must be a boolean`);
+      if (value) policy[key] = true;
+    } else if (SECONDS_DIRECTIVES.includes(key)) {
+      if (value === null) continue;
+      if (!Number.isInteger(value) || value < 0) throw new Error(`${key} must be a non-negative integer`);
+      policy[key] = value;
+    } else if (key === "expires") {
+      // Seconds relative to the response time; negative values send a date in the past.
+      if (value === null) continue;
+      if (!Number.isInteger(value)) throw new Error("expires must be an integer number of seconds");
+      policy.expires = value;
+    } else if (key === "vary") {
+      if (value === null || value === "") continue;
+      if (typeof value !== "string") throw new Error("vary must be a string");
+      policy.vary = value;
+    } else {
+      throw new Error(`unknown policy field "${key}"`);
+    }
+  }
+  if (policy.public && policy.private) {
+    throw new Error("public and private are mutually exclusive");
+  }
+  return policy;
+}
+
+function buildCacheControl(policy) {
+  const directives = [];
+  for (const key of BOOLEAN_DIRECTIVES) {
+    if (policy[key]) directives.push(DIRECTIVE_NAMES[key]);
+  }
+  for (const key of SECONDS_DIRECTIVES) {
+    if (policy[key] !== undefined) directives.push(`${DIRECTIVE_NAMES[key]}=${policy[key]}`);
+  }
+  return directives.length > 0 ? directives.join(", ") : null;
+}
+
+// The policy an asset is served with: its own override, else its kind's.
+function policyFor(session, entry) {
+  return session.assetPolicies[entry.name] || session.policies[entry.kind];
+}
+
+function applyPolicy(session, res, entry) {
+  const policy = policyFor(session, entry);
+  const cacheControl = buildCacheControl(policy);
+  if (cacheControl) {
+    res.set("Cache-Control", cacheControl);
+  }
+  if (policy.expires !== undefined) {
+    res.set("Expires", new Date(Date.now() + policy.expires * 1000).toUTCString());
+  }
+  if (policy.vary) {
+    res.set("Vary", policy.vary);
+  }
+}
+
+// Name of the legacy mode matching the current policies, for /state.
+// Field by field, so the order a policy's keys were set in doesn't matter.
+function samePolicy(a, b) {
+  return [...BOOLEAN_DIRECTIVES, ...SECONDS_DIRECTIVES, "expires", "vary"].every((key) => a[key] === b[key]);
+}
+
+function currentMode(session) {
+  for (const [name, preset] of Object.entries(MODE_PRESETS)) {
+    const expected = validatePolicy(preset);
+    if (ASSETS.every((asset) => samePolicy(session.policies[asset], expected))) {
+      return name;
+    }
+  }
+  return "custom";
+}
+
+function computeETag(session, body) {
+  const hash = sha256Hex(body);
+  return session.weakETags ? `W/"${hash}"` : `"${hash}"`;
+}
+
+function emitsETag(session) {
+  return session.validators === "both" || session.validators === "etag";
+}
+
+function emitsLastModified(session) {
+  return session.validators === "both" || session.validators === "last-modified";
+}
+
+// Weak comparison (RFC 9110 §8.8.3.2): opaque tags match regardless of W/.
+function opaqueTag(tag) {
+  return tag.trim().replace(/^W\//, "");
+}
+
+// Evaluates If-None-Match / If-Modified-Since against the validators we
+// currently emit, in RFC 9110 §13.2.2 order: If-Modified-Since is only
+// considered when If-None-Match is absent. Returns which validator matched
+// ("etag", "last-modified") or "none" when a full response is needed.
+function evaluateConditional(session, req, etag) {
+  const ifNoneMatch = req.headers["if-none-match"];
+  if (ifNoneMatch) {
+    if (!emitsETag(session)) return "none";
+    if (ifNoneMatch.trim() === "*") return "etag";
+    const current = opaqueTag(etag);
+    return ifNoneMatch.split(",").some((tag) => opaqueTag(tag) === current) ? "etag" : "none";
+  }
+  const ifModifiedSince = req.headers["if-modified-since"];
+  if (ifModifiedSince && emitsLastModified(session)) {
+    const since = new Date(ifModifiedSince);
+    // HTTP dates have one-second resolution.
+    if (!isNaN(since.getTime()) && Math.floor(session.lastModified.getTime() / 1000) <= Math.floor(since.getTime() / 1000)) {
+      return "last-modified";
+    }
+  }
+  return "none";
+}
+
+function acceptsDelta(req) {
+  return (req.headers["a-im"] || "").split(",").some((im) => im.split(";")[0].trim().toLowerCase() === DELTA_IM);
+}
+
+// The older revision an If-None-Match names, under either ETag this server
+// could have sent for it to this client.
+function findDeltaBase(session, req, entry, encoding) {
+  const ifNoneMatch = req.headers["if-none-match"];
+  if (!ifNoneMatch || !emitsETag(session)) return null;
+  const tags = ifNoneMatch.split(",").map(opaqueTag);
+  for (const revision of entry.revisions) {
+    if (revision.version === entry.current) continue;
+    for (const variant of new Set([encoding, "identity"])) {
+      const etag = variantETag(session, revision.body, entry.kind, variant);
+      if (tags.includes(opaqueTag(etag))) return { revision, etag };
+    }
+  }
+  return null;
+}
+
+function isPlainObject(value) {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(key) {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+// True when patching `from` into `to` key by key leaves the keys in `to`'s
+// order: the kept keys in their old order, then the added ones.
+function keepsKeyOrder(from, to) {
+  const kept = Object.keys(from).filter((key) => Object.hasOwn(to, key));
+  return Object.keys(to)
+    .slice(0, kept.length)
+    .every((key, i) => key === kept[i]);
+}
+
+// JSON Patch turning `from` into `to`: add/remove/replace only. Arrays that
+// change length and objects whose key order would differ are replaced whole,
+// so applying the patch reproduces JSON.stringify(to) exactly.
+function diffJson(from, to, path = "", ops = []) {
+  if (JSON.stringify(from) === JSON.stringify(to)) return ops;
+  if (Array.isArray(from) && Array.isArray(to) && from.length === to.length) {
+    from.forEach((item, i) => diffJson(item, to[i], `${path}/${i}`, ops));
+  } else if (isPlainObject(from) && isPlainObject(to) && keepsKeyOrder(from, to)) {
+    for (const key of Object.keys(from)) {
+      const child = `${path}/${escapePointer(key)}`;
+      if (Object.hasOwn(to, key)) diffJson(from[key], to[key], child, ops);
+      else ops.push({ op: "remove", path: child });
+    }
+    for (const key of Object.keys(to)) {
+      if (!Object.hasOwn(from, key)) ops.push({ op: "add", path: `${path}/${escapePointer(key)}`, value: to[key] });
+    }
+  } else {
+    ops.push({ op: "replace", path, value: to });
+  }
+  return ops;
+}
 
-// GET /image.png — Serve current PNG with conditional GET support
-app.get("/image.png", (req, res) => {
-  requestCount.png++;
-  const body = loadImage(currentVersion, "png");
-  const etag = computeETag(body);
+// A patch to the current revision for a client that asked for one, or null
+// to send the full body.
+function buildDelta(session, req, entry, encoding) {
+  if (!DELTA_KINDS.includes(entry.kind) || !acceptsDelta(req)) return null;
+  const base = findDeltaBase(session, req, entry, encoding);
+  if (!base) return null;
+  const current = currentRevision(entry);
+  const target = JSON.parse(current.body.toString("utf8"));
+  // An upload keeps its own formatting, which a patch can't rebuild.
+  if (!jsonBody(target).equals(current.body)) return null;
+  const operations = diffJson(JSON.parse(base.revision.body.toString("utf8")), target);
+  const patch = Buffer.from(JSON.stringify(operations));
+  if (patch.length >= current.bytes) return null;
+  return { base, patch, operations: operations.length, targetSha256: current.sha256 };
+}
+
+function defaultCompression() {
+  return { encodings: [], etags: "per-encoding" };
+}
+
+function compresses(session, asset) {
+  return session.compression.encodings.length > 0 && COMPRESSIBLE_KINDS.includes(asset);
+}
+
+// Picks the enabled encoding the client weights highest (RFC 9110 §12.5.3),
+// "identity" if it accepts none of them.
+function negotiateEncoding(session, req) {
+  const weights = {};
+  for (const part of (req.headers["accept-encoding"] || "").split(",")) {
+    const [coding, ...params] = part.trim().toLowerCase().split(";");
+    if (!coding) continue;
+    const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+    weights[coding] = q ? Number(q.slice(2)) || 0 : 1;
+  }
+  let best = "identity";
+  let bestWeight = 0;
+  for (const encoding of session.compression.encodings) {
+    const weight = weights[encoding] ?? weights["*"] ?? 0;
+    if (weight > bestWeight) {
+      best = encoding;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+// Compressed bodies are computed once per revision and encoding.
+function encodeBody(revision, encoding) {
+  if (encoding === "identity") return revision.body;
+  revision.encoded = revision.encoded || {};
+  if (!revision.encoded[encoding]) {
+    revision.encoded[encoding] =
+      encoding === "br" ? zlib.brotliCompressSync(revision.body) : zlib.gzipSync(revision.body);
+  }
+  return revision.encoded[encoding];
+}
+
+// ETag of one encoding of the body. Without compression this is plain
+// computeETag(); with it, every encoding of the same revision gets either a
+// suffixed tag or the same weak one.
+function variantETag(session, body, asset, encoding) {
+  if (!compresses(session, asset)) return computeETag(session, body);
+  const hash = sha256Hex(body);
+  if (session.compression.etags === "weak") return `W/"${hash}"`;
+  const tag = encoding === "identity" ? `"${hash}"` : `"${hash}-${encoding}"`;
+  return session.weakETags ? `W/${tag}` : tag;
+}
+
+function describeCompression({ compression }) {
+  return compression.encodings.length > 0 ? `${compression.encodings.join(", ")} (${compression.etags} ETags)` : "off";
+}
+
+// Returns a normalized copy of a client-supplied fault, or throws with a
+// message suitable for a 400 response.
+function validateFault(session, input) {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("fault must be an object");
+  }
+  const { type, asset = null, probability = 1, once = false, delayMs, status } = input;
+  if (!FAULT_TYPES.includes(type)) {
+    throw new Error(`type must be one of ${FAULT_TYPES.join(", ")}`);
+  }
+  if (asset !== null && !session.registry.has(asset)) throw new Error(`unknown asset "${asset}"`);
+  if (typeof probability !== "number" || !(probability > 0 && probability <= 1)) {
+    throw new Error("probability must be a number in (0, 1]");
+  }
+  if (typeof once !== "boolean") throw new Error("once must be a boolean");
+  const fault = { type, asset, probability, once };
+  if (type === "latency") {
+    const ms = delayMs ?? DEFAULT_FAULT_LATENCY_MS;
+    if (!Number.isInteger(ms) || ms < 0) throw new Error("delayMs must be a non-negative integer");
+    fault.delayMs = ms;
+  }
+  if (type === "error") {
+    const code = status ?? 503;
+    if (!FAULT_ERROR_STATUSES.includes(code)) throw new Error(`status must be one of ${FAULT_ERROR_STATUSES.join(", ")}`);
+    fault.status = code;
+  }
+  return fault;
+}
+
+function describeFault(fault) {
+  const detail = fault.type === "latency" ? ` ${fault.delayMs}ms` : fault.type === "error" ? ` ${fault.status}` : "";
+  const odds = fault.once ? "once" : fault.probability < 1 ? `${Math.round(fault.probability * 100)}%` : "always";
+  return `#${fault.id} ${fault.type}${detail} on ${fault.asset || "all assets"} (${odds})`;
+}
+
+// Faults that fire for this request. One-shot faults are removed as they fire.
+function rollFaults(session, asset) {
+  const fired = session.faults.filter((f) => (f.asset === null || f.asset === asset.name) && Math.random() < f.probability);
+  for (const fault of fired) fault.triggered++;
+  session.faults = session.faults.filter((f) => !(f.once && fired.includes(f)));
+  return fired;
+}
+
+// Faults that replace the response entirely: an error status or a dropped
+// connection.
+function failRequest(res, entry, fault) {
+  res.locals.journal = { asset: entry.kind, name: entry.name, version: entry.current };
+  if (fault.type === "reset") {
+    console.log("  → connection reset (injected)");
+    return res.socket.destroy();
+  }
+  console.log(`  → ${fault.status} (injected)`);
+  res.status(fault.status).json({ error: `injected ${fault.status}` });
+}
+
+// Shared by the asset routes: validators, cache policy, conditional GET and
+// a header echo so the app can see what the platform cache actually sent.
+// `fault` is the type of an injected fault that corrupts the response.
+function serveAsset(session, req, res, entry, fault = null) {
+  const { kind: asset, contentType } = entry;
+  const { validators, weakETags, lastModified } = session;
+  const revision = currentRevision(entry);
+  const { body, version } = revision;
+  const encoding = compresses(session, asset) ? negotiateEncoding(session, req) : "identity";
+  const etag =
+    fault === "etag-mismatch"
+      ? `"${crypto.randomBytes(16).toString("hex")}"`
+      : variantETag(session, body, asset, encoding);
   const lastMod = lastModified.toUTCString();
+  const matched = evaluateConditional(session, req, etag);
 
-  console.log(`\n--- /image.png request #${requestCount.png} [${formatIST(new Date())}] ---`);
-  console.log(`  Mode: ${mode} | Version: v${currentVersion}`);
+  console.log(`  Mode: ${currentMode(session)} | Version: v${version} | Validators: ${validators}${weakETags ? " (weak)" : ""}`);
   console.log(`  If-None-Match: ${req.headers["if-none-match"] || "(none)"}`);
-  console.log(`  ETag: ${etag}`);
+  console.log(`  If-Modified-Since: ${req.headers["if-modified-since"] || "(none)"}`);
+  console.log(`  ETag: ${emitsETag(session) ? etag : "(not sent)"}`);
+  console.log(`  Last-Modified: ${emitsLastModified(session) ? `${lastMod} (IST: ${formatIST(lastModified)})` : "(not sent)"}`);
+  console.log(`  Cache-Control: ${buildCacheControl(policyFor(session, entry)) || "(none)"}`);
+  if (compresses(session, asset)) {
+    console.log(`  Accept-Encoding: ${req.headers["accept-encoding"] || "(none)"} → ${encoding}`);
+  }
 
-  // Conditional GET: check If-None-Match
-  const clientETag = req.headers["if-none-match"];
-  if (clientETag && clientETag === etag) {
-    console.log(`  → 304 Not Modified`);
-    res.set("ETag", etag);
-    res.set("Last-Modified", lastMod);
-    if (mode === "B") {
-      res.set("Cache-Control", "public, max-age=30");
-    }
+  if (emitsETag(session)) res.set("ETag", etag);
+  if (emitsLastModified(session)) res.set("Last-Modified", lastMod);
+  applyPolicy(session, res, entry);
+  if (compresses(session, asset)) res.vary("Accept-Encoding");
+  res.set("X-Request-If-None-Match", req.headers["if-none-match"] || "");
+  res.set("X-Request-If-Modified-Since", req.headers["if-modified-since"] || "");
+  res.set("X-Validator-Match", matched);
+  res.locals.journal = { asset, name: entry.name, etag, matched, version, encoding };
+
+  if (matched !== "none" || fault === "unsolicited-304") {
+    console.log(`  → 304 Not Modified (${fault === "unsolicited-304" ? "injected" : `matched ${matched}`})`);
     return res.status(304).end();
   }
 
-  // Full response
-  console.log(`  → 200 OK (${body.length} bytes)`);
-  res.set("Content-Type", "image/png");
-  res.set("ETag", etag);
-  res.set("Last-Modified", lastMod);
-  if (mode === "B") {
-    res.set("Cache-Control", "public, max-age=30");
+  const delta = fault ? null : buildDelta(session, req, entry, encoding);
+  if (delta) {
+    console.log(
+      `  → 226 IM Used (${DELTA_IM} from v${delta.base.revision.version}, ` +
+        `${delta.operations} ops, ${delta.patch.length} bytes instead of ${body.length})`
+    );
+    res.set("IM", DELTA_IM);
+    res.set("Delta-Base", delta.base.etag);
+    res.set("X-Delta-Target-SHA256", delta.targetSha256);
+    res.set("X-Full-Length", String(body.length));
+    res.set("Content-Type", "application/json-patch+json");
+    res.set("Content-Length", String(delta.patch.length));
+    res.set("X-Content-Encoding", "identity");
+    res.set("X-Encoded-Length", String(delta.patch.length));
+    return res.status(226).end(delta.patch);
+  }
+
+  // Full response. res.end() rather than res.send(): Express would otherwise
+  // run its own freshness check and answer 304 behind our back.
+  // Platform stacks decompress transparently and may drop Content-Encoding
+  // and Content-Length, so both are echoed for the app.
+  const encoded = encodeBody(revision, encoding);
+  console.log(`  → 200 OK (${encoded.length} bytes${encoding === "identity" ? "" : `, ${encoding} of ${body.length}`})`);
+  res.set("Content-Type", contentType);
+  if (encoding !== "identity") res.set("Content-Encoding", encoding);
+  res.set("Content-Length", String(encoded.length));
+  res.set("X-Content-Encoding", encoding);
+  res.set("X-Encoded-Length", String(encoded.length));
+  res.status(200);
+  if (fault === "truncate") {
+    // The full Content-Length, then the connection drops halfway through.
+    console.log("  → truncated (injected)");
+    return res.write(encoded.subarray(0, Math.floor(encoded.length / 2)), () => res.socket.destroy());
+  }
+  if (fault === "wrong-length") {
+    // Announce fewer bytes than are sent: clients read a silently truncated body.
+    console.log("  → short Content-Length (injected)");
+    res.set("Content-Length", String(Math.floor(encoded.length * 0.9)));
+    res.set("Connection", "close");
+  }
+  res.end(encoded);
+}
+
+function recordJournalEntry(session, entry) {
+  session.journal.push(entry);
+  if (session.journal.length > JOURNAL_LIMIT) {
+    session.journal = session.journal.slice(-JOURNAL_LIMIT);
   }
-  res.status(200).send(body);
+  const event = `id: ${entry.id}\nevent: request\ndata: ${JSON.stringify(entry)}\n\n`;
+  for (const subscriber of session.journalSubscribers) {
+    subscriber.write(event);
+  }
+}
+
+// --- Journal middleware ---
+// Every request gets an id (echoed as X-Request-Id, which survives in cached
+// responses) and a journal entry once the response is finished, or its
+// connection dropped. Asset routes add what they decided via res.locals.journal.
+app.use((req, res, next) => {
+  if (JOURNAL_PATHS_EXCLUDED.includes(req.path)) {
+    return next();
+  }
+  const session = res.locals.session;
+  const id = ++journalSeq;
+  const started = Date.now();
+  const snapshot = { mode: currentMode(session), version: currentVersion(session) };
+  res.set("X-Request-Id", String(id));
+  res.on("close", () => {
+    const decision = res.locals.journal || {};
+    recordJournalEntry(session, {
+      id,
+      timestamp: new Date(started).toISOString(),
+      method: req.method,
+      path: req.path,
+      asset: decision.asset || null,
+      name: decision.name || null,
+      ifNoneMatch: req.headers["if-none-match"] || null,
+      ifModifiedSince: req.headers["if-modified-since"] || null,
+      etag: decision.etag || null,
+      matched: decision.matched || null,
+      encoding: decision.encoding || null,
+      faults: res.locals.faults || [],
+      status: res.headersSent ? res.statusCode : 0, // 0: reset before any response
+      bytesSent: Number(res.get("Content-Length") || 0),
+      durationMs: Date.now() - started,
+      ...snapshot,
+      version: decision.version || snapshot.version,
+    });
+  });
+  next();
 });
 
-// GET /image.svg — Serve current SVG with conditional GET support
-app.get("/image.svg", (req, res) => {
-  requestCount.svg++;
-  const body = loadImage(currentVersion, "svg");
-  const etag = computeETag(body);
-  const lastMod = lastModified.toUTCString();
+// --- Endpoints ---
 
-  console.log(`\n--- /image.svg request #${requestCount.svg} [${formatIST(new Date())}] ---`);
-  console.log(`  Mode: ${mode} | Version: v${currentVersion}`);
-  console.log(`  If-None-Match: ${req.headers["if-none-match"] || "(none)"}`);
-  console.log(`  ETag: ${etag}`);
+function handleAssetRequest(req, res, asset) {
+  const session = res.locals.session;
+  asset.requestCount++;
+  console.log(`\n--- ${req.path} request #${asset.requestCount}${inSession(session)} [${formatIST(new Date())}] ---`);
+  const fired = rollFaults(session, asset);
+  if (fired.length > 0) {
+    console.log(`  Faults: ${fired.map(describeFault).join(", ")}`);
+    res.locals.faults = fired.map((f) => f.type);
+  }
+  const latency = fired.find((f) => f.type === "latency");
+  const fault = fired.find((f) => f.type !== "latency");
+  const respond = () => {
+    if (fault && (fault.type === "error" || fault.type === "reset")) {
+      return failRequest(res, asset, fault);
+    }
+    serveAsset(session, req, res, asset, fault ? fault.type : null);
+  };
+  if (latency) {
+    setTimeout(respond, latency.delayMs);
+  } else {
+    respond();
+  }
+}
+
+// GET /assets — Every registered asset with its URL, counters and history
+app.get("/assets", (_req, res) => {
+  res.set("Cache-Control", "no-store");
+  res.json({ assets: [...res.locals.session.registry.values()].map(describeAsset) });
+});
+
+// GET /assets/:name — Serve an asset's current revision with conditional GET support
+app.get("/assets/:name", (req, res) => {
+  const asset = res.locals.session.registry.get(req.params.name);
+  if (!asset) {
+    return res.status(404).json({ error: `unknown asset "${req.params.name}"` });
+  }
+  handleAssetRequest(req, res, asset);
+});
+
+// GET /lottie.json, /image.png, /image.svg, /demo.lottie — Aliases of the demo assets
+for (const { name, alias } of [...BUILTIN_ASSETS, ...DOTLOTTIE_BUNDLES].filter((a) => a.alias)) {
+  app.get(alias, (req, res) => handleAssetRequest(req, res, res.locals.session.registry.get(name)));
+}
 
-  // Conditional GET: check If-None-Match
-  const clientETag = req.headers["if-none-match"];
-  if (clientETag && clientETag === etag) {
-    console.log(`  → 304 Not Modified`);
-    res.set("ETag", etag);
-    res.set("Last-Modified", lastMod);
-    if (mode === "B") {
-      res.set("Cache-Control", "public, max-age=30");
+// POST /assets/:name — Upload a new revision (raw body, typed by Content-Type)
+// and serve it from now on. Unknown names register a new asset.
+app.post("/assets/:name", express.raw({ type: () => true, limit: UPLOAD_LIMIT }), (req, res) => {
+  const name = req.params.name;
+  if (!ASSET_NAME_PATTERN.test(name)) {
+    return res.status(400).json({ error: "asset names may only contain letters, digits, '.', '_' and '-'" });
+  }
+  const contentType = (req.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+  const kind = CONTENT_TYPE_KINDS[contentType];
+  if (!kind) {
+    return res.status(400).json({ error: `Content-Type must be one of ${Object.keys(CONTENT_TYPE_KINDS).join(", ")}` });
+  }
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return res.status(400).json({ error: "request body is empty" });
+  }
+  if (kind === "json") {
+    try {
+      JSON.parse(req.body.toString("utf8"));
+    } catch {
+      return res.status(400).json({ error: "body is not valid JSON" });
     }
-    return res.status(304).end();
   }
+  if (kind === "lottie") {
+    try {
+      const entries = unzipSync(req.body, { filter: (file) => file.name === "manifest.json" });
+      if (!entries["manifest.json"]) throw new Error("missing manifest");
+    } catch {
+      return res.status(400).json({ error: "body is not a .lottie archive with a manifest.json" });
+    }
+  }
+  const { registry } = res.locals.session;
+  let asset = registry.get(name);
+  if (asset && asset.contentType !== contentType) {
+    return res.status(400).json({ error: `${name} is ${asset.contentType}, not ${contentType}` });
+  }
+  if (!asset) {
+    asset = { name, alias: null, contentType, kind, revisions: [], current: 0, requestCount: 0 };
+    registry.set(name, asset);
+  }
+  const revision = makeRevision(asset.revisions.length + 1, req.body);
+  asset.revisions.push(revision);
+  asset.current = revision.version;
+  console.log(
+    `\n[UPLOAD] [${formatIST(new Date())}] ${name} v${revision.version} ` +
+      `(${revision.bytes} bytes, ${contentType})${inSession(res.locals.session)}`
+  );
+  res.status(201).json(describeAsset(asset));
+});
+
+// GET /manifest.json — Version, byte size and SHA-256 of every asset, with its
+// own strong ETag. Independent of the asset policies and validator settings.
+app.get("/manifest.json", (req, res) => {
+  const session = res.locals.session;
+  const body = JSON.stringify(buildManifest(session));
+  const etag = `"${sha256Hex(body)}"`;
+  const ifNoneMatch = req.headers["if-none-match"];
+  const matched = ifNoneMatch && ifNoneMatch.split(",").some((tag) => opaqueTag(tag) === opaqueTag(etag)) ? "etag" : "none";
+  console.log(`\n[MANIFEST] [${formatIST(new Date())}] v${currentVersion(session)}${inSession(session)} | If-None-Match: ${ifNoneMatch || "(none)"} → ${matched === "etag" ? 304 : 200}`);
 
-  // Full response
-  console.log(`  → 200 OK (${body.length} bytes)`);
-  res.set("Content-Type", "image/svg+xml");
   res.set("ETag", etag);
-  res.set("Last-Modified", lastMod);
-  if (mode === "B") {
-    res.set("Cache-Control", "public, max-age=30");
+  res.set("Cache-Control", MANIFEST_CACHE_CONTROL);
+  res.set("X-Validator-Match", matched);
+  res.locals.journal = { etag, matched };
+  if (matched === "etag") {
+    return res.status(304).end();
   }
-  res.status(200).send(body);
+  res.set("Content-Type", "application/json");
+  res.set("Content-Length", String(Buffer.byteLength(body)));
+  res.status(200).end(body);
 });
 
-// POST /flip — Toggle between v1 and v2
+// POST /flip — Toggle every asset between its two latest revisions (v1/v2
+// for the demo assets)
 app.post("/flip", (_req, res) => {
-  currentVersion = currentVersion === 1 ? 2 : 1;
-  console.log(`\n[FLIP] [${formatIST(new Date())}] Now serving v${currentVersion}`);
-  res.json({ version: currentVersion });
+  const session = res.locals.session;
+  for (const asset of session.registry.values()) {
+    if (asset.revisions.length < 2) continue;
+    const [previous, latest] = asset.revisions.slice(-2);
+    asset.current = asset.current === latest.version ? previous.version : latest.version;
+  }
+  console.log(`\n[FLIP] [${formatIST(new Date())}] Now serving v${currentVersion(session)}${inSession(session)}`);
+  res.json({ version: currentVersion(session) });
+});
+
+// POST /version — Serve one version of every asset: {"version":3}
+app.post("/version", (req, res) => {
+  const session = res.locals.session;
+  const { version } = req.body;
+  if (!isVersion(version)) {
+    return res.status(400).json({ error: `version must be an integer between 1 and ${MAX_VERSION}` });
+  }
+  setTimelineVersion(session, version);
+  console.log(`\n[VERSION] [${formatIST(new Date())}] Now serving v${version}${inSession(session)}`);
+  res.json({ version: currentVersion(session), versions: availableVersions(session) });
+});
+
+// GET /schedule — Pending rollout steps, soonest first
+app.get("/schedule", (_req, res) => {
+  res.set("Cache-Control", "no-store");
+  res.json({ schedule: describeSchedule(res.locals.session) });
+});
+
+// POST /schedule — Replace the rollout schedule:
+// {"steps":[{"version":3,"afterSeconds":60},{"version":4,"afterSeconds":120}]}
+app.post("/schedule", (req, res) => {
+  const session = res.locals.session;
+  const now = new Date();
+  try {
+    session.schedule = validateSchedule(req.body.steps, now);
+  } catch (e) {
+    return res.status(400).json({ error: e.message });
+  }
+  ensureVersion(session, Math.max(0, ...session.schedule.map((step) => step.version)));
+  const steps = session.schedule.map(({ version, at }) => `v${version} at ${formatIST(at)}`);
+  console.log(`\n[ROLLOUT] [${formatIST(now)}] Scheduled ${steps.join(", ") || "nothing"}${inSession(session)}`);
+  res.json({ schedule: describeSchedule(session, now) });
+});
+
+// DELETE /schedule — Cancel the pending rollout steps
+app.delete("/schedule", (_req, res) => {
+  const session = res.locals.session;
+  session.schedule = [];
+  console.log(`\n[ROLLOUT] [${formatIST(new Date())}] Schedule cancelled${inSession(session)}`);
+  res.json({ schedule: [] });
 });
 
-// POST /mode — Set mode A or B
+// POST /mode — Apply the mode A or B preset, to one asset or all of them
 app.post("/mode", (req, res) => {
+  const session = res.locals.session;
   const newMode = req.body.mode;
+  const asset = req.body.asset;
   if (newMode !== "A" && newMode !== "B") {
     return res.status(400).json({ error: "mode must be 'A' or 'B'" });
   }
-  mode = newMode;
-  console.log(`\n[MODE] [${formatIST(new Date())}] Switched to Mode ${mode}`);
-  res.json({ mode });
+  if (asset !== undefined && !ASSETS.includes(asset)) {
+    return res.status(400).json({ error: `asset must be one of ${ASSETS.join(", ")}` });
+  }
+  for (const target of asset ? [asset] : ASSETS) {
+    session.policies[target] = validatePolicy(MODE_PRESETS[newMode]);
+  }
+  if (!asset) session.assetPolicies = {};
+  console.log(`\n[MODE] [${formatIST(new Date())}] Switched ${asset || "all assets"} to Mode ${newMode}${inSession(session)}`);
+  res.json({ mode: currentMode(session) });
+});
+
+// POST /policy — Set a structured cache policy, for one asset kind, one asset
+// by name (overriding its kind's policy) or all of them
+app.post("/policy", (req, res) => {
+  const session = res.locals.session;
+  const asset = req.body.asset;
+  if (asset !== undefined && !ASSETS.includes(asset) && !session.registry.has(asset)) {
+    return res.status(400).json({ error: `asset must be one of ${ASSETS.join(", ")} or a registered asset name` });
+  }
+  let policy;
+  try {
+    policy = validatePolicy(req.body.policy);
+  } catch (e) {
+    return res.status(400).json({ error: e.message });
+  }
+  if (asset !== undefined && !ASSETS.includes(asset)) {
+    session.assetPolicies[asset] = { ...policy };
+  } else {
+    for (const target of asset ? [asset] : ASSETS) {
+      session.policies[target] = { ...policy };
+    }
+    if (!asset) session.assetPolicies = {};
+  }
+  console.log(
+    `\n[POLICY] [${formatIST(new Date())}] ${asset || "all assets"} → ` +
+      `${buildCacheControl(policy) || "(no Cache-Control)"}` +
+      `${policy.expires !== undefined ? ` | Expires: ${policy.expires}s` : ""}` +
+      `${policy.vary ? ` | Vary: ${policy.vary}` : ""}${inSession(session)}`
+  );
+  res.json({ policies: session.policies, assetPolicies: session.assetPolicies });
+});
+
+// POST /validators — Choose which validators are emitted, and ETag strength
+app.post("/validators", (req, res) => {
+  const { validators: newValidators, weak } = req.body;
+  if (newValidators !== undefined && !VALIDATOR_STRATEGIES.includes(newValidators)) {
+    return res.status(400).json({ error: `validators must be one of ${VALIDATOR_STRATEGIES.join(", ")}` });
+  }
+  if (weak !== undefined && typeof weak !== "boolean") {
+    return res.status(400).json({ error: "weak must be a boolean" });
+  }
+  const session = res.locals.session;
+  if (newValidators !== undefined) session.validators = newValidators;
+  if (weak !== undefined) session.weakETags = weak;
+  const { validators, weakETags } = session;
+  console.log(`\n[VALIDATORS] [${formatIST(new Date())}] ${validators}${weakETags ? " (weak ETags)" : ""}${inSession(session)}`);
+  res.json({ validators, weakETags });
+});
+
+// POST /compression — Enable gzip/br negotiation on the asset routes, and
+// choose how ETags differ between encodings
+app.post("/compression", (req, res) => {
+  const { encodings, etags } = req.body;
+  if (encodings !== undefined && (!Array.isArray(encodings) || !encodings.every((e) => ENCODINGS.includes(e)))) {
+    return res.status(400).json({ error: `encodings must be a list of ${ENCODINGS.join(", ")}` });
+  }
+  if (etags !== undefined && !ETAG_VARIANT_MODES.includes(etags)) {
+    return res.status(400).json({ error: `etags must be one of ${ETAG_VARIANT_MODES.join(", ")}` });
+  }
+  const session = res.locals.session;
+  const { compression } = session;
+  if (encodings !== undefined) compression.encodings = ENCODINGS.filter((e) => encodings.includes(e));
+  if (etags !== undefined) compression.etags = etags;
+  console.log(`\n[COMPRESSION] [${formatIST(new Date())}] ${describeCompression(session)}${inSession(session)}`);
+  res.json({ compression });
+});
+
+// GET /faults — Active faults, with how often each has fired
+app.get("/faults", (_req, res) => {
+  res.json({ faults: res.locals.session.faults });
+});
+
+// POST /faults — Inject a fault: {"type":"error","asset":"lottie.json","status":503,"once":true}
+app.post("/faults", (req, res) => {
+  const session = res.locals.session;
+  let fault;
+  try {
+    fault = validateFault(session, req.body);
+  } catch (e) {
+    return res.status(400).json({ error: e.message });
+  }
+  fault = { id: ++session.faultSeq, ...fault, triggered: 0 };
+  session.faults.push(fault);
+  console.log(`\n[FAULT] [${formatIST(new Date())}] Added ${describeFault(fault)}${inSession(session)}`);
+  res.status(201).json(fault);
+});
+
+// DELETE /faults/:id — Remove one fault
+app.delete("/faults/:id", (req, res) => {
+  const session = res.locals.session;
+  const id = Number(req.params.id);
+  if (!session.faults.some((f) => f.id === id)) {
+    return res.status(404).json({ error: `no fault #${req.params.id}` });
+  }
+  session.faults = session.faults.filter((f) => f.id !== id);
+  console.log(`\n[FAULT] [${formatIST(new Date())}] Removed #${id}${inSession(session)}`);
+  res.json({ faults: session.faults });
+});
+
+// DELETE /faults — Remove every fault
+app.delete("/faults", (_req, res) => {
+  const session = res.locals.session;
+  session.faults = [];
+  console.log(`\n[FAULT] [${formatIST(new Date())}] Cleared all faults${inSession(session)}`);
+  res.json({ faults: session.faults });
 });
 
 // POST /lastModified — Set Last-Modified date
@@ -169,50 +1227,176 @@ app.post("/lastModified", (req, res) => {
   if (isNaN(date.getTime())) {
     return res.status(400).json({ error: "invalid ISO date" });
   }
-  lastModified = date;
-  console.log(`\n[LAST-MODIFIED] [${formatIST(new Date())}] Set to ${formatIST(lastModified)}`);
-  res.json({ lastModified: lastModified.toISOString() });
+  const session = res.locals.session;
+  session.lastModified = date;
+  console.log(`\n[LAST-MODIFIED] [${formatIST(new Date())}] Set to ${formatIST(date)}${inSession(session)}`);
+  res.json({ lastModified: date.toISOString() });
 });
 
 // GET /state — Return current server state
 app.get("/state", (_req, res) => {
-  const body = loadLottie(currentVersion);
-  const etag = computeETag(body);
+  const session = res.locals.session;
+  const { registry, policies, assetPolicies, validators, weakETags, compression, faults } = session;
+  const etag = computeETag(session, currentRevision(registry.get(PRIMARY_ASSET)).body);
+  const counts = Object.fromEntries([...registry.values()].map((asset) => [asset.name, asset.requestCount]));
   res.json({
-    mode,
-    version: currentVersion,
-    lastModified: lastModified.toISOString(),
+    session: describeSession(session),
+    mode: currentMode(session),
+    version: currentVersion(session),
+    versions: availableVersions(session),
+    schedule: describeSchedule(session),
+    lastModified: session.lastModified.toISOString(),
     etag,
-    requestCount: requestCount.json, // Backwards compatibility
-    jsonCount: requestCount.json,
-    pngCount: requestCount.png,
-    svgCount: requestCount.svg,
-    cacheControl: mode === "B" ? "public, max-age=30" : null,
+    requestCount: counts["lottie.json"], // Backwards compatibility
+    jsonCount: counts["lottie.json"],
+    pngCount: counts["image.png"],
+    svgCount: counts["image.svg"],
+    assetCounts: counts,
+    cacheControl: buildCacheControl(policies.json), // Backwards compatibility
+    policies,
+    assetPolicies,
+    validators,
+    weakETags,
+    compression,
+    faults,
+  });
+});
+
+// GET /requests — Journal entries, optionally only those after ?since=<id>
+app.get("/requests", (req, res) => {
+  const since = Number(req.query.since || 0);
+  res.set("Cache-Control", "no-store");
+  res.json({ entries: res.locals.session.journal.filter((e) => e.id > since), lastId: journalSeq });
+});
+
+// GET /requests/stream — Server-Sent Events, one "request" event per entry.
+// Replays entries after Last-Event-ID (or ?since=) so reconnects don't lose any.
+app.get("/requests/stream", (req, res) => {
+  const { journal, journalSubscribers } = res.locals.session;
+  const since = Number(req.headers["last-event-id"] || req.query.since || 0);
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-store",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+  for (const entry of journal.filter((e) => e.id > since)) {
+    res.write(`id: ${entry.id}\nevent: request\ndata: ${JSON.stringify(entry)}\n\n`);
+  }
+  journalSubscribers.add(res);
+  console.log(`\n[JOURNAL] [${formatIST(new Date())}] Stream subscriber connected (${journalSubscribers.size} total)`);
+
+  // Comment lines keep idle proxies and the client's socket from timing out.
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 15000);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    journalSubscribers.delete(res);
   });
 });
 
 // POST /reset — Reset all state
 app.post("/reset", (_req, res) => {
-  currentVersion = 1;
-  mode = "A";
-  lastModified = new Date("2025-12-01T00:00:00Z");
-  requestCount = { json: 0, png: 0, svg: 0 };
-  console.log(`\n[RESET] [${formatIST(new Date())}] All state reset to defaults`);
+  const session = res.locals.session;
+  Object.assign(session, defaultSessionState());
+  console.log(`\n[RESET] [${formatIST(new Date())}] All state reset to defaults${inSession(session)}`);
   res.json({ ok: true });
 });
 
+// GET /sessions — Every live session with its expiry and request count
+app.get("/sessions", (_req, res) => {
+  res.set("Cache-Control", "no-store");
+  res.json({ sessions: [...sessions.values()].map(describeSession) });
+});
+
+// POST /sessions — Start a session with default state, which expires after
+// ttlSeconds without requests: {"label":"Priya","ttlSeconds":1800}
+app.post("/sessions", (req, res) => {
+  let options;
+  try {
+    options = validateSessionOptions(req.body);
+  } catch (e) {
+    return res.status(400).json({ error: e.message });
+  }
+  let id;
+  do {
+    id = crypto.randomBytes(4).toString("hex");
+  } while (sessions.has(id));
+  const session = createSession(id, options.label, options.ttlSeconds);
+  console.log(
+    `\n[SESSION] [${formatIST(new Date())}] Created ${id}${session.label ? ` "${session.label}"` : ""} ` +
+      `(expires after ${session.ttlSeconds}s idle)`
+  );
+  res.status(201).json(describeSession(session));
+});
+
+// GET /sessions/:id — One session
+app.get("/sessions/:id", (req, res) => {
+  const session = sessions.get(req.params.id);
+  if (!session) {
+    return res.status(404).json({ error: `unknown or expired session "${req.params.id}"` });
+  }
+  res.json(describeSession(session));
+});
+
+// DELETE /sessions/:id — Expire a session now
+app.delete("/sessions/:id", (req, res) => {
+  const session = sessions.get(req.params.id);
+  if (!session) {
+    return res.status(404).json({ error: `unknown or expired session "${req.params.id}"` });
+  }
+  if (session.id === DEFAULT_SESSION) {
+    return res.status(400).json({ error: "the default session can't be expired" });
+  }
+  expireSession(session, "deleted");
+  res.json({ sessions: [...sessions.values()].map(describeSession) });
+});
+
+// --- Session expiry ---
+// Idle sessions go once their TTL has passed; a live journal stream keeps
+// its session around.
+createSession(DEFAULT_SESSION, null, null);
+setInterval(() => {
+  const now = Date.now();
+  for (const session of sessions.values()) {
+    const expiresAt = sessionExpiresAt(session);
+    if (expiresAt && expiresAt.getTime() <= now && session.journalSubscribers.size === 0) {
+      expireSession(session, "idle");
+    }
+  }
+}, SESSION_SWEEP_MS).unref();
+
 // --- Start ---
 const PORT = 3000;
 app.listen(PORT, "0.0.0.0", () => {
   console.log(`[${formatIST(new Date())}] Lottie cache demo server running on http://0.0.0.0:${PORT}`);
-  console.log(`Mode: ${mode} | Version: v${currentVersion}`);
+  const session = sessions.get(DEFAULT_SESSION);
+  console.log(`Mode: ${currentMode(session)} | Version: v${currentVersion(session)}`);
   console.log(`Endpoints:`);
   console.log(`  GET  /lottie.json   — Fetch current Lottie JSON`);
   console.log(`  GET  /image.png     — Fetch current PNG image`);
   console.log(`  GET  /image.svg     — Fetch current SVG image`);
+  console.log(`  GET  /demo.lottie   — Fetch the demo Lotties as one dotLottie archive`);
+  console.log(`  GET  /assets        — Registered assets with versions and request counts`);
+  console.log(`  GET  /assets/:name  — Fetch an asset's current revision (e.g. sticker.json, a Lottie with external images)`);
+  console.log(`  POST /assets/:name  — Upload a new revision (raw body, Content-Type sets the kind)`);
+  console.log(`  GET  /manifest.json — Version, size and SHA-256 of every asset`);
   console.log(`  POST /flip          — Toggle v1/v2`);
-  console.log(`  POST /mode          — {"mode":"A"} or {"mode":"B"}`);
+  console.log(`  POST /version       — {"version":3}; versions past v2 are derived from v1/v2`);
+  console.log(`  POST /schedule      — {"steps":[{"version":3,"afterSeconds":60}]}; DELETE cancels, GET lists`);
+  console.log(`  POST /mode          — {"mode":"A"} or {"mode":"B"}, optional "asset"`);
+  console.log(`  POST /policy        — {"policy":{"maxAge":30,"mustRevalidate":true}}, optional "asset" (kind or name)`);
+  console.log(`  POST /validators    — {"validators":"both"|"etag"|"last-modified"|"none","weak":true}`);
+  console.log(`  POST /compression   — {"encodings":["gzip","br"],"etags":"per-encoding"|"weak"}`);
+  console.log(`  GET  /faults        — Active injected faults`);
+  console.log(`  POST /faults        — {"type":"latency"|"error"|"reset"|"truncate"|"wrong-length"|"etag-mismatch"|"unsolicited-304","asset":"lottie.json","once":true}`);
+  console.log(`  DELETE /faults[/:id] — Remove one fault or all of them`);
   console.log(`  POST /lastModified  — {"iso":"2025-12-15T00:00:00Z"}`);
   console.log(`  GET  /state         — Current server state`);
-  console.log(`  POST /reset         — Reset all state`);
+  console.log(`  GET  /requests      — Request journal (?since=<id>)`);
+  console.log(`  GET  /requests/stream — Request journal as Server-Sent Events`);
+  console.log(`  POST /reset         — Reset the session's state`);
+  console.log(`  GET  /sessions      — Live sessions`);
+  console.log(`  POST /sessions      — {"label":"Priya","ttlSeconds":1800}; then prefix paths with /s/<id> or send X-Session-Id`);
+  console.log(`  GET  /sessions/:id  — One session`);
+  console.log(`  DELETE /sessions/:id — Expire a session`);
 });